@@ -1,8 +1,30 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import type { OrganizedEmailGroup, SortOrder, UserProfile } from './types';
-import { organizeEmails } from './services/geminiService';
+import type { ArchivedRun, AttachmentContents, IdentitySettings, ReplyDraft, ImportedFile, OrganizedEmailGroup, OrganizeProgress, ProviderSettings, RedactionEntry, RedactionSettings, Rule, SortOrder, GroupMode, ResultsFilter, ThreadSummaries, UserProfile, ValidationIssue } from './types';
+import { organizeEmails } from './services/organizer';
+import { createProvider } from './services/providers';
+import { loadArchiveEnabled, loadCompletedTasks, loadIdentitySettings, loadProviderSettings, loadRedactionSettings, loadReplyDrafts, loadRules, saveArchiveEnabled, saveCompletedTasks, saveIdentitySettings, saveProviderSettings, saveRedactionSettings, saveReplyDrafts, saveRules } from './services/settingsStore';
+import { findRunByHash, hashInput, saveRun } from './services/archiveStore';
+import { sortGroups } from './services/emailGrouping';
+import { parseEmails } from './services/emailParser';
+import { collectAttachmentContents } from './services/attachments';
+import { EMPTY_IDENTITY_SETTINGS, resolveContacts } from './services/identity';
+import { createHideSenderRule } from './services/rules';
+import { createRedactor, withRedaction } from './services/redaction';
+import type { Redactor } from './services/redaction';
+import { importMailFiles } from './services/mailImporter';
+import { isResultsExportFile, parseResultsExport } from './services/exporters';
+import { filterFromSearchParams, filterToSearchParams } from './services/search';
+import { forgetGmailAccess, requestGmailAccess, revokeGmailAccess } from './services/gmailAuth';
+import { createGmailClient } from './services/gmailClient';
+import type { ImportSource } from './services/mailImporter';
 import { LogoIcon, SparklesIcon, SignOutIcon, AlertIcon } from './components/Icons';
 import ResultsDisplay from './components/ResultsDisplay';
+import FileImporter from './components/FileImporter';
+import ProviderSettingsPanel from './components/ProviderSettingsPanel';
+import RedactionSettingsPanel from './components/RedactionSettingsPanel';
+import HistoryPanel from './components/HistoryPanel';
+import RulesPanel from './components/RulesPanel';
+import GmailImporter from './components/GmailImporter';
 
 // Extend the Window interface for Google Identity Services
 declare global {
@@ -18,10 +40,41 @@ const App: React.FC = () => {
   const [gsiError, setGsiError] = useState<string | null>(null);
 
   const [rawEmails, setRawEmails] = useState<string>('');
+  const [importedFiles, setImportedFiles] = useState<ImportedFile[]>([]);
+  const [isImporting, setIsImporting] = useState<boolean>(false);
   const [organizedData, setOrganizedData] = useState<OrganizedEmailGroup[] | null>(null);
+  const [threadSummaries, setThreadSummaries] = useState<ThreadSummaries>({});
+  const [attachmentContents, setAttachmentContents] = useState<AttachmentContents>({});
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [validationIssues, setValidationIssues] = useState<ValidationIssue[]>([]);
+  const [progress, setProgress] = useState<OrganizeProgress | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [sortOrder, setSortOrder] = useState<SortOrder>('newest');
+  const [groupMode, setGroupMode] = useState<GroupMode>('sender');
+  const [filter, setFilter] = useState<ResultsFilter>(() => filterFromSearchParams(window.location.search));
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const provider = useMemo(() => createProvider(providerSettings), [providerSettings]);
+  const [redactionSettings, setRedactionSettings] = useState<RedactionSettings>(loadRedactionSettings);
+  const [redactor, setRedactor] = useState<Redactor | null>(null);
+  const [redactions, setRedactions] = useState<RedactionEntry[]>([]);
+  const isLocalProvider = providerSettings.provider === 'offline';
+  // Everything sent to a remote provider, including replies and digests, goes through the redactor.
+  const outgoingProvider = useMemo(() => (redactor ? withRedaction(provider, redactor, setRedactions) : provider), [provider, redactor]);
+  const userEmail = user?.email ?? '';
+  // Shared by fetching and by the actions on fetched emails.
+  const gmailClient = useMemo(() => createGmailClient({
+    baseUrl: process.env.GMAIL_API_BASE_URL || undefined,
+    getAccessToken: (access) => requestGmailAccess(userEmail, access),
+    onUnauthorized: forgetGmailAccess,
+  }), [userEmail]);
+  const [archiveEnabled, setArchiveEnabled] = useState<boolean>(false);
+  const [historyVersion, setHistoryVersion] = useState<number>(0);
+  const [completedTasks, setCompletedTasks] = useState<Set<string>>(() => new Set());
+  const [rules, setRules] = useState<Rule[]>([]);
+  const [identity, setIdentity] = useState<IdentitySettings>(EMPTY_IDENTITY_SETTINGS);
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, ReplyDraft>>({});
 
   const decodeJwtResponse = (token: string): UserProfile => {
     try {
@@ -40,6 +93,11 @@ const App: React.FC = () => {
   const handleCredentialResponse = (response: any) => {
       const userProfile = decodeJwtResponse(response.credential);
       setUser(userProfile);
+      setArchiveEnabled(loadArchiveEnabled(userProfile.sub));
+      setCompletedTasks(loadCompletedTasks(userProfile.sub));
+      setRules(loadRules(userProfile.sub));
+      setIdentity(loadIdentitySettings(userProfile.sub));
+      setReplyDrafts(loadReplyDrafts(userProfile.sub));
       if (signInButtonRef.current) {
           signInButtonRef.current.style.display = 'none';
       }
@@ -47,6 +105,13 @@ const App: React.FC = () => {
 
   const handleSignOut = () => {
       setUser(null);
+      setArchiveEnabled(false);
+      setCompletedTasks(new Set());
+      setRules([]);
+      setIdentity(EMPTY_IDENTITY_SETTINGS);
+      setReplyDrafts({});
+      setOrganizedData(null);
+      revokeGmailAccess();
       setGsiError(null); // Clear any GSI errors on sign out
       if (signInButtonRef.current) {
           signInButtonRef.current.style.display = 'block';
@@ -96,90 +161,241 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // Mirror the filters in the URL so a filtered view can be bookmarked or shared.
+  useEffect(() => {
+    const search = filterToSearchParams(filter, window.location.search);
+    if (search !== window.location.search) {
+      window.history.replaceState(null, '', `${window.location.pathname}${search}${window.location.hash}`);
+    }
+  }, [filter]);
+
+  const importedEmails = useMemo(() => importedFiles.flatMap(file => file.emails), [importedFiles]);
+  const hasInput = rawEmails.trim() !== '' || importedEmails.length > 0;
+
+  // Restores results from a JSON export. Unreadable exports are listed with the imported files.
+  const restoreExport = async (file: File): Promise<ImportedFile | null> => {
+    try {
+      const exported = parseResultsExport(await file.text());
+      setError(null);
+      setValidationIssues([]);
+      setOrganizedData(exported.groups);
+      setThreadSummaries(exported.threadSummaries);
+      setGroupMode(exported.view.groupMode);
+      setSortOrder(exported.view.sortOrder);
+      setNotice(exported.exportedAt ? `Showing results exported on ${new Date(exported.exportedAt).toLocaleString()}.` : null);
+      return null;
+    } catch (err) {
+      console.error(`Error restoring ${file.name}:`, err);
+      return { fileName: file.name, emails: [], error: err instanceof Error ? err.message : "The file could not be read." };
+    }
+  };
+
+  const handleImport = async (sources: ImportSource[]) => {
+    setIsImporting(true);
+    try {
+      const exports = sources.filter(source => isResultsExportFile(source.file));
+      const restoreErrors = await Promise.all(exports.map(source => restoreExport(source.file)));
+      const results = await importMailFiles(sources.filter(source => !exports.includes(source)));
+      setImportedFiles(currentFiles => [
+        ...currentFiles,
+        ...restoreErrors.filter((file): file is ImportedFile => file !== null),
+        ...results,
+      ]);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleGmailFetched = (file: ImportedFile) => {
+    setImportedFiles(currentFiles => [...currentFiles, file]);
+  };
+
+  const handleRemoveImportedFile = (fileIndex: number) => {
+    setImportedFiles(currentFiles => currentFiles.filter((_, index) => index !== fileIndex));
+  };
+
+  const handleProviderSettingsChange = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    saveProviderSettings(settings);
+  };
+
+  const handleRedactionSettingsChange = (settings: RedactionSettings) => {
+    setRedactionSettings(settings);
+    saveRedactionSettings(settings);
+  };
+
+  // A fresh redactor per run and per settings change. Results always have the originals back,
+  // so nothing refers to an earlier redactor's placeholders.
+  const resetRedactor = (): Redactor | null => {
+    const next = !isLocalProvider && redactionSettings.enabled ? createRedactor(redactionSettings) : null;
+    setRedactor(next);
+    setRedactions([]);
+    return next;
+  };
+
+  useEffect(() => {
+    resetRedactor();
+  }, [isLocalProvider, redactionSettings]);
+
+  const handleToggleArchive = (enabled: boolean) => {
+    if (!user) return;
+    setArchiveEnabled(enabled);
+    saveArchiveEnabled(user.sub, enabled);
+  };
+
+  const handleToggleTask = (key: string, completed: boolean) => {
+    if (!user) return;
+    const updated = new Set<string>(completedTasks);
+    if (completed) {
+      updated.add(key);
+    } else {
+      updated.delete(key);
+    }
+    setCompletedTasks(updated);
+    saveCompletedTasks(user.sub, updated);
+  };
+
+  const handleRulesChange = (updated: Rule[]) => {
+    if (!user) return;
+    setRules(updated);
+    saveRules(user.sub, updated);
+  };
+
+  // Saved as rules, so the senders stay hidden in later runs and can be shown again from the Rules panel.
+  const handleHideSenders = (senderEmails: string[]) => {
+    if (!user) return;
+    const hidden = new Set(senderEmails);
+    handleRulesChange([...rules, ...senderEmails.map(createHideSenderRule)]);
+    setOrganizedData(currentData => currentData && currentData.filter(group => group.mergedByRule || !hidden.has(group.senderEmail)));
+    setNotice(`Emails from ${senderEmails.join(', ')} are now hidden. To show them again, delete the matching "Hide" rule under Rules.`);
+  };
+
+  const handleSaveReplyDraft = (draft: ReplyDraft) => {
+    if (!user) return;
+    const updated = { ...replyDrafts, [draft.key]: draft };
+    setReplyDrafts(updated);
+    saveReplyDrafts(user.sub, updated);
+  };
+
+  const handleDiscardReplyDraft = (key: string) => {
+    if (!user) return;
+    const { [key]: _discarded, ...updated } = replyDrafts;
+    setReplyDrafts(updated);
+    saveReplyDrafts(user.sub, updated);
+  };
+
+  const handleIdentityChange = (updated: IdentitySettings) => {
+    if (!user) return;
+    setIdentity(updated);
+    saveIdentitySettings(user.sub, updated);
+  };
+
+  const handleOpenRun = (run: ArchivedRun) => {
+    setError(null);
+    setNotice(null);
+    setValidationIssues([]);
+    setOrganizedData(run.groups);
+    setThreadSummaries(run.threadSummaries);
+  };
+
   const handleOrganizeClick = async () => {
-    if (!rawEmails.trim()) {
-      setError("Please paste some email content first.");
+    if (!hasInput) {
+      setError("Please paste some email content or import email files first.");
       return;
     }
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsLoading(true);
     setError(null);
+    setNotice(null);
+    setValidationIssues([]);
+    setProgress(null);
     setOrganizedData(null);
+    setThreadSummaries({});
+    const runRedactor = resetRedactor();
 
     try {
-      const result = await organizeEmails(rawEmails);
-      setOrganizedData(result);
+      // Collected up front, so downloads also work when the result comes from history.
+      setAttachmentContents(collectAttachmentContents([...parseEmails(rawEmails), ...importedEmails]));
+      const inputHash = user && archiveEnabled
+        ? await hashInput(rawEmails, importedEmails, providerSettings, rules).catch(err => {
+            console.error("Error hashing input for history:", err);
+            return null;
+          })
+        : null;
+      if (user && inputHash) {
+        const cached = await findRunByHash(user.sub, inputHash).catch(err => {
+          console.error("Error reading history:", err);
+          return null;
+        });
+        if (cached) {
+          setOrganizedData(cached.groups);
+          setThreadSummaries(cached.threadSummaries);
+          setNotice(`Identical input was already organized in "${cached.name}", so the saved result is shown.`);
+          return;
+        }
+      }
+
+      const runProvider = runRedactor ? withRedaction(provider, runRedactor, setRedactions) : provider;
+      const result = await organizeEmails(runProvider, rawEmails, importedEmails, {
+        signal: controller.signal,
+        onProgress: setProgress,
+        rules,
+        onPartialResult: setOrganizedData,
+      });
+      setOrganizedData(result.groups);
+      setThreadSummaries(result.threadSummaries);
+      setValidationIssues(result.issues);
+      // Only complete runs are archived, so a cache hit never returns partial results.
+      if (user && inputHash && !result.cancelled && result.failedChunks === 0) {
+        saveRun(user.sub, inputHash, result.groups, result.threadSummaries)
+          .then(() => setHistoryVersion(version => version + 1))
+          .catch(err => console.error("Error saving to history:", err));
+      }
+      if (result.cancelled) {
+        setNotice("Organizing was cancelled. Showing results from the chunks that finished.");
+      } else if (result.failedChunks > 0) {
+        setNotice(`${result.failedChunks} of ${result.totalChunks} chunks could not be organized. Showing partial results.`);
+      } else if (result.hiddenByRules > 0) {
+        setNotice(`${result.hiddenByRules} email${result.hiddenByRules > 1 ? 's were' : ' was'} hidden by your rules.`);
+      }
     } catch (err) {
       console.error(err);
+      setOrganizedData(null); // Drops anything that streamed in before the run failed
       setError(err instanceof Error ? err.message : "An unknown error occurred. Please check the console.");
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
+      setProgress(null);
     }
   };
 
-  const handleDeleteEmail = (senderEmail: string, emailIndex: number) => {
+  const handleCancelClick = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleRemoveEmails = (emailIds: string[]) => {
+    const removed = new Set(emailIds);
     setOrganizedData(currentData => {
       if (!currentData) return null;
 
       const newData = currentData
-        .map(group => {
-          if (group.senderEmail === senderEmail) {
-            // Filter out the email at the specified index
-            const updatedEmails = group.emails.filter((_, index) => index !== emailIndex);
-            // Return a new group object with the updated emails
-            return { ...group, emails: updatedEmails };
-          }
-          return group;
-        })
+        .map(group => ({ ...group, emails: group.emails.filter(email => !removed.has(email.id)) }))
         .filter(group => group.emails.length > 0); // Filter out groups that are now empty
 
       return newData;
     });
   };
 
-  const sortedData = useMemo(() => {
-    if (!organizedData) return null;
-
-    const groupsWithSortedEmails = organizedData.map(group => ({
-      ...group,
-      emails: [...group.emails].sort((a, b) => {
-        const timeA = new Date(a.date).getTime();
-        const timeB = new Date(b.date).getTime();
-        
-        const validA = !isNaN(timeA);
-        const validB = !isNaN(timeB);
-
-        if (validA && validB) {
-            return sortOrder === 'newest' ? timeB - timeA : timeA - timeB;
-        }
-        // Place invalid dates at the end
-        if (validA) return -1; // a is valid, b is not, a comes first
-        if (validB) return 1;  // b is valid, a is not, b comes first
-        return 0; // both invalid
-      }),
-    }));
-    
-    return [...groupsWithSortedEmails].sort((a, b) => {
-      const firstEmailA = a.emails[0];
-      const firstEmailB = b.emails[0];
-
-      if (!firstEmailA && !firstEmailB) return 0;
-      if (!firstEmailA) return 1; // groups with no emails go to the end
-      if (!firstEmailB) return -1;
+  const handleDeleteEmail = (emailId: string) => handleRemoveEmails([emailId]);
 
-      const timeA = new Date(firstEmailA.date).getTime();
-      const timeB = new Date(firstEmailB.date).getTime();
+  // Merges are applied for display only, so the stored results keep every original sender.
+  const resolved = useMemo(() => (organizedData ? resolveContacts(organizedData, identity) : null), [organizedData, identity]);
 
-      const validA = !isNaN(timeA);
-      const validB = !isNaN(timeB);
-
-      if (validA && validB) {
-          return sortOrder === 'newest' ? timeB - timeA : timeA - timeB;
-      }
-      if (validA) return -1;
-      if (validB) return 1;
-      return 0;
-    });
-  }, [organizedData, sortOrder]);
+  const sortedData = useMemo(() => {
+    if (!resolved) return null;
+    return sortGroups(resolved.groups, sortOrder);
+  }, [resolved, sortOrder]);
 
   if (configError) {
     return (
@@ -258,10 +474,52 @@ const App: React.FC = () => {
                   disabled={isLoading}
                 />
               </div>
-              <div className="flex justify-center">
+              <div>
+                <p className="block text-lg font-semibold mb-3 text-gray-700 dark:text-gray-300">
+                  Or Import Email Files
+                </p>
+                <FileImporter
+                  importedFiles={importedFiles}
+                  isImporting={isImporting}
+                  disabled={isLoading}
+                  onImport={handleImport}
+                  onRemoveFile={handleRemoveImportedFile}
+                />
+              </div>
+              <GmailImporter
+                client={gmailClient}
+                userEmail={user.email}
+                disabled={isLoading}
+                onFetched={handleGmailFetched}
+                onBusyChange={setIsImporting}
+              />
+              <ProviderSettingsPanel
+                settings={providerSettings}
+                onChange={handleProviderSettingsChange}
+                disabled={isLoading}
+              />
+              <RedactionSettingsPanel
+                settings={redactionSettings}
+                onChange={handleRedactionSettingsChange}
+                disabled={isLoading}
+                isLocalProvider={isLocalProvider}
+              />
+              <RulesPanel
+                rules={rules}
+                onChange={handleRulesChange}
+                disabled={isLoading}
+              />
+              <HistoryPanel
+                userSub={user.sub}
+                enabled={archiveEnabled}
+                onToggleEnabled={handleToggleArchive}
+                refreshKey={historyVersion}
+                onOpenRun={handleOpenRun}
+              />
+              <div className="flex justify-center gap-3">
                 <button
                   onClick={handleOrganizeClick}
-                  disabled={isLoading || !rawEmails.trim()}
+                  disabled={isLoading || isImporting || !hasInput}
                   className="flex items-center justify-center px-8 py-3 bg-blue-600 text-white font-bold rounded-lg shadow-md hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-500 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-blue-300 dark:focus:ring-blue-800"
                 >
                   {isLoading ? (
@@ -279,22 +537,53 @@ const App: React.FC = () => {
                     </>
                   )}
                 </button>
+                {isLoading && (
+                  <button
+                    onClick={handleCancelClick}
+                    className="px-6 py-3 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-bold rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 focus:outline-none focus:ring-4 focus:ring-gray-300 dark:focus:ring-gray-600 transition-colors duration-200"
+                  >
+                    Cancel
+                  </button>
+                )}
               </div>
               <div className="pt-6 border-t border-gray-200 dark:border-gray-700">
                 <ResultsDisplay 
                   isLoading={isLoading}
+                  progress={progress}
                   error={error}
+                  notice={notice}
+                  validationIssues={validationIssues}
                   data={sortedData}
                   sortOrder={sortOrder}
                   setSortOrder={setSortOrder}
+                  groupMode={groupMode}
+                  setGroupMode={setGroupMode}
                   onDeleteEmail={handleDeleteEmail}
+                  onRemoveEmails={handleRemoveEmails}
+                  completedTaskKeys={completedTasks}
+                  onToggleTask={handleToggleTask}
+                  filter={filter}
+                  setFilter={setFilter}
+                  threadSummaries={threadSummaries}
+                  mailboxClient={gmailClient}
+                  userEmail={user.email}
+                  contacts={resolved?.contacts ?? []}
+                  identity={identity}
+                  onIdentityChange={handleIdentityChange}
+                  onHideSenders={handleHideSenders}
+                  provider={outgoingProvider}
+                  redactions={redactions}
+                  attachmentContents={attachmentContents}
+                  replyDrafts={replyDrafts}
+                  onSaveReplyDraft={handleSaveReplyDraft}
+                  onDiscardReplyDraft={handleDiscardReplyDraft}
                 />
               </div>
             </main>
           </>
         )}
         <footer className="text-center mt-8 text-sm text-gray-500 dark:text-gray-400">
-          <p>Powered by Google Gemini. Your data is not stored.</p>
+          <p>Powered by {provider.label}. {archiveEnabled ? 'Saved runs stay in this browser.' : 'Your data is not stored.'}</p>
         </footer>
       </div>
     </div>
@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import type { AliasSuggestion, Contact } from '../types';
+
+interface AliasSuggestionsProps {
+  suggestions: AliasSuggestion[];
+  onMerge: (suggestion: AliasSuggestion) => void;
+  onDismiss: (suggestion: AliasSuggestion) => void;
+}
+
+const COLLAPSED_COUNT = 3;
+
+const describe = (contact: Contact): string => (contact.name ? `${contact.name} <${contact.address}>` : contact.address);
+
+const AliasSuggestions: React.FC<AliasSuggestionsProps> = ({ suggestions, onMerge, onDismiss }) => {
+  const [showAll, setShowAll] = useState(false);
+  const shown = showAll ? suggestions : suggestions.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <div className="p-3 text-sm bg-blue-50 dark:bg-blue-900/20 rounded-lg">
+      <p className="font-semibold text-blue-900 dark:text-blue-100 mb-2">These senders may be the same person</p>
+      <ul className="space-y-2">
+        {shown.map(suggestion => (
+          <li key={suggestion.key} className="flex flex-wrap items-center gap-x-3 gap-y-1">
+            <span className="text-gray-700 dark:text-gray-300">
+              {describe(suggestion.contacts[0])} and {describe(suggestion.contacts[1])}
+              <span className="text-xs text-gray-500 dark:text-gray-400"> · {suggestion.reason}</span>
+            </span>
+            <span className="flex gap-3 ml-auto">
+              <button onClick={() => onMerge(suggestion)} className="font-semibold text-blue-600 dark:text-blue-400 hover:underline">Merge</button>
+              <button onClick={() => onDismiss(suggestion)} className="font-semibold text-gray-600 dark:text-gray-400 hover:underline">Not the same</button>
+            </span>
+          </li>
+        ))}
+      </ul>
+      {suggestions.length > COLLAPSED_COUNT && (
+        <button onClick={() => setShowAll(!showAll)} className="mt-2 text-xs font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+          {showAll ? 'Show fewer' : `Show all ${suggestions.length}`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AliasSuggestions;
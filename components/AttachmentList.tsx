@@ -0,0 +1,82 @@
+import React from 'react';
+import type { AttachmentContents, AttachmentInventoryEntry } from '../types';
+import { formatFileSize } from '../services/attachments';
+import { downloadFile } from '../services/exporters';
+import { DownloadIcon, PaperclipIcon } from './Icons';
+
+interface AttachmentListProps {
+  entries: AttachmentInventoryEntry[];
+  contents: AttachmentContents;
+  onShowEmail: (emailId: string) => void;
+}
+
+const formatDate = (date: string): string =>
+    date ? new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' }) : 'no date';
+
+const AttachmentRow: React.FC<{ entry: AttachmentInventoryEntry; content: Blob | undefined; onShowEmail: (emailId: string) => void }> = ({ entry, content, onShowEmail }) => {
+    const { attachment, fileNames, emails } = entry;
+    return (
+        <li className="flex flex-wrap items-start gap-x-4 gap-y-2 p-3">
+            <div className="flex-1 min-w-[12rem]">
+                <p className="text-sm font-semibold text-gray-800 dark:text-gray-200 break-all">{fileNames[0]}</p>
+                {fileNames.length > 1 && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 break-all">Also sent as {fileNames.slice(1).join(', ')}</p>
+                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {attachment.mimeType} · {formatFileSize(attachment.size)} · <span className="font-mono" title={`SHA-256 ${attachment.hash}`}>{attachment.hash.slice(0, 12)}</span>
+                </p>
+                {attachment.summary && <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">{attachment.summary}</p>}
+                <ul className="mt-1 space-y-0.5 text-xs">
+                    {emails.map(email => (
+                        <li key={email.id}>
+                            <button onClick={() => onShowEmail(email.id)} className="text-blue-600 dark:text-blue-400 hover:underline text-left">
+                                {email.senderName || email.senderEmail}: {email.subject || '(no subject)'}, {formatDate(email.date)}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+            <button
+                onClick={() => content && downloadFile(content, fileNames[0], attachment.mimeType)}
+                disabled={!content}
+                className="flex items-center space-x-1 text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline disabled:text-gray-400 disabled:no-underline disabled:cursor-not-allowed"
+                title={content ? undefined : 'Only files from emails organized in this session can be downloaded'}
+            >
+                <DownloadIcon className="w-4 h-4" />
+                <span>Download</span>
+            </button>
+        </li>
+    );
+};
+
+// Every distinct file across the results, with the emails it came with.
+const AttachmentList: React.FC<AttachmentListProps> = ({ entries, contents, onShowEmail }) => {
+  if (entries.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center text-center text-gray-500 dark:text-gray-400 p-10 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg">
+        <PaperclipIcon className="w-12 h-12 mb-4" />
+        <h3 className="text-xl font-semibold">No attachments found.</h3>
+        <p>Attachments are listed for imported or fetched emails, and for pasted emails that include their full source.</p>
+      </div>
+    );
+  }
+
+  const copies = entries.reduce((total, entry) => total + entry.emails.length, 0);
+  const totalSize = entries.reduce((total, entry) => total + entry.attachment.size, 0);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+      <p className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+        {entries.length} distinct file{entries.length === 1 ? '' : 's'} ({formatFileSize(totalSize)})
+        {copies > entries.length && `, attached ${copies} times`}. Identical files are listed once.
+      </p>
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {entries.map(entry => (
+          <AttachmentRow key={entry.attachment.hash} entry={entry} content={contents[entry.attachment.hash]} onShowEmail={onShowEmail} />
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default AttachmentList;
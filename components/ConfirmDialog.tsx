@@ -0,0 +1,51 @@
+import React, { useEffect, useRef } from 'react';
+
+interface ConfirmDialogProps {
+  title: string;
+  confirmLabel: string;
+  destructive: boolean; // Styles the confirm button as a warning, e.g. for moving mail to the trash
+  isBusy: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+  children: React.ReactNode;
+}
+
+const ConfirmDialog: React.FC<ConfirmDialogProps> = ({ title, confirmLabel, destructive, isBusy, onConfirm, onCancel, children }) => {
+  const confirmRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    confirmRef.current?.focus();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50" onMouseDown={(e) => e.target === e.currentTarget && onCancel()}>
+      <div className="w-full max-w-md p-6 bg-white dark:bg-gray-800 rounded-lg shadow-xl" role="dialog" aria-modal="true" aria-labelledby="confirm-dialog-title">
+        <h3 id="confirm-dialog-title" className="text-lg font-bold text-gray-800 dark:text-gray-100">{title}</h3>
+        <div className="mt-3 text-sm text-gray-600 dark:text-gray-300">{children}</div>
+        <div className="mt-6 flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-semibold rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            ref={confirmRef}
+            onClick={onConfirm}
+            disabled={isBusy}
+            className={`px-4 py-2 text-sm text-white font-semibold rounded-lg disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors duration-200 ${destructive ? 'bg-red-600 hover:bg-red-700 focus:ring-red-500' : 'bg-blue-600 hover:bg-blue-700 focus:ring-blue-500'}`}
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConfirmDialog;
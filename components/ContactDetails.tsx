@@ -0,0 +1,62 @@
+import React from 'react';
+import type { Contact } from '../types';
+
+interface ContactDetailsProps {
+  contact: Contact;
+  contacts: Contact[]; // Everyone the contact could be merged with, including itself
+  onMerge: (other: Contact) => void;
+  onSplit: (address: string) => void;
+  onUndoMerge: (mergeId: string) => void;
+}
+
+const contactLabel = (contact: Contact): string => (contact.name ? `${contact.name} <${contact.address}>` : contact.address);
+
+const ContactDetails: React.FC<ContactDetailsProps> = ({ contact, contacts, onMerge, onSplit, onUndoMerge }) => {
+  const others = contacts
+    .filter(other => other.address !== contact.address && other.address)
+    .sort((a, b) => contactLabel(a).localeCompare(contactLabel(b)));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+      {contact.addresses.length > 1 && (
+        <>
+          <span className="font-medium">Addresses:</span>
+          {contact.addresses.map(address => (
+            <span key={address} className="inline-flex items-center space-x-1 pl-2 pr-1 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700">
+              <span>{address}</span>
+              <button
+                onClick={() => onSplit(address)}
+                className="px-1 rounded-full hover:bg-gray-300 dark:hover:bg-gray-600"
+                aria-label={`Split ${address} into its own sender`}
+                title="Split into its own sender"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </>
+      )}
+      {contact.mergeId && (
+        <button onClick={() => onUndoMerge(contact.mergeId!)} className="font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+          Undo merge
+        </button>
+      )}
+      {others.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => {
+            const other = others.find(candidate => candidate.address === e.target.value);
+            if (other) onMerge(other);
+          }}
+          className="ml-auto px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700"
+          aria-label="Merge with another sender"
+        >
+          <option value="">Merge with…</option>
+          {others.map(other => <option key={other.address} value={other.address}>{contactLabel(other)}</option>)}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default ContactDetails;
@@ -0,0 +1,142 @@
+import React, { useMemo } from 'react';
+import type { CountEntry, OrganizedEmailGroup } from '../types';
+import { analyzeInbox } from '../services/analytics';
+
+interface DashboardProps {
+  groups: OrganizedEmailGroup[]; // The filtered results, so the charts follow the search filters and deletions
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const percent = (part: number, total: number): string => (total > 0 ? `${Math.round((part / total) * 100)}%` : '0%');
+
+const Panel: React.FC<{ title: string; className?: string; children: React.ReactNode }> = ({ title, className = '', children }) => (
+    <section className={`p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg ${className}`}>
+        <h3 className="mb-3 text-sm font-semibold text-gray-700 dark:text-gray-200">{title}</h3>
+        {children}
+    </section>
+);
+
+const StatCard: React.FC<{ label: string; value: string; detail?: string }> = ({ label, value, detail }) => (
+    <div className="p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+        <p className="text-xs font-medium text-gray-500 dark:text-gray-400">{label}</p>
+        <p className="mt-1 text-2xl font-bold text-gray-800 dark:text-gray-100">{value}</p>
+        {detail && <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{detail}</p>}
+    </div>
+);
+
+// Horizontal bars, scaled to the largest entry.
+const BarList: React.FC<{ entries: CountEntry[] }> = ({ entries }) => {
+    const max = Math.max(1, ...entries.map(entry => entry.count));
+    return (
+        <ol className="space-y-1.5">
+            {entries.map(entry => (
+                <li key={entry.label} className="text-xs">
+                    <div className="flex justify-between gap-2 text-gray-700 dark:text-gray-300">
+                        <span className="truncate" title={entry.label}>{entry.label}</span>
+                        <span className="font-semibold">{entry.count}</span>
+                    </div>
+                    <div className="h-1.5 mt-0.5 rounded-full bg-gray-100 dark:bg-gray-700">
+                        <div className="h-full rounded-full bg-blue-500" style={{ width: `${(entry.count / max) * 100}%` }} />
+                    </div>
+                </li>
+            ))}
+        </ol>
+    );
+};
+
+// Vertical bars per period; labels are thinned out so they don't overlap.
+const VolumeChart: React.FC<{ entries: CountEntry[] }> = ({ entries }) => {
+    const max = Math.max(1, ...entries.map(entry => entry.count));
+    const labelEvery = Math.ceil(entries.length / 8);
+    return (
+        <div>
+            <div className="flex items-end gap-px h-32" role="img" aria-label={`Emails per period, from ${entries[0]?.label} to ${entries[entries.length - 1]?.label}`}>
+                {entries.map((entry, index) => (
+                    <div
+                        key={index}
+                        className="flex-1 min-w-[2px] rounded-t-sm bg-blue-500 hover:bg-blue-600"
+                        style={{ height: `${(entry.count / max) * 100}%` }}
+                        title={`${entry.label}: ${entry.count}`}
+                    />
+                ))}
+            </div>
+            <div className="flex gap-px mt-1 text-[10px] text-gray-500 dark:text-gray-400">
+                {entries.map((entry, index) => (
+                    <span key={index} className="flex-1 min-w-[2px] overflow-visible whitespace-nowrap">{index % labelEvery === 0 ? entry.label : ''}</span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const Heatmap: React.FC<{ cells: number[][] }> = ({ cells }) => {
+    const max = Math.max(1, ...cells.flat());
+    return (
+        <div className="overflow-x-auto">
+            <table className="text-[10px] text-gray-500 dark:text-gray-400 border-separate" style={{ borderSpacing: 2 }}>
+                <thead>
+                    <tr>
+                        <th />
+                        {cells[0].map((_, hour) => (
+                            <th key={hour} scope="col" className="font-normal w-4">{hour % 3 === 0 ? hour : ''}</th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody>
+                    {cells.map((row, day) => (
+                        <tr key={day}>
+                            <th scope="row" className="pr-1 font-normal text-right">{WEEKDAYS[day]}</th>
+                            {row.map((count, hour) => (
+                                <td
+                                    key={hour}
+                                    className="w-4 h-4 rounded-sm bg-gray-100 dark:bg-gray-700"
+                                    style={count > 0 ? { backgroundColor: `rgba(37, 99, 235, ${0.15 + 0.85 * (count / max)})` } : undefined}
+                                    title={`${WEEKDAYS[day]} ${hour}:00–${hour + 1}:00: ${count} email${count === 1 ? '' : 's'}`}
+                                />
+                            ))}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const Dashboard: React.FC<DashboardProps> = ({ groups }) => {
+  const stats = useMemo(() => analyzeInbox(groups), [groups]);
+  const bulk = stats.bulkMail.newsletters + stats.bulkMail.notifications;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard label="Emails" value={String(stats.totalEmails)} detail={stats.undatedEmails > 0 ? `${stats.undatedEmails} without a date` : undefined} />
+        <StatCard label="Senders" value={String(groups.length)} />
+        <StatCard
+          label="Newsletters & automated"
+          value={percent(bulk, stats.totalEmails)}
+          detail={`${stats.bulkMail.newsletters} newsletters, ${stats.bulkMail.notifications} notifications`}
+        />
+        <StatCard
+          label="Average conversation"
+          value={stats.threads.count > 0 ? `${stats.threads.averageLength.toFixed(1)} emails` : '–'}
+          detail={stats.threads.count > 0 ? `${stats.threads.count} with replies, longest ${stats.threads.longest}` : 'No conversations with replies'}
+        />
+      </div>
+      <Panel title={`Volume per ${stats.volume.bucket}`}>
+        {stats.volume.entries.length > 0
+          ? <VolumeChart entries={stats.volume.entries} />
+          : <p className="text-sm text-gray-500 dark:text-gray-400">None of these emails has a date.</p>}
+      </Panel>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Panel title="Top senders"><BarList entries={stats.topSenders} /></Panel>
+        <Panel title="Top domains"><BarList entries={stats.topDomains} /></Panel>
+      </div>
+      <Panel title="When mail arrives (local time)">
+        <Heatmap cells={stats.heatmap} />
+      </Panel>
+    </div>
+  );
+};
+
+export default Dashboard;
@@ -0,0 +1,152 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { Digest, DigestPoint, DigestScope, EmailOrganizerProvider, EmailWithSender, OrganizedEmailGroup } from '../types';
+import { citedEmails, DIGEST_SCOPES, digestToHtml, digestToMarkdown, generateDigest } from '../services/digest';
+import { withSender } from '../services/emailGrouping';
+import { formatDueDate } from '../services/dueDates';
+import { downloadFile } from '../services/exporters';
+import { AlertIcon, CalendarIcon, DownloadIcon, SparklesIcon } from './Icons';
+
+interface DigestPanelProps {
+  groups: OrganizedEmailGroup[];
+  provider: EmailOrganizerProvider;
+  digest: Digest | null; // Kept by the parent so it survives switching tabs
+  onDigestChange: (digest: Digest) => void;
+  onShowEmail: (emailId: string) => void;
+}
+
+const secondaryButtonClassName = "flex items-center space-x-1 px-3 py-1.5 text-sm bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 font-semibold rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200";
+
+const DUE_DATE_FORMAT: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' };
+
+// Links to the emails a point is based on, numbered as in the exports; emails deleted since are left out.
+const Citations: React.FC<{ point: DigestPoint; sources: EmailWithSender[]; onShowEmail: (emailId: string) => void }> = ({ point, sources, onShowEmail }) => {
+    const cited = sources.filter(email => point.sourceIds.includes(email.id));
+    return (
+        <>
+            {cited.map(email => (
+                <button
+                    key={email.id}
+                    onClick={() => onShowEmail(email.id)}
+                    title={`${email.senderName || email.senderEmail}: ${email.subject || '(no subject)'}`}
+                    className="ml-1 text-xs font-semibold text-blue-600 dark:text-blue-400 hover:underline align-super"
+                >
+                    [{sources.indexOf(email) + 1}]
+                </button>
+            ))}
+        </>
+    );
+};
+
+const Section: React.FC<{ title: string; points: (DigestPoint & { dueDate?: string })[]; sources: EmailWithSender[]; onShowEmail: (emailId: string) => void }> = ({ title, points, sources, onShowEmail }) => {
+    if (points.length === 0) return null;
+    return (
+        <section>
+            <h3 className="text-sm font-bold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2">{title}</h3>
+            <ul className="space-y-2">
+                {points.map((point, index) => (
+                    <li key={index} className="text-sm text-gray-800 dark:text-gray-200">
+                        {point.dueDate && (
+                            <span className="inline-flex items-center space-x-1 mr-2 font-semibold">
+                                <CalendarIcon className="w-3.5 h-3.5" />
+                                <span>{formatDueDate(point.dueDate, DUE_DATE_FORMAT)}:</span>
+                            </span>
+                        )}
+                        {point.text}
+                        <Citations point={point} sources={sources} onShowEmail={onShowEmail} />
+                    </li>
+                ))}
+            </ul>
+        </section>
+    );
+};
+
+const DigestPanel: React.FC<DigestPanelProps> = ({ groups, provider, digest, onDigestChange, onShowEmail }) => {
+  const [scope, setScope] = useState<DigestScope>(digest?.scope ?? 'all');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const emailsById = useMemo(() => new Map(groups.flatMap(withSender).map(email => [email.id, email])), [groups]);
+
+  // Leaving the tab while the digest is being written cancels the request.
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const handleGenerate = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      onDigestChange(await generateDigest(provider, groups, scope, controller.signal));
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : "Failed to write the digest. Please try again.");
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setIsGenerating(false);
+    }
+  };
+
+  const sources = useMemo(() => (digest ? citedEmails(digest, emailsById) : []), [digest, emailsById]);
+  const fileName = digest ? `email-digest-${digest.generatedAt.slice(0, 10)}` : '';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="digest-scope" className="text-sm font-semibold text-gray-700 dark:text-gray-300">Period</label>
+        <select
+          id="digest-scope"
+          value={scope}
+          onChange={(e) => setScope(e.target.value as DigestScope)}
+          className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          {DIGEST_SCOPES.map(option => <option key={option.scope} value={option.scope}>{option.label}</option>)}
+        </select>
+        <button
+          onClick={handleGenerate}
+          disabled={isGenerating}
+          className="flex items-center space-x-2 px-4 py-1.5 text-sm bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+        >
+          <SparklesIcon className="w-4 h-4" />
+          <span>{isGenerating ? 'Writing...' : digest ? 'Write again' : 'Write digest'}</span>
+        </button>
+        {digest && (
+          <div className="flex items-center gap-2 ml-auto">
+            <button onClick={() => downloadFile(digestToMarkdown(digest, emailsById), `${fileName}.md`, 'text/markdown;charset=utf-8')} className={secondaryButtonClassName}>
+              <DownloadIcon className="w-4 h-4" />
+              <span>Markdown</span>
+            </button>
+            <button onClick={() => downloadFile(digestToHtml(digest, emailsById), `${fileName}.html`, 'text/html;charset=utf-8')} className={secondaryButtonClassName}>
+              <DownloadIcon className="w-4 h-4" />
+              <span>HTML email</span>
+            </button>
+          </div>
+        )}
+      </div>
+      {error && (
+        <p className="flex items-center space-x-2 text-sm text-red-600 dark:text-red-400" role="alert">
+          <AlertIcon className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+        </p>
+      )}
+      {digest ? (
+        <div className="p-4 space-y-5 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {DIGEST_SCOPES.find(option => option.scope === digest.scope)?.label} · {digest.emailCount} email{digest.emailCount === 1 ? '' : 's'} · written {new Date(digest.generatedAt).toLocaleString()}
+          </p>
+          {digest.overview && <p className="text-sm text-gray-800 dark:text-gray-200">{digest.overview}</p>}
+          <Section title="Key conversations" points={digest.keyThreads} sources={sources} onShowEmail={onShowEmail} />
+          <Section title="Decisions" points={digest.decisions} sources={sources} onShowEmail={onShowEmail} />
+          <Section title="Open questions" points={digest.openQuestions} sources={sources} onShowEmail={onShowEmail} />
+          <Section title="Deadlines" points={digest.deadlines} sources={sources} onShowEmail={onShowEmail} />
+        </div>
+      ) : !isGenerating && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          A digest sums up the organized emails in one page: the main conversations, decisions, open questions and deadlines, each linked to the emails it comes from.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DigestPanel;
@@ -1,20 +1,74 @@
 
-import React, { useState, useCallback } from 'react';
-import type { OrganizedEmailGroup, Email } from '../types';
-import { ChevronDownIcon, ClipboardIcon, CheckIcon, CalendarIcon, TrashIcon } from './Icons';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import type { EmailCategory, EmailGroupView, EmailWithSender, ReplyTarget, RiskLevel } from '../types';
+import { CATEGORY_LABELS, MAIL_KIND_LABELS, PRIORITY_LABELS } from '../services/categories';
+import { RISK_LABELS } from '../services/phishing';
+import { formatFileSize } from '../services/attachments';
+import { formatDueDate } from '../services/dueDates';
+import { languageName } from '../services/language';
+import { replyTargetForEmail, replyTargetForSender } from '../services/replyDrafts';
+import { groupItemKey } from '../services/triage';
+import { AlertIcon, ChevronDownIcon, ClipboardIcon, CheckIcon, CalendarIcon, TrashIcon, ReplyIcon, PaperclipIcon } from './Icons';
+import Highlight from './Highlight';
 
 interface EmailGroupProps {
-  group: OrganizedEmailGroup;
-  onDeleteEmail: (senderEmail: string, emailIndex: number) => void;
+  view: EmailGroupView;
+  onDeleteEmail: (emailId: string) => void;
+  focusedEmailId: string | null; // An email to reveal and highlight, e.g. when following a link from the Tasks view
+  searchTerms: string[]; // Marked wherever they match in the cards
+  selectedIds: Set<string> | null; // null when there's nothing to select, i.e. no email came from Gmail
+  onSelectEmails: (emailIds: string[], selected: boolean) => void;
+  onDraftReply: (target: ReplyTarget) => void;
+  draftKeys: Set<string>; // Reply targets with a saved draft
+  isOpen: boolean;
+  onToggle: () => void;
+  cursor: string | null; // The keyboard triage cursor, a TriageItem key; null outside triage mode
+  onCursorChange: (key: string) => void; // When a card gets focus in triage mode
+  children?: React.ReactNode; // Shown above the cards when the group is open, e.g. ContactDetails
 }
 
+const CATEGORY_STYLES: Record<EmailCategory, string> = {
+    'action-required': 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200',
+    meeting: 'bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-200',
+    invoice: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200',
+    personal: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-200',
+    newsletter: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-200',
+    notification: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200',
+    other: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200',
+};
+
+const RISK_STYLES: Record<Exclude<RiskLevel, 'low'>, string> = {
+    high: 'bg-red-600 text-white dark:bg-red-700',
+    medium: 'bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-200',
+};
+
+const PriorityIndicator: React.FC<{ priority: number; reason: string }> = ({ priority, reason }) => (
+    <span
+        className={`inline-flex items-center space-x-1 text-xs font-medium ${priority >= 4 ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}
+        title={reason || undefined}
+    >
+        <span aria-hidden="true" className="tracking-tighter">{'●'.repeat(priority)}{'○'.repeat(5 - priority)}</span>
+        <span>{PRIORITY_LABELS[priority]}</span>
+    </span>
+);
+
 const CopyButton: React.FC<{ textToCopy: string }> = ({ textToCopy }) => {
-    const [copied, setCopied] = useState(false);
+    const [copyState, setCopyState] = useState<'idle' | 'copied' | 'failed'>('idle');
+    const resetTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
+    // Cards are often removed while "Copied" is still showing, e.g. by deleting in triage mode.
+    useEffect(() => () => {
+        if (resetTimerRef.current) clearTimeout(resetTimerRef.current);
+    }, []);
+
+    // The clipboard can be unavailable, e.g. when the page isn't focused or access was denied.
     const handleCopy = useCallback(() => {
-        navigator.clipboard.writeText(textToCopy).then(() => {
-            setCopied(true);
-            setTimeout(() => setCopied(false), 2000);
+        navigator.clipboard.writeText(textToCopy).then(
+            () => setCopyState('copied'),
+            () => setCopyState('failed'),
+        ).finally(() => {
+            if (resetTimerRef.current) clearTimeout(resetTimerRef.current);
+            resetTimerRef.current = setTimeout(() => setCopyState('idle'), 2000);
         });
     }, [textToCopy]);
 
@@ -22,10 +76,13 @@ const CopyButton: React.FC<{ textToCopy: string }> = ({ textToCopy }) => {
         <button
             onClick={handleCopy}
             className="p-1.5 rounded-md text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 dark:focus:ring-offset-gray-800 transition-colors"
-            aria-label="Copy email summary"
+            aria-label={copyState === 'failed' ? "Couldn't copy the summary to the clipboard" : 'Copy email summary'}
+            title={copyState === 'failed' ? "Couldn't copy the summary to the clipboard" : undefined}
         >
-            {copied ? (
+            {copyState === 'copied' ? (
                 <CheckIcon className="w-5 h-5 text-green-500" />
+            ) : copyState === 'failed' ? (
+                <AlertIcon className="w-5 h-5 text-red-500" />
             ) : (
                 <ClipboardIcon className="w-5 h-5" />
             )}
@@ -33,62 +90,292 @@ const CopyButton: React.FC<{ textToCopy: string }> = ({ textToCopy }) => {
     );
 };
 
-const EmailCard: React.FC<{ email: Email, onDelete: () => void }> = ({ email, onDelete }) => (
-    <div className="p-4 bg-gray-50 dark:bg-gray-900/50 rounded-lg relative group">
-        <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity flex items-center space-x-1">
-            <CopyButton textToCopy={`Subject: ${email.subject}\n\n${email.summary}`} />
-            <button
-                onClick={onDelete}
-                className="p-1.5 rounded-md text-gray-500 dark:text-gray-400 hover:bg-red-100 dark:hover:bg-red-900/40 hover:text-red-600 dark:hover:text-red-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 dark:focus:ring-offset-gray-800 transition-colors"
-                aria-label="Delete email"
-            >
-                <TrashIcon className="w-5 h-5" />
-            </button>
-        </div>
-        <h4 className="font-semibold text-gray-800 dark:text-gray-200 pr-20">{email.subject}</h4>
-        <div className="flex items-center space-x-2 text-xs text-gray-500 dark:text-gray-400 mt-1 mb-2">
-            <CalendarIcon className="w-3.5 h-3.5" />
-            <span>{email.date || 'No date found'}</span>
-        </div>
-        <p className="text-gray-600 dark:text-gray-300 text-sm leading-relaxed">{email.summary}</p>
+// Only emails fetched from Gmail can be selected, since actions apply to the mailbox.
+const isSelectable = (email: EmailWithSender): boolean => !!email.remoteId;
+
+const SelectCheckbox: React.FC<{ checked: boolean; indeterminate?: boolean; disabled?: boolean; label: string; onChange: (checked: boolean) => void; className?: string }> = ({ checked, indeterminate = false, disabled = false, label, onChange, className = '' }) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (inputRef.current) {
+            inputRef.current.indeterminate = indeterminate;
+        }
+    }, [indeterminate]);
+
+    return (
+        <input
+            ref={inputRef}
+            type="checkbox"
+            checked={checked}
+            disabled={disabled}
+            onChange={(e) => onChange(e.target.checked)}
+            className={`w-4 h-4 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 disabled:opacity-40 ${className}`}
+            aria-label={label}
+            title={disabled ? 'Only emails fetched from Gmail can be selected' : undefined}
+        />
+    );
+};
+
+const ActionItemList: React.FC<{ email: EmailWithSender }> = ({ email }) => (
+    <ul className="mt-2 space-y-1 text-sm text-gray-600 dark:text-gray-300">
+        {email.actionItems.map((item, index) => (
+            <li key={index} className="flex items-start space-x-2">
+                <CheckIcon className="w-4 h-4 mt-0.5 flex-shrink-0 text-blue-500" />
+                <span>
+                    {item.description}
+                    {(item.owner || item.dueDate) && (
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                            {' '}({[item.owner, item.dueDate && `due ${formatDueDate(item.dueDate)}`].filter(Boolean).join(', ')})
+                        </span>
+                    )}
+                </span>
+            </li>
+        ))}
+    </ul>
+);
+
+const AttachmentChips: React.FC<{ email: EmailWithSender; searchTerms: string[] }> = ({ email, searchTerms }) => (
+    <ul className="mt-2 flex flex-wrap gap-2 text-xs">
+        {email.attachments.map((attachment, index) => (
+            <li key={index} className="flex items-center space-x-1 px-2 py-0.5 rounded-md border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300" title={attachment.summary || attachment.mimeType}>
+                <PaperclipIcon className="w-3.5 h-3.5 flex-shrink-0" />
+                <span className="break-all"><Highlight text={attachment.fileName} terms={searchTerms} /></span>
+                <span className="text-gray-400 dark:text-gray-500 whitespace-nowrap">{formatFileSize(attachment.size)}</span>
+            </li>
+        ))}
+    </ul>
+);
+
+// In the reader's locale and time zone; dates that don't parse are shown as they came.
+const formatDate = (date: string): string => {
+    const parsed = new Date(date);
+    return isNaN(parsed.getTime()) ? date : parsed.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+const RiskReasons: React.FC<{ email: EmailWithSender }> = ({ email }) => (
+    <div className={`mt-2 p-2 rounded-md text-xs ${email.risk.level === 'high' ? 'bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-200' : 'bg-amber-50 text-amber-800 dark:bg-amber-900/30 dark:text-amber-200'}`}>
+        <p className="font-semibold">Why this email was flagged (risk score {email.risk.score} of 100):</p>
+        <ul className="list-disc pl-5 mt-1 space-y-0.5">
+            {email.risk.reasons.map((reason, index) => <li key={index}>{reason}</li>)}
+        </ul>
+        <p className="mt-1 italic">Don't follow its links or send money or passwords until you've checked with the sender another way.</p>
     </div>
 );
 
-const EmailGroup: React.FC<EmailGroupProps> = ({ group, onDeleteEmail }) => {
-  const [isOpen, setIsOpen] = useState(true);
-  
-  const emailCount = group.emails.length;
+const EmailCard: React.FC<{ email: EmailWithSender, showSender: boolean, isFocused: boolean, searchTerms: string[], onDelete: () => void, isSelected: boolean | null, onSelect: (selected: boolean) => void, hasDraft: boolean, onDraftReply: () => void, isCursor: boolean | null, onCursor: () => void }> = ({ email, showSender, isFocused, searchTerms, onDelete, isSelected, onSelect, hasDraft, onDraftReply, isCursor, onCursor }) => {
+    const cardRef = useRef<HTMLLIElement>(null);
+    const cellRef = useRef<HTMLDivElement>(null);
+    const [showRiskReasons, setShowRiskReasons] = useState(false);
+    const [showOriginal, setShowOriginal] = useState(false);
 
-  return (
-    <div className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden bg-white dark:bg-gray-800 shadow-sm">
-      <button
-        onClick={() => setIsOpen(!isOpen)}
-        className="w-full flex items-center justify-between p-4 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500"
-      >
-        <div className="flex items-center space-x-3">
-            <div className="flex-shrink-0 bg-gray-200 dark:bg-gray-600 rounded-full w-10 h-10 flex items-center justify-center font-bold text-gray-600 dark:text-gray-300">
-                {group.senderName ? group.senderName.charAt(0).toUpperCase() : '?'}
+    useEffect(() => {
+        if (isFocused) {
+            cardRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        }
+    }, [isFocused]);
+
+    useEffect(() => {
+        // Focus inside the card, e.g. on one of its buttons, is left where it is.
+        if (isCursor && !cardRef.current?.contains(document.activeElement)) {
+            cellRef.current?.focus({ preventScroll: true });
+            cardRef.current?.scrollIntoView({ block: 'nearest' });
+        }
+    }, [isCursor]);
+
+    // In triage mode each card is a row of the grid of emails, with one cell that takes the cursor.
+    const inTriage = isCursor !== null;
+    return (
+    <li
+        ref={cardRef}
+        role={inTriage ? 'row' : undefined}
+        aria-selected={inTriage && isSelected !== null ? isSelected : undefined}
+        aria-labelledby={`email-${email.id}-subject`}
+        onFocus={inTriage ? onCursor : undefined}
+        className={`p-4 rounded-lg relative group transition-shadow duration-300 ${isSelected ? 'bg-blue-50 dark:bg-blue-900/20' : 'bg-gray-50 dark:bg-gray-900/50'} ${isSelected !== null ? 'pl-11' : ''} ${isFocused || isCursor ? 'ring-2 ring-blue-500' : ''}`}
+    >
+        <div
+            ref={cellRef}
+            role={inTriage ? 'gridcell' : undefined}
+            tabIndex={inTriage ? (isCursor ? 0 : -1) : undefined}
+            className="focus:outline-none"
+        >
+            {isSelected !== null && (
+                <SelectCheckbox
+                    checked={isSelected}
+                    disabled={!isSelectable(email)}
+                    label={`Select "${email.subject || '(no subject)'}"`}
+                    onChange={onSelect}
+                    className="absolute top-5 left-4"
+                />
+            )}
+            {/* Hidden until hovered, or until the card or one of these buttons has keyboard focus. */}
+            <div className={`absolute top-2 right-2 ${isCursor ? 'opacity-100' : 'opacity-0'} group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity flex items-center space-x-1`}>
+                <button
+                    onClick={onDraftReply}
+                    className="p-1.5 rounded-md text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 dark:focus:ring-offset-gray-800 transition-colors"
+                    aria-label="Draft reply"
+                >
+                    <ReplyIcon className="w-5 h-5" />
+                </button>
+                <CopyButton textToCopy={`Subject: ${email.subject}\n\n${email.summary}`} />
+                <button
+                    onClick={onDelete}
+                    className="p-1.5 rounded-md text-gray-500 dark:text-gray-400 hover:bg-red-100 dark:hover:bg-red-900/40 hover:text-red-600 dark:hover:text-red-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 dark:focus:ring-offset-gray-800 transition-colors"
+                    aria-label="Delete email"
+                >
+                    <TrashIcon className="w-5 h-5" />
+                </button>
             </div>
-            <div>
-                <p className="font-bold text-lg text-gray-800 dark:text-gray-100">{group.senderName}</p>
-                <p className="text-sm text-gray-500 dark:text-gray-400">{group.senderEmail}</p>
+            <h4 id={`email-${email.id}-subject`} className="font-semibold text-gray-800 dark:text-gray-200 pr-20"><Highlight text={email.subject} terms={searchTerms} /></h4>
+            {showSender && (
+                <p className="text-xs text-gray-500 dark:text-gray-400"><Highlight text={email.senderName ? `${email.senderName} <${email.senderEmail}>` : email.senderEmail} terms={searchTerms} /></p>
+            )}
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500 dark:text-gray-400 mt-1 mb-2">
+                <span className="flex items-center space-x-2">
+                    <CalendarIcon className="w-3.5 h-3.5" />
+                    {email.date ? <time dateTime={email.date} title={email.date}>{formatDate(email.date)}</time> : <span>No date found</span>}
+                </span>
+                <span className={`px-2 py-0.5 rounded-full font-medium ${CATEGORY_STYLES[email.category]}`}>{CATEGORY_LABELS[email.category]}</span>
+                {email.risk.level !== 'low' && (
+                    <button
+                        onClick={() => setShowRiskReasons(!showRiskReasons)}
+                        className={`flex items-center space-x-1 px-2 py-0.5 rounded-full font-semibold focus:outline-none focus:ring-2 focus:ring-blue-500 ${RISK_STYLES[email.risk.level]}`}
+                        aria-expanded={showRiskReasons}
+                        title="Show why this email was flagged"
+                    >
+                        <AlertIcon className="w-3.5 h-3.5" />
+                        <span>{RISK_LABELS[email.risk.level]}</span>
+                    </button>
+                )}
+                <PriorityIndicator priority={email.priority} reason={email.priorityReason} />
+                {email.kind !== 'human' && <span className="px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">{MAIL_KIND_LABELS[email.kind]}</span>}
+                {email.tags.map(tag => (
+                    <span key={tag} className="px-2 py-0.5 rounded-full border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300">#{tag}</span>
+                ))}
+                {hasDraft && (
+                    <button onClick={onDraftReply} className="flex items-center space-x-1 font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+                        <ReplyIcon className="w-3.5 h-3.5" />
+                        <span>Reply draft</span>
+                    </button>
+                )}
             </div>
+            <p className="text-gray-600 dark:text-gray-300 text-sm leading-relaxed" lang={showOriginal ? email.language : undefined}>
+                <Highlight text={showOriginal ? email.originalSummary : email.summary} terms={searchTerms} />
+            </p>
+            {email.originalSummary && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {showOriginal ? `Original summary in ${languageName(email.language)}` : `Translated from ${languageName(email.language)}`}
+                    {' · '}
+                    <button onClick={() => setShowOriginal(!showOriginal)} className="font-semibold text-blue-600 dark:text-blue-400 hover:underline" aria-pressed={showOriginal}>
+                        {showOriginal ? 'Show translation' : 'Show original'}
+                    </button>
+                </p>
+            )}
+            {showRiskReasons && email.risk.level !== 'low' && <RiskReasons email={email} />}
+            {email.priorityReason && (
+                <p className="text-xs italic text-gray-500 dark:text-gray-400 mt-2">Priority: {email.priorityReason}</p>
+            )}
+            {email.actionItems.length > 0 && <ActionItemList email={email} />}
+            {email.attachments.length > 0 && <AttachmentChips email={email} searchTerms={searchTerms} />}
         </div>
-        <div className="flex items-center space-x-3">
-            <span className="text-sm font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 px-2.5 py-1 rounded-full">
-                {emailCount} email{emailCount > 1 ? 's' : ''}
-            </span>
-            <ChevronDownIcon className={`w-6 h-6 text-gray-500 dark:text-gray-400 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />
-        </div>
-      </button>
+    </li>
+    );
+};
+
+const EmailGroup: React.FC<EmailGroupProps> = ({ view, onDeleteEmail, focusedEmailId, searchTerms, selectedIds, onSelectEmails, onDraftReply, draftKeys, isOpen, onToggle, cursor, onCursorChange, children }) => {
+  const headerRef = useRef<HTMLButtonElement>(null);
+  const isGroupCursor = cursor === groupItemKey(view.key);
+
+  useEffect(() => {
+    if (isGroupCursor) {
+      headerRef.current?.focus();
+    }
+  }, [isGroupCursor]);
+
+  const bodyId = `email-group-${view.key}`;
+  const titleId = `${bodyId}-title`;
+  const emailCount = view.emails.length;
+  const selectableIds = view.emails.filter(isSelectable).map(email => email.id);
+  const selectedCount = selectedIds ? selectableIds.filter(id => selectedIds.has(id)).length : 0;
+  // Views without a sender line hold one sender's emails, which can be answered together.
+  const senderReply = !view.showSender && emailCount > 1 ? replyTargetForSender(view.emails) : null;
+
+  return (
+    <section className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden bg-white dark:bg-gray-800 shadow-sm" aria-labelledby={titleId}>
+      <div className="flex items-center">
+        {selectedIds && (
+          <SelectCheckbox
+            checked={selectableIds.length > 0 && selectedCount === selectableIds.length}
+            indeterminate={selectedCount > 0 && selectedCount < selectableIds.length}
+            disabled={selectableIds.length === 0}
+            label={`Select all emails in ${view.title}`}
+            onChange={(selected) => onSelectEmails(selectableIds, selected)}
+            className="ml-4 flex-shrink-0"
+          />
+        )}
+        <button
+          ref={headerRef}
+          onClick={onToggle}
+          className={`flex-1 min-w-0 flex items-center justify-between p-4 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500 ${isGroupCursor ? 'ring-2 ring-inset ring-blue-500' : ''}`}
+          aria-expanded={isOpen}
+          aria-controls={bodyId}
+        >
+          <div className="flex items-center space-x-3">
+              <div className="flex-shrink-0 bg-gray-200 dark:bg-gray-600 rounded-full w-10 h-10 flex items-center justify-center font-bold text-gray-600 dark:text-gray-300">
+                  {view.title ? view.title.charAt(0).toUpperCase() : '?'}
+              </div>
+              <div>
+                  <p id={titleId} className="font-bold text-lg text-gray-800 dark:text-gray-100"><Highlight text={view.title} terms={view.showSender ? [] : searchTerms} /></p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400"><Highlight text={view.subtitle} terms={view.showSender ? [] : searchTerms} /></p>
+              </div>
+          </div>
+          <div className="flex items-center space-x-3">
+              <span className="text-sm font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 px-2.5 py-1 rounded-full">
+                  {emailCount} email{emailCount > 1 ? 's' : ''}
+              </span>
+              <ChevronDownIcon className={`w-6 h-6 text-gray-500 dark:text-gray-400 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />
+          </div>
+        </button>
+        {senderReply && (
+          <button
+            onClick={() => onDraftReply(senderReply)}
+            className="flex-shrink-0 flex items-center space-x-1 mr-4 px-2 py-1 text-sm font-semibold text-blue-600 dark:text-blue-400 rounded-md hover:bg-blue-50 dark:hover:bg-blue-900/30"
+            title={`Draft one reply to all ${emailCount} emails`}
+          >
+            <ReplyIcon className="w-4 h-4" />
+            <span>{draftKeys.has(senderReply.key) ? 'Reply draft' : 'Reply to all'}</span>
+          </button>
+        )}
+      </div>
       {isOpen && (
-        <div className="p-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
-            {group.emails.map((email, index) => (
-                <EmailCard key={index} email={email} onDelete={() => onDeleteEmail(group.senderEmail, index)} />
+        <div id={bodyId} className="p-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+            {children}
+            <ul
+                className="space-y-3"
+                aria-label={`Emails in ${view.title}`}
+                role={cursor === null ? undefined : 'grid'}
+                aria-multiselectable={cursor !== null && selectedIds ? true : undefined}
+            >
+            {view.emails.map(email => (
+                <EmailCard
+                    key={email.id}
+                    email={email}
+                    showSender={view.showSender}
+                    isFocused={email.id === focusedEmailId}
+                    searchTerms={searchTerms}
+                    onDelete={() => onDeleteEmail(email.id)}
+                    isSelected={selectedIds ? selectedIds.has(email.id) : null}
+                    onSelect={(selected) => onSelectEmails([email.id], selected)}
+                    hasDraft={draftKeys.has(replyTargetForEmail(email).key)}
+                    onDraftReply={() => onDraftReply(replyTargetForEmail(email))}
+                    isCursor={cursor === null ? null : cursor === email.id}
+                    onCursor={() => onCursorChange(email.id)}
+                />
             ))}
+            </ul>
         </div>
       )}
-    </div>
+    </section>
   );
 };
 
@@ -0,0 +1,72 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { ExportFormat, GroupMode, OrganizedEmailGroup, SortOrder, ThreadSummaries } from '../types';
+import { buildExport, downloadFile, EXPORT_FORMATS } from '../services/exporters';
+import { ChevronDownIcon, DownloadIcon } from './Icons';
+
+interface ExportMenuProps {
+  groups: OrganizedEmailGroup[];
+  groupMode: GroupMode;
+  sortOrder: SortOrder;
+  threadSummaries: ThreadSummaries;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ groups, groupMode, sortOrder, threadSummaries }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const handleExport = (format: ExportFormat) => {
+    const { content, fileName, mimeType } = buildExport(format, groups, { groupMode, sortOrder }, threadSummaries);
+    downloadFile(content, fileName, mimeType);
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-2 px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-semibold rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors duration-200"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <DownloadIcon className="w-4 h-4" />
+        <span>Export</span>
+        <ChevronDownIcon className={`w-4 h-4 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <ul className="absolute right-0 z-10 mt-2 w-56 py-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg" role="menu">
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <li key={format} role="none">
+              <button
+                onClick={() => handleExport(format)}
+                className="w-full px-4 py-2 text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                role="menuitem"
+              >
+                {label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
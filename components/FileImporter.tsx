@@ -0,0 +1,113 @@
+import React, { useState, useRef } from 'react';
+import type { ImportedFile } from '../types';
+import type { ImportSource } from '../services/mailImporter';
+import { collectDroppedFiles, sourcesFromFileList } from '../services/mailImporter';
+import { UploadIcon, FolderIcon, TrashIcon, AlertIcon, MailIcon } from './Icons';
+
+interface FileImporterProps {
+  importedFiles: ImportedFile[];
+  isImporting: boolean;
+  disabled: boolean;
+  onImport: (sources: ImportSource[]) => void;
+  onRemoveFile: (index: number) => void;
+}
+
+const ImportedFileRow: React.FC<{ file: ImportedFile; onRemove: () => void; disabled: boolean }> = ({ file, onRemove, disabled }) => (
+    <li className="flex items-start justify-between gap-3 px-3 py-2 text-sm">
+        <div className="min-w-0">
+            <p className="font-medium text-gray-700 dark:text-gray-200 truncate">{file.fileName}</p>
+            {file.emails.length > 0 && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {file.emails.length} email{file.emails.length > 1 ? 's' : ''}
+                </p>
+            )}
+            {file.error && (
+                <p className="flex items-center space-x-1 text-xs text-red-600 dark:text-red-400">
+                    <AlertIcon className="w-3.5 h-3.5 flex-shrink-0" />
+                    <span>{file.error}</span>
+                </p>
+            )}
+        </div>
+        <button
+            onClick={onRemove}
+            disabled={disabled}
+            className="p-1.5 rounded-md text-gray-500 dark:text-gray-400 hover:bg-red-100 dark:hover:bg-red-900/40 hover:text-red-600 dark:hover:text-red-400 focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-50 transition-colors"
+            aria-label={`Remove ${file.fileName}`}
+        >
+            <TrashIcon className="w-4 h-4" />
+        </button>
+    </li>
+);
+
+const FileImporter: React.FC<FileImporterProps> = ({ importedFiles, isImporting, disabled, onImport, onRemoveFile }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (disabled) return;
+    onImport(await collectDroppedFiles(e.dataTransfer));
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      onImport(sourcesFromFileList(e.target.files));
+    }
+    // Reset so picking the same file again still triggers a change event.
+    e.target.value = '';
+  };
+
+  const emailCount = importedFiles.reduce((total, file) => total + file.emails.length, 0);
+
+  return (
+    <div className="space-y-3">
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center text-center p-6 border-2 border-dashed rounded-lg transition-colors duration-200 ${isDragging ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20' : 'border-gray-300 dark:border-gray-600'}`}
+      >
+        <UploadIcon className="w-10 h-10 mb-2 text-gray-400 dark:text-gray-500" />
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          {isImporting ? 'Reading files...' : 'Drop .eml or .mbox files, a Maildir folder, or a JSON export here'}
+        </p>
+        <div className="flex flex-wrap justify-center gap-2 mt-3">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled || isImporting}
+            className="flex items-center space-x-2 px-3 py-1.5 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-semibold rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            <MailIcon className="w-4 h-4" />
+            <span>Choose files</span>
+          </button>
+          <button
+            onClick={() => folderInputRef.current?.click()}
+            disabled={disabled || isImporting}
+            className="flex items-center space-x-2 px-3 py-1.5 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-semibold rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            <FolderIcon className="w-4 h-4" />
+            <span>Choose Maildir folder</span>
+          </button>
+        </div>
+        <input ref={fileInputRef} type="file" multiple accept=".eml,.mbox,.mbx,.json,message/rfc822,application/mbox,application/json" className="hidden" onChange={handleInputChange} />
+        <input ref={folderInputRef} type="file" multiple {...{ webkitdirectory: '' }} className="hidden" onChange={handleInputChange} />
+      </div>
+      {importedFiles.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-600 dark:text-gray-400 mb-1">
+            {emailCount} email{emailCount !== 1 ? 's' : ''} imported from {importedFiles.length} file{importedFiles.length > 1 ? 's' : ''}
+          </p>
+          <ul className="max-h-48 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+            {importedFiles.map((file, index) => (
+              <ImportedFileRow key={`${file.fileName}-${index}`} file={file} disabled={disabled} onRemove={() => onRemoveFile(index)} />
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FileImporter;
@@ -0,0 +1,197 @@
+import React, { useState, useRef } from 'react';
+import type { ImportedFile, MailboxClient, MailboxLabel, MailboxQuery } from '../types';
+import { hasGmailAccess, requestGmailAccess } from '../services/gmailAuth';
+import { fetchMailbox } from '../services/mailboxFetcher';
+import type { MailboxFetchProgress } from '../services/mailboxFetcher';
+import { ChevronDownIcon, MailIcon, AlertIcon } from './Icons';
+
+interface GmailImporterProps {
+  client: MailboxClient;
+  userEmail: string;
+  disabled: boolean;
+  onFetched: (file: ImportedFile) => void;
+  onBusyChange: (busy: boolean) => void;
+}
+
+const DEFAULT_QUERY: MailboxQuery = { labelId: 'INBOX', search: '', dateFrom: '', dateTo: '', maxMessages: 50 };
+const MAX_MESSAGES_LIMIT = 500;
+
+const inputClassName = "w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50";
+
+const Field: React.FC<{ label: string; htmlFor: string; children: React.ReactNode }> = ({ label, htmlFor, children }) => (
+    <div>
+        <label htmlFor={htmlFor} className="block text-sm font-medium text-gray-600 dark:text-gray-400 mb-1">{label}</label>
+        {children}
+    </div>
+);
+
+const GmailImporter: React.FC<GmailImporterProps> = ({ client, userEmail, disabled, onFetched, onBusyChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [labels, setLabels] = useState<MailboxLabel[] | null>(null);
+  const [query, setQuery] = useState<MailboxQuery>(DEFAULT_QUERY);
+  const [isBusy, setIsBusy] = useState(false);
+  const [progress, setProgress] = useState<MailboxFetchProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const run = async (task: (signal: AbortSignal) => Promise<void>) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsBusy(true);
+    onBusyChange(true);
+    setError(null);
+    try {
+      await task(controller.signal);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error("Gmail error:", err);
+        setError(err instanceof Error ? err.message : "Gmail could not be reached.");
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setIsBusy(false);
+      onBusyChange(false);
+      setProgress(null);
+    }
+  };
+
+  const handleConnect = () => run(async (signal) => {
+    await requestGmailAccess(userEmail);
+    setLabels(await client.listLabels(signal));
+  });
+
+  const handleFetch = () => run(async (signal) => {
+    onFetched(await fetchMailbox(client, query, labels ?? [], { signal, onProgress: setProgress }));
+  });
+
+  const connected = labels !== null && hasGmailAccess();
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-2 text-left text-sm hover:bg-gray-50 dark:hover:bg-gray-700/50 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500 rounded-lg"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center space-x-2 text-gray-700 dark:text-gray-300">
+          <MailIcon className="w-4 h-4" />
+          <span className="font-semibold">Fetch from Gmail</span>
+          {connected && <span className="text-xs text-green-600 dark:text-green-400">Connected</span>}
+        </span>
+        <ChevronDownIcon className={`w-4 h-4 text-gray-500 dark:text-gray-400 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+          {!connected ? (
+            <div className="flex flex-wrap items-center gap-3">
+              <button
+                onClick={handleConnect}
+                disabled={disabled || isBusy}
+                className="px-4 py-2 text-sm bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+              >
+                {isBusy ? 'Connecting...' : 'Connect Gmail'}
+              </button>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Grants read-only access to {userEmail}. Messages are downloaded to this browser; changing them asks for permission separately.
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <Field label="Label" htmlFor="gmail-label">
+                  <select
+                    id="gmail-label"
+                    value={query.labelId}
+                    onChange={(e) => setQuery({ ...query, labelId: e.target.value })}
+                    className={inputClassName}
+                    disabled={disabled || isBusy}
+                  >
+                    <option value="">All mail</option>
+                    {labels.map(label => (
+                      <option key={label.id} value={label.id}>{label.name}</option>
+                    ))}
+                  </select>
+                </Field>
+                <Field label="Search (Gmail syntax)" htmlFor="gmail-search">
+                  <input
+                    id="gmail-search"
+                    type="text"
+                    value={query.search}
+                    onChange={(e) => setQuery({ ...query, search: e.target.value })}
+                    placeholder="from:alice@example.com has:attachment"
+                    className={inputClassName}
+                    disabled={disabled || isBusy}
+                  />
+                </Field>
+                <Field label="From date" htmlFor="gmail-date-from">
+                  <input
+                    id="gmail-date-from"
+                    type="date"
+                    value={query.dateFrom}
+                    max={query.dateTo || undefined}
+                    onChange={(e) => setQuery({ ...query, dateFrom: e.target.value })}
+                    className={inputClassName}
+                    disabled={disabled || isBusy}
+                  />
+                </Field>
+                <Field label="To date" htmlFor="gmail-date-to">
+                  <input
+                    id="gmail-date-to"
+                    type="date"
+                    value={query.dateTo}
+                    min={query.dateFrom || undefined}
+                    onChange={(e) => setQuery({ ...query, dateTo: e.target.value })}
+                    className={inputClassName}
+                    disabled={disabled || isBusy}
+                  />
+                </Field>
+                <Field label="Maximum messages" htmlFor="gmail-max">
+                  <input
+                    id="gmail-max"
+                    type="number"
+                    min={1}
+                    max={MAX_MESSAGES_LIMIT}
+                    value={query.maxMessages}
+                    onChange={(e) => setQuery({ ...query, maxMessages: Math.min(MAX_MESSAGES_LIMIT, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+                    className={inputClassName}
+                    disabled={disabled || isBusy}
+                  />
+                </Field>
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <button
+                  onClick={handleFetch}
+                  disabled={disabled || isBusy}
+                  className="px-4 py-2 text-sm bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                  {isBusy ? 'Fetching...' : 'Fetch messages'}
+                </button>
+                {isBusy && (
+                  <button
+                    onClick={() => abortControllerRef.current?.abort()}
+                    className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-semibold rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors duration-200"
+                  >
+                    Cancel
+                  </button>
+                )}
+                {progress && (
+                  <span className="text-sm text-gray-600 dark:text-gray-400">
+                    {progress.fetched} of {progress.total} messages downloaded
+                  </span>
+                )}
+              </div>
+            </>
+          )}
+          {error && (
+            <p className="flex items-center space-x-2 text-sm text-red-600 dark:text-red-400">
+              <AlertIcon className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GmailImporter;
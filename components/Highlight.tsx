@@ -0,0 +1,31 @@
+import React from 'react';
+import { findMatches } from '../services/search';
+
+interface HighlightProps {
+  text: string;
+  terms: string[]; // Lowercased search terms, see searchTerms
+}
+
+// Renders text with the parts that match the search marked.
+const Highlight: React.FC<HighlightProps> = ({ text, terms }) => {
+  const ranges = terms.length > 0 ? findMatches(text, terms) : [];
+  if (ranges.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach(([start, end], index) => {
+    if (start > position) {
+      parts.push(text.slice(position, start));
+    }
+    parts.push(
+      <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded-sm px-0.5">{text.slice(start, end)}</mark>
+    );
+    position = end;
+  });
+  parts.push(text.slice(position));
+  return <>{parts}</>;
+};
+
+export default Highlight;
@@ -0,0 +1,192 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { ArchivedRun } from '../types';
+import { listRuns, renameRun, deleteRun, mergeRuns } from '../services/archiveStore';
+import { HistoryIcon, ChevronDownIcon, TrashIcon, PencilIcon, CheckIcon } from './Icons';
+
+interface HistoryPanelProps {
+  userSub: string;
+  enabled: boolean;
+  onToggleEnabled: (enabled: boolean) => void;
+  refreshKey: number; // Bumped by the parent whenever a run is saved
+  onOpenRun: (run: ArchivedRun) => void;
+}
+
+const countEmails = (run: ArchivedRun): number => run.groups.reduce((total, group) => total + group.emails.length, 0);
+
+const RunRow: React.FC<{
+  run: ArchivedRun;
+  selected: boolean;
+  onSelect: (selected: boolean) => void;
+  onOpen: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}> = ({ run, selected, onSelect, onOpen, onRename, onDelete }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [name, setName] = useState(run.name);
+
+    const commitRename = () => {
+        setIsEditing(false);
+        if (name.trim() && name.trim() !== run.name) {
+            onRename(name.trim());
+        } else {
+            setName(run.name);
+        }
+    };
+
+    const emailCount = countEmails(run);
+
+    return (
+        <li className="flex items-center gap-3 px-3 py-2 text-sm">
+            <input
+                type="checkbox"
+                checked={selected}
+                onChange={(e) => onSelect(e.target.checked)}
+                className="rounded border-gray-300 dark:border-gray-600"
+                aria-label={`Select ${run.name} for merging`}
+            />
+            <div className="flex-1 min-w-0">
+                {isEditing ? (
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); }}
+                        className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-gray-50 dark:bg-gray-700"
+                        autoFocus
+                    />
+                ) : (
+                    <button onClick={onOpen} className="font-medium text-left text-blue-600 dark:text-blue-400 hover:underline truncate max-w-full">
+                        {run.name}
+                    </button>
+                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(run.createdAt).toLocaleString()} · {run.groups.length} sender{run.groups.length !== 1 ? 's' : ''} · {emailCount} email{emailCount !== 1 ? 's' : ''}
+                </p>
+            </div>
+            <button
+                onClick={() => (isEditing ? commitRename() : setIsEditing(true))}
+                className="p-1.5 rounded-md text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+                aria-label={isEditing ? 'Save name' : `Rename ${run.name}`}
+            >
+                {isEditing ? <CheckIcon className="w-4 h-4" /> : <PencilIcon className="w-4 h-4" />}
+            </button>
+            <button
+                onClick={onDelete}
+                className="p-1.5 rounded-md text-gray-500 dark:text-gray-400 hover:bg-red-100 dark:hover:bg-red-900/40 hover:text-red-600 dark:hover:text-red-400 focus:outline-none focus:ring-2 focus:ring-red-500 transition-colors"
+                aria-label={`Delete ${run.name}`}
+            >
+                <TrashIcon className="w-4 h-4" />
+            </button>
+        </li>
+    );
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ userSub, enabled, onToggleEnabled, refreshKey, onOpenRun }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [runs, setRuns] = useState<ArchivedRun[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setRuns(await listRuns(userSub));
+      setError(null);
+    } catch (err) {
+      console.error("Error loading history:", err);
+      setError(err instanceof Error ? err.message : "Your history could not be loaded.");
+    }
+  }, [userSub]);
+
+  useEffect(() => {
+    if (isOpen) {
+      refresh();
+    }
+  }, [isOpen, refresh, refreshKey]);
+
+  const withRefresh = (action: () => Promise<unknown>) => async () => {
+    try {
+      await action();
+    } catch (err) {
+      console.error("Error updating history:", err);
+      setError(err instanceof Error ? err.message : "Your history could not be updated.");
+    }
+    await refresh();
+  };
+
+  const toggleSelected = (id: string, selected: boolean) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (selected) next.add(id); else next.delete(id);
+      return next;
+    });
+  };
+
+  const handleMerge = withRefresh(async () => {
+    const selectedRuns = runs.filter(run => selectedIds.has(run.id));
+    await mergeRuns(userSub, selectedRuns, `Merged: ${selectedRuns.map(run => run.name).join(' + ')}`);
+    setSelectedIds(new Set());
+  });
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-2 text-left text-sm hover:bg-gray-50 dark:hover:bg-gray-700/50 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500 rounded-lg"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center space-x-2 text-gray-700 dark:text-gray-300">
+          <HistoryIcon className="w-4 h-4" />
+          <span className="font-semibold">History</span>
+          <span>{enabled ? 'Saving runs on this device' : 'Off'}</span>
+        </span>
+        <ChevronDownIcon className={`w-4 h-4 text-gray-500 dark:text-gray-400 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+          <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={(e) => onToggleEnabled(e.target.checked)}
+              className="rounded border-gray-300 dark:border-gray-600"
+            />
+            <span>Save organized results in this browser and reuse them for identical input</span>
+          </label>
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          {runs.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No saved runs yet.</p>
+          ) : (
+            <>
+              <ul className="max-h-64 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+                {runs.map(run => (
+                  <RunRow
+                    key={run.id}
+                    run={run}
+                    selected={selectedIds.has(run.id)}
+                    onSelect={(selected) => toggleSelected(run.id, selected)}
+                    onOpen={() => onOpenRun(run)}
+                    onRename={(name) => withRefresh(() => renameRun(run, name))()}
+                    onDelete={withRefresh(async () => {
+                      await deleteRun(run.id);
+                      toggleSelected(run.id, false);
+                    })}
+                  />
+                ))}
+              </ul>
+              <button
+                onClick={handleMerge}
+                disabled={selectedIds.size < 2}
+                className="px-3 py-1.5 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-semibold rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+              >
+                Merge selected ({selectedIds.size})
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
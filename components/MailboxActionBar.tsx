@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from 'react';
+import type { EmailWithSender, MailboxAction, MailboxClient, MailboxLabel } from '../types';
+import { applyMailboxAction, describeAppliedAction, describeMailboxAction, remoteIdsOf, UNDO_WINDOW_MS } from '../services/mailboxActions';
+import { requestGmailAccess } from '../services/gmailAuth';
+import ConfirmDialog from './ConfirmDialog';
+import { AlertIcon, CheckIcon } from './Icons';
+
+interface MailboxActionBarProps {
+  selectedEmails: EmailWithSender[];
+  client: MailboxClient;
+  userEmail: string;
+  onClearSelection: () => void;
+  onTrashed: (emailIds: string[]) => void; // Trashed emails are removed from the results as well
+}
+
+// A confirmed action waiting out the undo window.
+interface PendingAction {
+  action: MailboxAction;
+  emailIds: string[];
+  remoteIds: string[];
+}
+
+const PREVIEW_LIMIT = 5;
+
+const buttonClassName = "px-3 py-1.5 text-sm bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 font-semibold rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200";
+
+const MailboxActionBar: React.FC<MailboxActionBarProps> = ({ selectedEmails, client, userEmail, onClearSelection, onTrashed }) => {
+  const [isLabelFormOpen, setIsLabelFormOpen] = useState(false);
+  const [labelName, setLabelName] = useState('');
+  const [labels, setLabels] = useState<MailboxLabel[]>([]);
+  const [confirming, setConfirming] = useState<MailboxAction | null>(null);
+  const [isAuthorizing, setIsAuthorizing] = useState(false);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const remoteIds = remoteIdsOf(selectedEmails);
+  const skipped = selectedEmails.filter(email => !email.remoteId).length;
+
+  const commit = async ({ action, emailIds, remoteIds }: PendingAction) => {
+    setPending(null);
+    try {
+      await applyMailboxAction(client, action, remoteIds);
+      setStatus({ text: describeAppliedAction(action, remoteIds.length), isError: false });
+      if (action.type === 'trash') {
+        onTrashed(emailIds);
+      }
+    } catch (err) {
+      console.error("Gmail error:", err);
+      setStatus({ text: err instanceof Error ? err.message : "Gmail could not be reached.", isError: true });
+    }
+  };
+
+  // Leaving the results (or undoing) before the window ends cancels the action.
+  useEffect(() => {
+    if (!pending) return;
+    const timeoutId = setTimeout(() => commit(pending), UNDO_WINDOW_MS);
+    return () => clearTimeout(timeoutId);
+  }, [pending]);
+
+  useEffect(() => {
+    if (!status || status.isError) return;
+    const timeoutId = setTimeout(() => setStatus(null), 5000);
+    return () => clearTimeout(timeoutId);
+  }, [status]);
+
+  useEffect(() => {
+    if (!isLabelFormOpen) return;
+    // Suggestions only; a new name creates the label.
+    client.listLabels().then(all => setLabels(all.filter(label => !label.system))).catch(() => setLabels([]));
+  }, [isLabelFormOpen, client]);
+
+  const handleConfirm = async () => {
+    if (!confirming) return;
+    setIsAuthorizing(true);
+    try {
+      // Asked here, from the click, because it may open Google's consent popup.
+      await requestGmailAccess(userEmail, 'modify');
+    } catch (err) {
+      setStatus({ text: err instanceof Error ? err.message : "Gmail access was not granted.", isError: true });
+      setConfirming(null);
+      return;
+    } finally {
+      setIsAuthorizing(false);
+    }
+    if (pending) {
+      // Only one action waits at a time; an earlier one is sent right away.
+      commit(pending);
+    }
+    setPending({ action: confirming, emailIds: selectedEmails.map(email => email.id), remoteIds });
+    setStatus(null);
+    setConfirming(null);
+    setIsLabelFormOpen(false);
+    setLabelName('');
+    onClearSelection();
+  };
+
+  const handleLabelSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (labelName.trim()) {
+      setConfirming({ type: 'label', labelName: labelName.trim() });
+    }
+  };
+
+  return (
+    <>
+      {selectedEmails.length > 0 && (
+        <div className="sticky top-2 z-20 p-3 bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 rounded-lg shadow-sm space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-semibold text-blue-900 dark:text-blue-100 mr-2">
+              {selectedEmails.length} selected
+              {skipped > 0 && <span className="font-normal"> ({skipped} not from Gmail)</span>}
+            </span>
+            <button onClick={() => setIsLabelFormOpen(!isLabelFormOpen)} disabled={remoteIds.length === 0} className={buttonClassName} aria-expanded={isLabelFormOpen}>Label</button>
+            <button onClick={() => setConfirming({ type: 'archive' })} disabled={remoteIds.length === 0} className={buttonClassName}>Archive</button>
+            <button onClick={() => setConfirming({ type: 'markRead' })} disabled={remoteIds.length === 0} className={buttonClassName}>Mark read</button>
+            <button onClick={() => setConfirming({ type: 'trash' })} disabled={remoteIds.length === 0} className={`${buttonClassName} hover:text-red-600 dark:hover:text-red-400`}>Trash</button>
+            <button onClick={onClearSelection} className="ml-auto text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline">Clear selection</button>
+          </div>
+          {isLabelFormOpen && (
+            <form onSubmit={handleLabelSubmit} className="flex flex-wrap items-center gap-2">
+              <label htmlFor="mailbox-label-name" className="sr-only">Label name</label>
+              <input
+                id="mailbox-label-name"
+                type="text"
+                list="mailbox-label-suggestions"
+                value={labelName}
+                onChange={(e) => setLabelName(e.target.value)}
+                placeholder="Existing or new label"
+                className="flex-1 min-w-[12rem] px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                autoFocus
+              />
+              <datalist id="mailbox-label-suggestions">
+                {labels.map(label => <option key={label.id} value={label.name} />)}
+              </datalist>
+              <button type="submit" disabled={!labelName.trim()} className={buttonClassName}>Apply label</button>
+            </form>
+          )}
+        </div>
+      )}
+      {confirming && (
+        <ConfirmDialog
+          title={`${describeMailboxAction(confirming, remoteIds.length)}?`}
+          confirmLabel={isAuthorizing ? 'Authorizing...' : describeMailboxAction(confirming, remoteIds.length)}
+          destructive={confirming.type === 'trash'}
+          isBusy={isAuthorizing}
+          onConfirm={handleConfirm}
+          onCancel={() => setConfirming(null)}
+        >
+          <p>This changes {remoteIds.length} message{remoteIds.length === 1 ? '' : 's'} in the Gmail account {userEmail}:</p>
+          <ul className="mt-2 space-y-1 list-disc list-inside">
+            {selectedEmails.filter(email => email.remoteId).slice(0, PREVIEW_LIMIT).map(email => (
+              <li key={email.id} className="truncate">{email.subject || '(no subject)'}</li>
+            ))}
+          </ul>
+          {remoteIds.length > PREVIEW_LIMIT && <p className="mt-1 text-gray-500 dark:text-gray-400">and {remoteIds.length - PREVIEW_LIMIT} more.</p>}
+          {skipped > 0 && <p className="mt-2">{skipped} selected email{skipped === 1 ? ' was' : 's were'} not fetched from Gmail and will be skipped.</p>}
+          <p className="mt-2">You can undo for {UNDO_WINDOW_MS / 1000} seconds after confirming.</p>
+        </ConfirmDialog>
+      )}
+      {(pending || status) && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 px-4 py-3 text-sm bg-gray-800 dark:bg-gray-700 text-white rounded-lg shadow-lg" role="status" aria-live="polite">
+          {pending ? (
+            <>
+              <span>{describeMailboxAction(pending.action, pending.remoteIds.length)}…</span>
+              <button onClick={() => setPending(null)} className="font-semibold text-blue-300 hover:underline">Undo</button>
+            </>
+          ) : status && (
+            <>
+              <span className="flex items-center space-x-2">
+                {status.isError ? <AlertIcon className="w-4 h-4 text-red-300 flex-shrink-0" /> : <CheckIcon className="w-4 h-4 text-green-300 flex-shrink-0" />}
+                <span>{status.text}</span>
+              </span>
+              <button onClick={() => setStatus(null)} className="font-semibold text-gray-300 hover:underline">Dismiss</button>
+            </>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default MailboxActionBar;
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import type { ProviderId, ProviderSettings } from '../types';
+import { PROVIDER_OPTIONS } from '../services/providers';
+import { SUMMARY_LANGUAGES } from '../services/language';
+import { ChevronDownIcon, CogIcon } from './Icons';
+
+interface ProviderSettingsPanelProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+  disabled: boolean;
+}
+
+const inputClassName = "w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50";
+
+const Field: React.FC<{ label: string; htmlFor: string; children: React.ReactNode }> = ({ label, htmlFor, children }) => (
+    <div>
+        <label htmlFor={htmlFor} className="block text-sm font-medium text-gray-600 dark:text-gray-400 mb-1">{label}</label>
+        {children}
+    </div>
+);
+
+const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onChange, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const selected = PROVIDER_OPTIONS.find(option => option.id === settings.provider) ?? PROVIDER_OPTIONS[0];
+
+  const handleProviderChange = (provider: ProviderId) => {
+    const option = PROVIDER_OPTIONS.find(candidate => candidate.id === provider) ?? PROVIDER_OPTIONS[0];
+    onChange({ ...settings, provider, model: option.defaultModel });
+  };
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-2 text-left text-sm hover:bg-gray-50 dark:hover:bg-gray-700/50 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500 rounded-lg"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center space-x-2 text-gray-700 dark:text-gray-300">
+          <CogIcon className="w-4 h-4" />
+          <span className="font-semibold">AI provider:</span>
+          <span>{selected.label}{settings.model ? ` · ${settings.model}` : ''}</span>
+        </span>
+        <ChevronDownIcon className={`w-4 h-4 text-gray-500 dark:text-gray-400 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="grid gap-3 sm:grid-cols-2 p-4 border-t border-gray-200 dark:border-gray-700">
+          <Field label="Provider" htmlFor="provider-select">
+            <select
+              id="provider-select"
+              value={settings.provider}
+              onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+              className={inputClassName}
+              disabled={disabled}
+            >
+              {PROVIDER_OPTIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </Field>
+          {settings.provider !== 'offline' && (
+            <Field label="Model" htmlFor="provider-model">
+              <input
+                id="provider-model"
+                type="text"
+                value={settings.model}
+                onChange={(e) => onChange({ ...settings, model: e.target.value })}
+                className={inputClassName}
+                disabled={disabled}
+              />
+            </Field>
+          )}
+          {settings.provider === 'openai-compatible' && (
+            <>
+              <Field label="Server URL" htmlFor="provider-base-url">
+                <input
+                  id="provider-base-url"
+                  type="url"
+                  value={settings.baseUrl}
+                  onChange={(e) => onChange({ ...settings, baseUrl: e.target.value })}
+                  placeholder="http://localhost:8080/v1"
+                  className={inputClassName}
+                  disabled={disabled}
+                />
+              </Field>
+              <Field label="API key (optional)" htmlFor="provider-api-key">
+                <input
+                  id="provider-api-key"
+                  type="password"
+                  value={settings.apiKey}
+                  onChange={(e) => onChange({ ...settings, apiKey: e.target.value })}
+                  className={inputClassName}
+                  disabled={disabled}
+                />
+              </Field>
+            </>
+          )}
+          <Field label="Summary language" htmlFor="provider-summary-language">
+            <select
+              id="provider-summary-language"
+              value={settings.summaryLanguage}
+              onChange={(e) => onChange({ ...settings, summaryLanguage: e.target.value })}
+              className={inputClassName}
+              disabled={disabled || settings.provider === 'offline'}
+            >
+              {SUMMARY_LANGUAGES.map(language => (
+                <option key={language.code} value={language.code}>{language.label}</option>
+              ))}
+            </select>
+          </Field>
+          {settings.provider === 'offline' && (
+            <p className="text-sm text-gray-500 dark:text-gray-400 sm:col-span-1 self-end">
+              Summaries are extracted from the email text on this device, so they stay in the email's language. Nothing is sent over the network.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderSettingsPanel;
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import type { RedactionEntry } from '../types';
+import { maskValue, REDACTION_KIND_LABELS } from '../services/redaction';
+import { ChevronDownIcon, ShieldIcon } from './Icons';
+
+interface RedactionAuditProps {
+  entries: RedactionEntry[];
+  providerLabel: string;
+}
+
+// Lists what was replaced before being sent to the provider. Values are masked until asked for.
+const RedactionAudit: React.FC<RedactionAuditProps> = ({ entries, providerLabel }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showValues, setShowValues] = useState(false);
+  const total = entries.reduce((sum, entry) => sum + entry.count, 0);
+
+  return (
+    <div className="text-sm text-blue-900 dark:text-blue-100 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-3 text-left focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500 rounded-lg"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center space-x-2">
+          <ShieldIcon className="w-5 h-5 flex-shrink-0" />
+          <span>
+            {entries.length} value{entries.length === 1 ? ' was' : 's were'} redacted before being sent to {providerLabel} ({total} replacement{total === 1 ? '' : 's'}).
+          </span>
+        </span>
+        <ChevronDownIcon className={`w-4 h-4 flex-shrink-0 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-2">
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={showValues}
+              onChange={(e) => setShowValues(e.target.checked)}
+              className="rounded border-gray-300 dark:border-gray-600"
+            />
+            <span>Show the original values</span>
+          </label>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead className="text-xs uppercase text-blue-700 dark:text-blue-300">
+                <tr>
+                  <th scope="col" className="py-1 pr-3 font-semibold">Sent as</th>
+                  <th scope="col" className="py-1 pr-3 font-semibold">Kind</th>
+                  <th scope="col" className="py-1 pr-3 font-semibold">Original</th>
+                  <th scope="col" className="py-1 font-semibold text-right">Times</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr key={entry.placeholder} className="border-t border-blue-100 dark:border-blue-800 align-top">
+                    <td className="py-1 pr-3"><code className="font-mono text-xs">{entry.placeholder}</code></td>
+                    <td className="py-1 pr-3">{REDACTION_KIND_LABELS[entry.kind]}</td>
+                    <td className="py-1 pr-3 break-all whitespace-pre-line">{showValues ? entry.original : maskValue(entry.original)}</td>
+                    <td className="py-1 text-right">{entry.count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RedactionAudit;
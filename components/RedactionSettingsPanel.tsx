@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import type { RedactionKind, RedactionSettings } from '../types';
+import { REDACTION_KINDS } from '../services/redaction';
+import { ChevronDownIcon, ShieldIcon } from './Icons';
+
+interface RedactionSettingsPanelProps {
+  settings: RedactionSettings;
+  onChange: (settings: RedactionSettings) => void;
+  disabled: boolean;
+  isLocalProvider: boolean; // Nothing leaves the browser, so nothing is redacted
+}
+
+const RedactionSettingsPanel: React.FC<RedactionSettingsPanelProps> = ({ settings, onChange, disabled, isLocalProvider }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // Edited as text and saved line by line, so typing a new line doesn't lose it.
+  const [termsText, setTermsText] = useState(settings.customTerms.join('\n'));
+
+  const handleKindChange = (kind: RedactionKind, checked: boolean) => {
+    const kinds = checked ? [...settings.kinds, kind] : settings.kinds.filter(other => other !== kind);
+    onChange({ ...settings, kinds: REDACTION_KINDS.map(option => option.kind).filter(option => kinds.includes(option)) });
+  };
+
+  const handleTermsChange = (text: string) => {
+    setTermsText(text);
+    onChange({ ...settings, customTerms: text.split('\n').map(term => term.trim()).filter(Boolean) });
+  };
+
+  const status = isLocalProvider ? 'not needed offline' : settings.enabled ? 'on' : 'off';
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-2 text-left text-sm hover:bg-gray-50 dark:hover:bg-gray-700/50 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500 rounded-lg"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center space-x-2 text-gray-700 dark:text-gray-300">
+          <ShieldIcon className="w-4 h-4" />
+          <span className="font-semibold">Redaction:</span>
+          <span>{status}</span>
+        </span>
+        <ChevronDownIcon className={`w-4 h-4 text-gray-500 dark:text-gray-400 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="p-4 space-y-3 border-t border-gray-200 dark:border-gray-700 text-sm">
+          <p className="text-gray-500 dark:text-gray-400">
+            Before anything is sent to the AI provider, the values below are replaced by placeholders such as [PHONE_1] on this device.
+            The originals are put back into the results here, so the provider never sees them.
+            {isLocalProvider && ' The offline provider sends nothing, so nothing is redacted while it is selected.'}
+          </p>
+          <label className="flex items-center space-x-2 font-semibold text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+              className="rounded border-gray-300 dark:border-gray-600"
+              disabled={disabled}
+            />
+            <span>Redact personal data and secrets</span>
+          </label>
+          <fieldset className="grid gap-2 sm:grid-cols-2" disabled={disabled || !settings.enabled}>
+            <legend className="sr-only">What to redact</legend>
+            {REDACTION_KINDS.map(({ kind, label }) => (
+              <label key={kind} className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={settings.kinds.includes(kind)}
+                  onChange={(e) => handleKindChange(kind, e.target.checked)}
+                  className="rounded border-gray-300 dark:border-gray-600"
+                />
+                <span>{label}</span>
+              </label>
+            ))}
+          </fieldset>
+          <div>
+            <label htmlFor="redaction-custom-terms" className="block font-medium text-gray-600 dark:text-gray-400 mb-1">
+              Also redact these terms (one per line, e.g. customer or project names)
+            </label>
+            <textarea
+              id="redaction-custom-terms"
+              value={termsText}
+              onChange={(e) => handleTermsChange(e.target.value)}
+              rows={3}
+              className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+              disabled={disabled || !settings.enabled}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RedactionSettingsPanel;
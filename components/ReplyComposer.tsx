@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { EmailOrganizerProvider, ReplyDraft, ReplyTarget, ReplyTone } from '../types';
+import { draftToEml, emlFileName, REPLY_TONES, replySubject, requestReplyDraft } from '../services/replyDrafts';
+import { downloadFile } from '../services/exporters';
+import { AlertIcon, DownloadIcon, SparklesIcon } from './Icons';
+
+interface ReplyComposerProps {
+  target: ReplyTarget;
+  draft: ReplyDraft | null; // The saved draft for this target, if any
+  provider: EmailOrganizerProvider;
+  userEmail: string; // Used as the sender of exported drafts
+  onSave: (draft: ReplyDraft) => void;
+  onDiscard: (key: string) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+const secondaryButtonClassName = "px-3 py-1.5 text-sm bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 font-semibold rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200";
+
+const ReplyComposer: React.FC<ReplyComposerProps> = ({ target, draft, provider, userEmail, onSave, onDiscard, onClose }) => {
+  const [tone, setTone] = useState<ReplyTone>(draft?.tone ?? 'friendly');
+  const [instruction, setInstruction] = useState(draft?.instruction ?? '');
+  const [subject, setSubject] = useState(draft?.subject ?? replySubject(target.emails));
+  const [body, setBody] = useState(draft?.body ?? '');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Closing while a draft is being written cancels the request.
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const toDraft = (changes: Partial<ReplyDraft> = {}): ReplyDraft => ({
+    key: target.key,
+    recipientName: target.recipientName,
+    recipientEmail: target.recipientEmail,
+    subject,
+    body,
+    tone,
+    instruction,
+    updatedAt: new Date().toISOString(),
+    ...changes,
+  });
+
+  // Edits are saved as they are made, so a draft survives closing the dialog or the tab.
+  const handleEdit = (changes: Pick<Partial<ReplyDraft>, 'subject' | 'body'>) => {
+    if (changes.subject !== undefined) setSubject(changes.subject);
+    if (changes.body !== undefined) setBody(changes.body);
+    onSave(toDraft(changes));
+  };
+
+  const handleGenerate = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const generated = await requestReplyDraft(provider, target, instruction, tone, controller.signal);
+      setSubject(generated.subject);
+      setBody(generated.body);
+      onSave(toDraft(generated));
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : "Failed to draft a reply. Please try again.");
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setIsGenerating(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    onDiscard(target.key);
+    onClose();
+  };
+
+  const recipient = target.recipientName ? `${target.recipientName} <${target.recipientEmail}>` : target.recipientEmail || 'Unknown sender';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50" onMouseDown={(e) => e.target === e.currentTarget && onClose()}>
+      <div className="w-full max-w-2xl max-h-full overflow-y-auto p-6 bg-white dark:bg-gray-800 rounded-lg shadow-xl space-y-4" role="dialog" aria-modal="true" aria-labelledby="reply-composer-title">
+        <div>
+          <h3 id="reply-composer-title" className="text-lg font-bold text-gray-800 dark:text-gray-100">
+            {target.emails.length > 1 ? `Reply to ${target.emails.length} emails` : 'Draft reply'}
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 truncate">To {recipient}</p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="flex-1 min-w-[14rem]">
+            <label htmlFor="reply-instruction" className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Instruction (optional)</label>
+            <input
+              id="reply-instruction"
+              type="text"
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              placeholder='e.g. "decline politely" or "ask for the invoice"'
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex items-center p-1 bg-gray-100 dark:bg-gray-700 rounded-lg" role="radiogroup" aria-label="Tone">
+            {REPLY_TONES.map(option => (
+              <button
+                key={option.tone}
+                role="radio"
+                aria-checked={tone === option.tone}
+                onClick={() => setTone(option.tone)}
+                className={`px-3 py-1 text-sm font-semibold rounded-md transition-all duration-200 ${tone === option.tone ? 'bg-white dark:bg-gray-800 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600/50'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating}
+            className="flex items-center space-x-2 px-4 py-2 text-sm bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            <SparklesIcon className="w-4 h-4" />
+            <span>{isGenerating ? 'Writing...' : body ? 'Rewrite' : 'Write draft'}</span>
+          </button>
+        </div>
+        {error && (
+          <p className="flex items-center space-x-2 text-sm text-red-600 dark:text-red-400" role="alert">
+            <AlertIcon className="w-4 h-4 flex-shrink-0" />
+            <span>{error}</span>
+          </p>
+        )}
+        <div>
+          <label htmlFor="reply-subject" className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Subject</label>
+          <input id="reply-subject" type="text" value={subject} onChange={(e) => handleEdit({ subject: e.target.value })} className={inputClassName} />
+        </div>
+        <div>
+          <label htmlFor="reply-body" className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Message</label>
+          <textarea
+            id="reply-body"
+            value={body}
+            onChange={(e) => handleEdit({ body: e.target.value })}
+            rows={12}
+            placeholder="Write the reply yourself, or let the AI draft it."
+            className={`${inputClassName} font-sans resize-y`}
+          />
+          {draft && <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Saved in this browser {new Date(draft.updatedAt).toLocaleString()}.</p>}
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => downloadFile(draftToEml(toDraft(), userEmail), emlFileName(toDraft()), 'message/rfc822')}
+            disabled={!body.trim()}
+            className={`${secondaryButtonClassName} flex items-center space-x-2`}
+          >
+            <DownloadIcon className="w-4 h-4" />
+            <span>Download .eml</span>
+          </button>
+          <button onClick={() => navigator.clipboard.writeText(body)} disabled={!body.trim()} className={secondaryButtonClassName}>Copy text</button>
+          {draft && (
+            <button onClick={handleDiscard} className="text-sm font-semibold text-red-600 dark:text-red-400 hover:underline">Discard draft</button>
+          )}
+          <button onClick={onClose} className="ml-auto px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-semibold rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors duration-200">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplyComposer;
@@ -1,15 +1,61 @@
-import React from 'react';
-import type { OrganizedEmailGroup, SortOrder } from '../types';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import type { AliasSuggestion, AttachmentContents, Contact, Digest, EmailOrganizerProvider, GroupMode, IdentitySettings, MailboxClient, OrganizedEmailGroup, OrganizeProgress, RedactionEntry, ReplyDraft, ReplyTarget, ResultsFilter, ResultsTab, SortOrder, Subscription, ThreadSummaries, TriageCommand, ValidationIssue } from '../types';
+import { buildGroupViews, withSender } from '../services/emailGrouping';
+import { collectTasks } from '../services/tasks';
+import { buildSubscriptions } from '../services/bulkMail';
+import { buildAttachmentInventory } from '../services/attachments';
+import { EMPTY_FILTER, filterGroups, listDomains, searchTerms } from '../services/search';
+import { isSuspicious } from '../services/phishing';
+import { buildThreads } from '../services/threading';
+import { buildTriageItems, cursorAfterRemoving, groupItemKey, moveCursor, triageCommandForKey } from '../services/triage';
 import EmailGroup from './EmailGroup';
-import { InboxIcon, AlertIcon } from './Icons';
+import ThreadGroup from './ThreadGroup';
+import TaskList from './TaskList';
+import SubscriptionList from './SubscriptionList';
+import AttachmentList from './AttachmentList';
+import Dashboard from './Dashboard';
+import DigestPanel from './DigestPanel';
+import ExportMenu from './ExportMenu';
+import SearchFilters from './SearchFilters';
+import MailboxActionBar from './MailboxActionBar';
+import ContactDetails from './ContactDetails';
+import AliasSuggestions from './AliasSuggestions';
+import ReplyComposer from './ReplyComposer';
+import RedactionAudit from './RedactionAudit';
+import ShortcutHelp from './ShortcutHelp';
+import { dismissAlias, findAliasSuggestions, mergeContacts, splitAddress, undoMerge } from '../services/identity';
+import { InboxIcon, AlertIcon, ChevronDownIcon } from './Icons';
 
 interface ResultsDisplayProps {
   isLoading: boolean;
+  progress: OrganizeProgress | null;
   error: string | null;
+  notice: string | null;
+  validationIssues: ValidationIssue[];
   data: OrganizedEmailGroup[] | null;
   sortOrder: SortOrder;
   setSortOrder: (order: SortOrder) => void;
-  onDeleteEmail: (senderEmail: string, emailIndex: number) => void;
+  groupMode: GroupMode;
+  setGroupMode: (mode: GroupMode) => void;
+  onDeleteEmail: (emailId: string) => void;
+  onRemoveEmails: (emailIds: string[]) => void;
+  completedTaskKeys: Set<string>;
+  onToggleTask: (key: string, completed: boolean) => void;
+  filter: ResultsFilter;
+  setFilter: (filter: ResultsFilter) => void;
+  threadSummaries: ThreadSummaries;
+  mailboxClient: MailboxClient;
+  userEmail: string;
+  contacts: Contact[]; // One per sender group in `data`
+  identity: IdentitySettings;
+  onIdentityChange: (identity: IdentitySettings) => void;
+  onHideSenders: (senderEmails: string[]) => void; // Hides their emails now and in later runs
+  provider: EmailOrganizerProvider; // Drafts replies and writes digests
+  redactions: RedactionEntry[]; // What was replaced in the text sent to the provider
+  attachmentContents: AttachmentContents; // For downloads; empty for runs opened from history
+  replyDrafts: Record<string, ReplyDraft>;
+  onSaveReplyDraft: (draft: ReplyDraft) => void;
+  onDiscardReplyDraft: (key: string) => void;
 }
 
 const LoadingSkeleton: React.FC = () => (
@@ -26,6 +72,53 @@ const LoadingSkeleton: React.FC = () => (
     </div>
 );
 
+const ProgressBar: React.FC<{ progress: OrganizeProgress }> = ({ progress }) => {
+    const percent = progress.totalChunks > 0 ? Math.round((progress.completedChunks / progress.totalChunks) * 100) : 0;
+    return (
+        <div className="mb-4">
+            <div className="flex justify-between text-sm font-medium text-gray-600 dark:text-gray-400 mb-1">
+                <span>Organizing...</span>
+                <span>{progress.completedChunks} of {progress.totalChunks} chunks</span>
+            </div>
+            <div
+                className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden"
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={progress.totalChunks}
+                aria-valuenow={progress.completedChunks}
+            >
+                <div className="h-full bg-blue-600 transition-all duration-300" style={{ width: `${percent}%` }}></div>
+            </div>
+        </div>
+    );
+};
+
+const ValidationIssueList: React.FC<{ issues: ValidationIssue[] }> = ({ issues }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    return (
+        <div className="text-sm text-yellow-800 dark:text-yellow-200 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full flex items-center justify-between p-3 text-left focus:outline-none focus:ring-2 focus:ring-inset focus:ring-yellow-500 rounded-lg"
+                aria-expanded={isOpen}
+            >
+                <span className="flex items-center space-x-2">
+                    <AlertIcon className="w-5 h-5 flex-shrink-0"/>
+                    <span>{issues.length} item{issues.length > 1 ? 's' : ''} in the AI output could not be validated and {issues.length > 1 ? 'were' : 'was'} skipped or left incomplete.</span>
+                </span>
+                <ChevronDownIcon className={`w-4 h-4 flex-shrink-0 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />
+            </button>
+            {isOpen && (
+                <ul className="px-4 pb-3 space-y-1 list-disc list-inside">
+                    {issues.map((issue, index) => (
+                        <li key={index}><code className="font-mono text-xs">{issue.path}</code> {issue.message}</li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
 const SortControls: React.FC<{ sortOrder: SortOrder; setSortOrder: (order: SortOrder) => void; }> = ({ sortOrder, setSortOrder }) => (
     <div className="flex items-center space-x-2 md:space-x-4">
         <span className="text-sm font-medium text-gray-600 dark:text-gray-400">Sort by:</span>
@@ -48,10 +141,257 @@ const SortControls: React.FC<{ sortOrder: SortOrder; setSortOrder: (order: SortO
     </div>
 );
 
+const GROUP_MODES: { mode: GroupMode; label: string }[] = [
+    { mode: 'sender', label: 'Sender' },
+    { mode: 'category', label: 'Category' },
+    { mode: 'priority', label: 'Priority' },
+    { mode: 'thread', label: 'Thread' },
+];
+
+const GroupModeControls: React.FC<{ groupMode: GroupMode; setGroupMode: (mode: GroupMode) => void; }> = ({ groupMode, setGroupMode }) => (
+    <div className="flex items-center space-x-2 md:space-x-4">
+        <span className="text-sm font-medium text-gray-600 dark:text-gray-400">Group by:</span>
+        <div className="flex items-center space-x-1 p-1 bg-gray-100 dark:bg-gray-700 rounded-lg">
+            {GROUP_MODES.map(({ mode, label }) => (
+                <button
+                    key={mode}
+                    onClick={() => setGroupMode(mode)}
+                    className={`px-3 py-1 text-sm font-semibold rounded-md transition-all duration-200 ${groupMode === mode ? 'bg-white dark:bg-gray-800 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600/50'}`}
+                    aria-pressed={groupMode === mode}
+                >
+                    {label}
+                </button>
+            ))}
+        </div>
+    </div>
+);
+
+const RESULTS_TABS: [ResultsTab, string][] = [['emails', 'Emails'], ['tasks', 'Tasks'], ['subscriptions', 'Subscriptions'], ['attachments', 'Attachments'], ['digest', 'Digest'], ['insights', 'Insights']];
+const RESULTS_PANEL_ID = 'results-panel';
+const resultsTabId = (tab: ResultsTab) => `results-tab-${tab}`;
+
+const ResultsTabs: React.FC<{ tab: ResultsTab; setTab: (tab: ResultsTab) => void; counts: Partial<Record<ResultsTab, number>> }> = ({ tab, setTab, counts }) => {
+    // Arrow keys, Home and End move between the tabs; only the selected tab is in the tab order.
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        const index = RESULTS_TABS.findIndex(([id]) => id === tab);
+        const targets: Record<string, number> = { ArrowRight: index + 1, ArrowLeft: index - 1, Home: 0, End: RESULTS_TABS.length - 1 };
+        if (!(e.key in targets)) return;
+        e.preventDefault();
+        const [next] = RESULTS_TABS[(targets[e.key] + RESULTS_TABS.length) % RESULTS_TABS.length];
+        setTab(next);
+        document.getElementById(resultsTabId(next))?.focus();
+    };
+
+    return (
+        <div className="flex space-x-1 border-b border-gray-200 dark:border-gray-700" role="tablist" aria-label="Results" onKeyDown={handleKeyDown}>
+            {RESULTS_TABS.map(([id, label]) => (
+                <button
+                    key={id}
+                    id={resultsTabId(id)}
+                    role="tab"
+                    aria-selected={tab === id}
+                    aria-controls={RESULTS_PANEL_ID}
+                    tabIndex={tab === id ? 0 : -1}
+                    onClick={() => setTab(id)}
+                    className={`px-4 py-2 text-sm font-semibold border-b-2 -mb-px transition-colors duration-200 ${tab === id ? 'border-blue-600 text-blue-600 dark:text-blue-400' : 'border-transparent text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200'}`}
+                >
+                    {label} {counts[id] !== undefined && <span className="ml-1 text-xs font-medium text-gray-500 dark:text-gray-400">{counts[id]}</span>}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+const TriageBar: React.FC<{ isActive: boolean; status: string; onStart: () => void; onStop: () => void; onShowShortcuts: () => void }> = ({ isActive, status, onStart, onStop, onShowShortcuts }) => {
+    if (!isActive) {
+        return (
+            <button
+                onClick={onStart}
+                className="text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+                aria-pressed={false}
+                title="Work through the emails with the keyboard: j and k to move, ? for all shortcuts"
+            >
+                Keyboard triage
+            </button>
+        );
+    }
+    return (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 p-3 text-sm text-blue-800 dark:text-blue-200 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
+            <span className="font-semibold">Keyboard triage</span>
+            <span>j/k to move, o to expand or collapse, x to select, # to delete, c to copy, / to search.</span>
+            <button onClick={onShowShortcuts} className="font-semibold hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded">All shortcuts (?)</button>
+            <button onClick={onStop} className="font-semibold hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded" aria-pressed={true}>Exit (Esc)</button>
+            <span role="status" className="basis-full text-xs">{status}</span>
+        </div>
+    );
+};
+
+const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ isLoading, progress, error, notice, validationIssues, data, sortOrder, setSortOrder, groupMode, setGroupMode, onDeleteEmail, onRemoveEmails, completedTaskKeys, onToggleTask, filter, setFilter, threadSummaries, mailboxClient, userEmail, contacts, identity, onIdentityChange, onHideSenders, provider, replyDrafts, onSaveReplyDraft, onDiscardReplyDraft, redactions, attachmentContents }) => {
+  const [tab, setTab] = useState<ResultsTab>('emails');
+  const [focusedEmailId, setFocusedEmailId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const [replyTarget, setReplyTarget] = useState<ReplyTarget | null>(null);
+  const [digest, setDigest] = useState<Digest | null>(null);
+  const [collapsedViews, setCollapsedViews] = useState<Set<string>>(() => new Set());
+  const [triageMode, setTriageMode] = useState(false);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [triageStatus, setTriageStatus] = useState('');
+  const searchRef = useRef<HTMLInputElement>(null);
+  const filteredData = useMemo(() => (data ? filterGroups(data, filter) : []), [data, filter]);
+  const domains = useMemo(() => (data ? listDomains(data) : []), [data]);
+  const suspiciousCount = useMemo(() => (data || []).reduce((count, group) => count + group.emails.filter(isSuspicious).length, 0), [data]);
+  const terms = useMemo(() => searchTerms(filter.query), [filter.query]);
+  const views = useMemo(() => (groupMode === 'thread' ? [] : buildGroupViews(filteredData, groupMode, sortOrder)), [filteredData, groupMode, sortOrder]);
+  const threads = useMemo(() => (groupMode === 'thread' ? buildThreads(filteredData, threadSummaries, sortOrder) : []), [filteredData, groupMode, sortOrder, threadSummaries]);
+  const tasks = useMemo(() => collectTasks(filteredData), [filteredData]);
+  const subscriptions = useMemo(() => buildSubscriptions(filteredData), [filteredData]);
+  const attachments = useMemo(() => buildAttachmentInventory(filteredData), [filteredData]);
+  // Selecting is only offered once some of the results came from Gmail.
+  const canSelect = useMemo(() => !!data && data.some(group => group.emails.some(email => email.remoteId)), [data]);
+  const selectedEmails = useMemo(() => filteredData.flatMap(withSender).filter(email => selectedIds.has(email.id)), [filteredData, selectedIds]);
+  const draftKeys = useMemo(() => new Set(Object.keys(replyDrafts)), [replyDrafts]);
+  const contactsByAddress = useMemo(() => new Map(contacts.map(contact => [contact.address, contact])), [contacts]);
+  const aliasSuggestions = useMemo(() => findAliasSuggestions(contacts, identity), [contacts, identity]);
+  const triageItems = useMemo(() => buildTriageItems(views, collapsedViews), [views, collapsedViews]);
+  // Triage works on the email cards, so not on the other tabs or the thread timelines.
+  const isTriageActive = triageMode && tab === 'emails' && groupMode !== 'thread';
+  const countEmails = (groups: OrganizedEmailGroup[]) => groups.reduce((total, group) => total + group.emails.length, 0);
+
+  useEffect(() => {
+    if (!focusedEmailId) return;
+    // Keep the highlight long enough to find the card after scrolling to it.
+    const timeoutId = setTimeout(() => setFocusedEmailId(null), 2500);
+    return () => clearTimeout(timeoutId);
+  }, [focusedEmailId]);
+
+  // A digest describes the results it was written from, so new results clear it.
+  useEffect(() => setDigest(null), [data]);
+
+  useEffect(() => {
+    if (!triageStatus) return;
+    const timeoutId = setTimeout(() => setTriageStatus(''), 3000);
+    return () => clearTimeout(timeoutId);
+  }, [triageStatus]);
+
+  const toggleView = (viewKey: string) => {
+    setCollapsedViews(current => {
+      const next = new Set(current);
+      if (!next.delete(viewKey)) {
+        next.add(viewKey);
+      }
+      return next;
+    });
+  };
+
+  const handleSelectEmails = (emailIds: string[], selected: boolean) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      emailIds.forEach(id => (selected ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const handleMergeSuggestion = (suggestion: AliasSuggestion) =>
+    onIdentityChange(mergeContacts(identity, suggestion.contacts[0], suggestion.contacts[1]));
+
+  // A resolved sender may stand for several addresses; all of them are hidden.
+  const handleHideSender = (subscription: Subscription) =>
+    onHideSenders(contactsByAddress.get(subscription.senderEmail)?.addresses || [subscription.senderEmail]);
+
+  const handleShowEmail = (emailId: string) => {
+    setTab('emails');
+    setFocusedEmailId(emailId);
+    const containing = views.filter(view => view.emails.some(email => email.id === emailId)).map(view => view.key);
+    setCollapsedViews(current => new Set([...current].filter(key => !containing.includes(key))));
+  };
+
+  const startTriage = () => {
+    setTriageMode(true);
+    setCursor(current => (triageItems.some(item => item.key === current) ? current : triageItems[0]?.key ?? null));
+  };
+
+  const runTriageCommand = (command: TriageCommand) => {
+    const item = triageItems.find(candidate => candidate.key === cursor);
+    const view = item && views.find(candidate => candidate.key === item.viewKey);
+    const email = item?.emailId ? view?.emails.find(candidate => candidate.id === item.emailId) : undefined;
+    switch (command) {
+      case 'next':
+      case 'previous':
+        setCursor(moveCursor(triageItems, cursor, command === 'next' ? 1 : -1));
+        break;
+      case 'toggle-group':
+        if (view) {
+          toggleView(view.key);
+          // Collapsing leaves the cursor on the group; expanding moves it to the group's first email.
+          setCursor(email ? groupItemKey(view.key) : view.emails[0]?.id ?? null);
+        }
+        break;
+      case 'select': {
+        if (!view) break;
+        // On a collapsed group, the whole group is selected or deselected.
+        const ids = (email ? [email] : view.emails).filter(candidate => candidate.remoteId).map(candidate => candidate.id);
+        if (!canSelect || ids.length === 0) {
+          setTriageStatus('Only emails fetched from Gmail can be selected.');
+          break;
+        }
+        handleSelectEmails(ids, !ids.every(id => selectedIds.has(id)));
+        break;
+      }
+      case 'delete':
+        if (email) {
+          setCursor(cursorAfterRemoving(triageItems, email.id));
+          onDeleteEmail(email.id);
+          setTriageStatus(`Deleted "${email.subject || '(no subject)'}" from the results.`);
+        }
+        break;
+      case 'copy':
+        if (email) {
+          navigator.clipboard.writeText(`Subject: ${email.subject}\n\n${email.summary}`)
+            .then(
+              () => setTriageStatus(`Copied the summary of "${email.subject || '(no subject)'}".`),
+              () => setTriageStatus("Couldn't copy the summary to the clipboard."),
+            );
+        }
+        break;
+      case 'search':
+        searchRef.current?.focus();
+        break;
+      case 'help':
+        setShowShortcuts(true);
+        break;
+      case 'exit':
+        setTriageMode(false);
+        break;
+    }
+  };
+
+  // The listener is attached once per triage session; it reads the latest command handler from a ref.
+  const runTriageCommandRef = useRef(runTriageCommand);
+  runTriageCommandRef.current = runTriageCommand;
+  const isListening = isTriageActive && !showShortcuts && !replyTarget;
+
+  useEffect(() => {
+    if (!isListening) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const command = triageCommandForKey(e);
+      if (command) {
+        e.preventDefault();
+        runTriageCommandRef.current(command);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isListening]);
 
-const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ isLoading, error, data, sortOrder, setSortOrder, onDeleteEmail }) => {
-  if (isLoading) {
-    return <LoadingSkeleton />;
+  // Once the first emails have streamed in they are shown, and more appear as they arrive.
+  if (isLoading && !data?.length) {
+    return (
+      <div>
+        {progress && progress.totalChunks > 1 && <ProgressBar progress={progress} />}
+        <LoadingSkeleton />
+      </div>
+    );
   }
 
   if (error) {
@@ -69,17 +409,20 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ isLoading, error, data,
       <div className="flex flex-col items-center justify-center text-center text-gray-500 dark:text-gray-400 p-10 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg">
         <InboxIcon className="w-16 h-16 mb-4"/>
         <h3 className="text-xl font-semibold">Your organized emails will appear here.</h3>
-        <p>Paste your content above and click "Organize Emails" to start.</p>
+        <p>Paste or import your emails above and click "Organize Emails" to start.</p>
       </div>
     );
   }
 
   if (data.length === 0) {
     return (
-        <div className="flex flex-col items-center justify-center text-center text-gray-500 dark:text-gray-400 p-10 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg">
-            <InboxIcon className="w-16 h-16 mb-4" />
-            <h3 className="text-xl font-semibold">No emails found.</h3>
-            <p>The AI couldn't find any valid emails in the provided content.</p>
+        <div className="space-y-4">
+            <div className="flex flex-col items-center justify-center text-center text-gray-500 dark:text-gray-400 p-10 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg">
+                <InboxIcon className="w-16 h-16 mb-4" />
+                <h3 className="text-xl font-semibold">No emails found.</h3>
+                <p>{notice ?? "The AI couldn't find any valid emails in the provided content."}</p>
+            </div>
+            {validationIssues.length > 0 && <ValidationIssueList issues={validationIssues} />}
         </div>
     );
   }
@@ -87,15 +430,123 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ isLoading, error, data,
 
   return (
     <div className="space-y-4">
+      {isLoading && (
+        progress && progress.totalChunks > 1
+          ? <ProgressBar progress={progress} />
+          : <p className="text-sm font-medium text-gray-600 dark:text-gray-400 animate-pulse" role="status">Organizing... more emails will appear as they arrive.</p>
+      )}
        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
         <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200">Organized Emails</h2>
         {data.length > 0 && (
-             <SortControls sortOrder={sortOrder} setSortOrder={setSortOrder} />
+          <div className="flex flex-wrap items-center gap-4">
+            <GroupModeControls groupMode={groupMode} setGroupMode={setGroupMode} />
+            <SortControls sortOrder={sortOrder} setSortOrder={setSortOrder} />
+            <ExportMenu groups={filteredData} groupMode={groupMode} sortOrder={sortOrder} threadSummaries={threadSummaries} />
+          </div>
+        )}
+      </div>
+      {notice && (
+        <div className="flex items-center space-x-2 text-sm text-yellow-800 dark:text-yellow-200 bg-yellow-50 dark:bg-yellow-900/20 p-3 rounded-lg">
+          <AlertIcon className="w-5 h-5 flex-shrink-0"/>
+          <span>{notice}</span>
+        </div>
+      )}
+      {validationIssues.length > 0 && <ValidationIssueList issues={validationIssues} />}
+      {redactions.length > 0 && <RedactionAudit entries={redactions} providerLabel={provider.label} />}
+      <SearchFilters filter={filter} setFilter={setFilter} domains={domains} matchCount={countEmails(filteredData)} totalCount={countEmails(data)} suspiciousCount={suspiciousCount} searchRef={searchRef} />
+      <ResultsTabs tab={tab} setTab={setTab} counts={{ emails: countEmails(filteredData), tasks: tasks.length, subscriptions: subscriptions.length, attachments: attachments.length }} />
+      <div id={RESULTS_PANEL_ID} role="tabpanel" aria-labelledby={resultsTabId(tab)} className="space-y-4">
+        {filteredData.length === 0 && (
+          <div className="flex flex-col items-center justify-center text-center text-gray-500 dark:text-gray-400 p-10 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg">
+            <InboxIcon className="w-12 h-12 mb-4" />
+            <h3 className="text-xl font-semibold">No emails match these filters.</h3>
+            <button onClick={() => setFilter(EMPTY_FILTER)} className="mt-2 font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+              Clear filters
+            </button>
+          </div>
+        )}
+        <MailboxActionBar
+          selectedEmails={selectedEmails}
+          client={mailboxClient}
+          userEmail={userEmail}
+          onClearSelection={() => setSelectedIds(new Set())}
+          onTrashed={onRemoveEmails}
+        />
+        {tab === 'emails' && groupMode !== 'thread' && filteredData.length > 0 && (
+          <TriageBar
+            isActive={isTriageActive}
+            status={triageStatus}
+            onStart={startTriage}
+            onStop={() => setTriageMode(false)}
+            onShowShortcuts={() => setShowShortcuts(true)}
+          />
+        )}
+        {showShortcuts && <ShortcutHelp onClose={() => setShowShortcuts(false)} />}
+        {tab === 'emails' && groupMode === 'sender' && aliasSuggestions.length > 0 && (
+          <AliasSuggestions
+            suggestions={aliasSuggestions}
+            onMerge={handleMergeSuggestion}
+            onDismiss={(suggestion) => onIdentityChange(dismissAlias(identity, suggestion))}
+          />
+        )}
+        {tab === 'emails' && views.map(view => {
+          const contact = groupMode === 'sender' && !view.mergedByRule ? contactsByAddress.get(view.emails[0]?.senderEmail) : undefined;
+          return (
+            <EmailGroup
+              key={view.key}
+              view={view}
+              onDeleteEmail={onDeleteEmail}
+              focusedEmailId={focusedEmailId}
+              searchTerms={terms}
+              selectedIds={canSelect ? selectedIds : null}
+              onSelectEmails={handleSelectEmails}
+              onDraftReply={setReplyTarget}
+              draftKeys={draftKeys}
+              isOpen={!collapsedViews.has(view.key)}
+              onToggle={() => toggleView(view.key)}
+              cursor={isTriageActive ? cursor : null}
+              onCursorChange={setCursor}
+            >
+              {contact && (
+                <ContactDetails
+                  contact={contact}
+                  contacts={contacts}
+                  onMerge={(other) => onIdentityChange(mergeContacts(identity, contact, other))}
+                  onSplit={(address) => onIdentityChange(splitAddress(identity, contact, address))}
+                  onUndoMerge={(mergeId) => onIdentityChange(undoMerge(identity, mergeId))}
+                />
+              )}
+            </EmailGroup>
+          );
+        })}
+        {tab === 'emails' && threads.map(thread => (
+          <ThreadGroup key={thread.id} thread={thread} onDeleteEmail={onDeleteEmail} focusedEmailId={focusedEmailId} searchTerms={terms} />
+        ))}
+        {tab === 'tasks' && filteredData.length > 0 && (
+          <TaskList tasks={tasks} completedKeys={completedTaskKeys} onToggleTask={onToggleTask} onShowEmail={handleShowEmail} />
+        )}
+        {tab === 'subscriptions' && filteredData.length > 0 && (
+          <SubscriptionList subscriptions={subscriptions} onHideSender={handleHideSender} />
+        )}
+        {tab === 'attachments' && filteredData.length > 0 && (
+          <AttachmentList entries={attachments} contents={attachmentContents} onShowEmail={handleShowEmail} />
+        )}
+        {tab === 'digest' && filteredData.length > 0 && (
+          <DigestPanel groups={filteredData} provider={provider} digest={digest} onDigestChange={setDigest} onShowEmail={handleShowEmail} />
         )}
+        {tab === 'insights' && filteredData.length > 0 && <Dashboard groups={filteredData} />}
       </div>
-      {data.map((group, index) => (
-        <EmailGroup key={`${group.senderEmail}-${index}`} group={group} onDeleteEmail={onDeleteEmail} />
-      ))}
+      {replyTarget && (
+        <ReplyComposer
+          target={replyTarget}
+          draft={replyDrafts[replyTarget.key] ?? null}
+          provider={provider}
+          userEmail={userEmail}
+          onSave={onSaveReplyDraft}
+          onDiscard={onDiscardReplyDraft}
+          onClose={() => setReplyTarget(null)}
+        />
+      )}
     </div>
   );
 };
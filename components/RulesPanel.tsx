@@ -0,0 +1,257 @@
+import React, { useState, useRef } from 'react';
+import type { EmailCategory, Rule, RuleAction, RuleCondition } from '../types';
+import { ACTION_TYPES, CONDITION_TYPES, createRule, describeAction, describeCondition, emptyAction, emptyCondition, exportRules, findRuleProblem, parseRulesFile } from '../services/rules';
+import { CATEGORY_LABELS, EMAIL_CATEGORIES, MAX_PRIORITY, MIN_PRIORITY, PRIORITY_LABELS } from '../services/categories';
+import { downloadFile } from '../services/exporters';
+import { ChevronDownIcon, FilterIcon, PencilIcon, TrashIcon } from './Icons';
+
+interface RulesPanelProps {
+  rules: Rule[];
+  onChange: (rules: Rule[]) => void;
+  disabled: boolean;
+}
+
+const inputClassName = "px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+const smallButtonClassName = "px-3 py-1.5 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-semibold rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200";
+const removeButtonClassName = "p-1.5 rounded-md text-gray-500 dark:text-gray-400 hover:bg-red-100 dark:hover:bg-red-900/40 hover:text-red-600 dark:hover:text-red-400 focus:outline-none focus:ring-2 focus:ring-red-500 transition-colors";
+
+const PRIORITIES = Array.from({ length: MAX_PRIORITY - MIN_PRIORITY + 1 }, (_, index) => MAX_PRIORITY - index);
+
+const ConditionFields: React.FC<{ condition: RuleCondition; onChange: (condition: RuleCondition) => void }> = ({ condition, onChange }) => {
+    switch (condition.type) {
+        case 'sender':
+            return <input type="text" value={condition.pattern} onChange={(e) => onChange({ ...condition, pattern: e.target.value })} placeholder="*@github.com" className={`${inputClassName} flex-1`} aria-label="Sender address pattern" />;
+        case 'domain':
+            return <input type="text" value={condition.domain} onChange={(e) => onChange({ ...condition, domain: e.target.value })} placeholder="example.com" className={`${inputClassName} flex-1`} aria-label="Sender domain" />;
+        case 'subject':
+            return <input type="text" value={condition.regex} onChange={(e) => onChange({ ...condition, regex: e.target.value })} placeholder="^\[JIRA\]" className={`${inputClassName} flex-1 font-mono`} aria-label="Subject regular expression" />;
+        case 'date':
+            return (
+                <>
+                    <input type="date" value={condition.from} max={condition.to || undefined} onChange={(e) => onChange({ ...condition, from: e.target.value })} className={inputClassName} aria-label="From date" />
+                    <span className="text-sm text-gray-500 dark:text-gray-400">and</span>
+                    <input type="date" value={condition.to} min={condition.from || undefined} onChange={(e) => onChange({ ...condition, to: e.target.value })} className={inputClassName} aria-label="To date" />
+                </>
+            );
+    }
+};
+
+const ActionFields: React.FC<{ action: RuleAction; onChange: (action: RuleAction) => void }> = ({ action, onChange }) => {
+    switch (action.type) {
+        case 'tag':
+            return <input type="text" value={action.tag} onChange={(e) => onChange({ ...action, tag: e.target.value })} placeholder="Dev" className={`${inputClassName} flex-1`} aria-label="Tag" />;
+        case 'setCategory':
+            return (
+                <select value={action.category} onChange={(e) => onChange({ ...action, category: e.target.value as EmailCategory })} className={inputClassName} aria-label="Category">
+                    {EMAIL_CATEGORIES.map(category => <option key={category} value={category}>{CATEGORY_LABELS[category]}</option>)}
+                </select>
+            );
+        case 'setPriority':
+            return (
+                <select value={action.priority} onChange={(e) => onChange({ ...action, priority: Number(e.target.value) })} className={inputClassName} aria-label="Priority">
+                    {PRIORITIES.map(priority => <option key={priority} value={priority}>{PRIORITY_LABELS[priority]}</option>)}
+                </select>
+            );
+        case 'mergeInto':
+            return <input type="text" value={action.groupName} onChange={(e) => onChange({ ...action, groupName: e.target.value })} placeholder="GitHub" className={`${inputClassName} flex-1`} aria-label="Group name" />;
+        case 'hide':
+        case 'skipSummary':
+            return null;
+    }
+};
+
+const RuleEditor: React.FC<{ rule: Rule; onSave: (rule: Rule) => void; onCancel: () => void }> = ({ rule, onSave, onCancel }) => {
+    const [draft, setDraft] = useState<Rule>(rule);
+    const problem = findRuleProblem(draft);
+
+    const updateCondition = (index: number, condition: RuleCondition) =>
+        setDraft({ ...draft, conditions: draft.conditions.map((existing, position) => (position === index ? condition : existing)) });
+    const updateAction = (index: number, action: RuleAction) =>
+        setDraft({ ...draft, actions: draft.actions.map((existing, position) => (position === index ? action : existing)) });
+
+    return (
+        <div className="p-3 space-y-3 bg-gray-50 dark:bg-gray-900/50 rounded-lg">
+            <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Rule name, e.g. GitHub to Dev"
+                className={`${inputClassName} w-full`}
+                aria-label="Rule name"
+            />
+            <fieldset className="space-y-2">
+                <legend className="text-sm font-medium text-gray-600 dark:text-gray-400 mb-1">When all of these match</legend>
+                {draft.conditions.map((condition, index) => (
+                    <div key={index} className="flex flex-wrap items-center gap-2">
+                        <select value={condition.type} onChange={(e) => updateCondition(index, emptyCondition(e.target.value as RuleCondition['type']))} className={inputClassName} aria-label="Condition">
+                            {CONDITION_TYPES.map(option => <option key={option.type} value={option.type}>{option.label}</option>)}
+                        </select>
+                        <ConditionFields condition={condition} onChange={(updated) => updateCondition(index, updated)} />
+                        <button onClick={() => setDraft({ ...draft, conditions: draft.conditions.filter((_, position) => position !== index) })} className={removeButtonClassName} aria-label="Remove condition">
+                            <TrashIcon className="w-4 h-4" />
+                        </button>
+                    </div>
+                ))}
+                <button onClick={() => setDraft({ ...draft, conditions: [...draft.conditions, emptyCondition('sender')] })} className="text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+                    + Add condition
+                </button>
+            </fieldset>
+            <fieldset className="space-y-2">
+                <legend className="text-sm font-medium text-gray-600 dark:text-gray-400 mb-1">Do this</legend>
+                {draft.actions.map((action, index) => (
+                    <div key={index} className="flex flex-wrap items-center gap-2">
+                        <select value={action.type} onChange={(e) => updateAction(index, emptyAction(e.target.value as RuleAction['type']))} className={inputClassName} aria-label="Action">
+                            {ACTION_TYPES.map(option => <option key={option.type} value={option.type}>{option.label}</option>)}
+                        </select>
+                        <ActionFields action={action} onChange={(updated) => updateAction(index, updated)} />
+                        <button onClick={() => setDraft({ ...draft, actions: draft.actions.filter((_, position) => position !== index) })} className={removeButtonClassName} aria-label="Remove action">
+                            <TrashIcon className="w-4 h-4" />
+                        </button>
+                    </div>
+                ))}
+                <button onClick={() => setDraft({ ...draft, actions: [...draft.actions, emptyAction('tag')] })} className="text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+                    + Add action
+                </button>
+            </fieldset>
+            {problem && <p className="text-sm text-yellow-700 dark:text-yellow-300">{problem}</p>}
+            <div className="flex gap-2">
+                <button
+                    onClick={() => onSave({ ...draft, name: draft.name.trim() })}
+                    disabled={!!problem}
+                    className="px-3 py-1.5 text-sm bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                    Save rule
+                </button>
+                <button onClick={onCancel} className={smallButtonClassName}>Cancel</button>
+            </div>
+        </div>
+    );
+};
+
+const RulesPanel: React.FC<RulesPanelProps> = ({ rules, onChange, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editing, setEditing] = useState<Rule | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const activeCount = rules.filter(rule => rule.enabled).length;
+
+  const handleSave = (saved: Rule) => {
+    onChange(rules.some(rule => rule.id === saved.id)
+      ? rules.map(rule => (rule.id === saved.id ? saved : rule))
+      : [...rules, saved]);
+    setEditing(null);
+  };
+
+  // Rules run in order, so a later rule can override an earlier one.
+  const moveRule = (index: number, offset: number) => {
+    const reordered = [...rules];
+    const [rule] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, rule);
+    onChange(reordered);
+  };
+
+  // Imported rules replace ones with the same ID and are otherwise added at the end.
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseRulesFile(await file.text());
+      const importedIds = new Set(imported.map(rule => rule.id));
+      onChange([...rules.filter(rule => !importedIds.has(rule.id)), ...imported]);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "The rules could not be imported.");
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-2 text-left text-sm hover:bg-gray-50 dark:hover:bg-gray-700/50 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500 rounded-lg"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center space-x-2 text-gray-700 dark:text-gray-300">
+          <FilterIcon className="w-4 h-4" />
+          <span className="font-semibold">Rules</span>
+          <span>{activeCount > 0 ? `${activeCount} active` : 'None'}</span>
+        </span>
+        <ChevronDownIcon className={`w-4 h-4 text-gray-500 dark:text-gray-400 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Rules run in order on every organize: before the AI provider, to hide emails or keep them from it, and afterwards, to tag, recategorize, reprioritize and regroup the results.
+          </p>
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          {rules.length > 0 && (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+              {rules.map((rule, index) => (
+                <li key={rule.id} className="px-3 py-2 text-sm">
+                  {editing?.id === rule.id ? (
+                    <RuleEditor rule={editing} onSave={handleSave} onCancel={() => setEditing(null)} />
+                  ) : (
+                    <div className="flex items-center gap-3">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={(e) => onChange(rules.map(existing => (existing.id === rule.id ? { ...existing, enabled: e.target.checked } : existing)))}
+                        disabled={disabled}
+                        className="rounded border-gray-300 dark:border-gray-600"
+                        aria-label={`Enable ${rule.name || 'untitled rule'}`}
+                      />
+                      <div className={`flex-1 min-w-0 ${rule.enabled ? '' : 'opacity-50'}`}>
+                        <p className="font-medium text-gray-800 dark:text-gray-200 truncate">{rule.name || 'Untitled rule'}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          If {rule.conditions.map(describeCondition).join(' and ')}: {rule.actions.map(describeAction).join(', ')}
+                        </p>
+                      </div>
+                      <button onClick={() => moveRule(index, -1)} disabled={disabled || index === 0} className="px-1.5 text-gray-500 dark:text-gray-400 disabled:opacity-30" aria-label={`Move ${rule.name || 'untitled rule'} up`}>↑</button>
+                      <button onClick={() => moveRule(index, 1)} disabled={disabled || index === rules.length - 1} className="px-1.5 text-gray-500 dark:text-gray-400 disabled:opacity-30" aria-label={`Move ${rule.name || 'untitled rule'} down`}>↓</button>
+                      <button
+                        onClick={() => setEditing(rule)}
+                        disabled={disabled}
+                        className="p-1.5 rounded-md text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+                        aria-label={`Edit ${rule.name || 'untitled rule'}`}
+                      >
+                        <PencilIcon className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => onChange(rules.filter(existing => existing.id !== rule.id))} disabled={disabled} className={removeButtonClassName} aria-label={`Delete ${rule.name || 'untitled rule'}`}>
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          {editing && !rules.some(rule => rule.id === editing.id) && (
+            <RuleEditor rule={editing} onSave={handleSave} onCancel={() => setEditing(null)} />
+          )}
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => setEditing(createRule())} disabled={disabled || !!editing} className={smallButtonClassName}>Add rule</button>
+            <button onClick={() => fileInputRef.current?.click()} disabled={disabled} className={smallButtonClassName}>Import JSON</button>
+            <button
+              onClick={() => downloadFile(exportRules(rules), 'mail-organizer-rules.json', 'application/json')}
+              disabled={rules.length === 0}
+              className={smallButtonClassName}
+            >
+              Export JSON
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RulesPanel;
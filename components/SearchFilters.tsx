@@ -0,0 +1,87 @@
+import React from 'react';
+import type { ResultsFilter } from '../types';
+import { EMPTY_FILTER, isFilterActive } from '../services/search';
+
+interface SearchFiltersProps {
+  filter: ResultsFilter;
+  setFilter: (filter: ResultsFilter) => void;
+  domains: { domain: string; count: number }[];
+  matchCount: number;
+  totalCount: number;
+  suspiciousCount: number; // Emails with a phishing warning, before filtering
+  searchRef: React.RefObject<HTMLInputElement | null>; // Focused by the "/" shortcut in triage mode
+}
+
+const inputClassName = "px-2 py-1.5 text-sm bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-md text-gray-800 dark:text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+const SearchFilters: React.FC<SearchFiltersProps> = ({ filter, setFilter, domains, matchCount, totalCount, suspiciousCount, searchRef }) => {
+  const update = (changes: Partial<ResultsFilter>) => setFilter({ ...filter, ...changes });
+  const active = isFilterActive(filter);
+
+  return (
+    <div className="space-y-3 p-3 bg-gray-50 dark:bg-gray-900/50 rounded-lg">
+      <input
+        ref={searchRef}
+        type="search"
+        value={filter.query}
+        onChange={(e) => update({ query: e.target.value })}
+        placeholder="Search senders, subjects and summaries..."
+        className={`w-full ${inputClassName}`}
+        aria-label="Search organized emails"
+      />
+      <div className="flex flex-wrap items-end gap-3 text-sm text-gray-600 dark:text-gray-400">
+        <label className="flex flex-col space-y-1">
+          <span className="text-xs font-medium">From</span>
+          <input type="date" value={filter.dateFrom} max={filter.dateTo || undefined} onChange={(e) => update({ dateFrom: e.target.value })} className={inputClassName} />
+        </label>
+        <label className="flex flex-col space-y-1">
+          <span className="text-xs font-medium">To</span>
+          <input type="date" value={filter.dateTo} min={filter.dateFrom || undefined} onChange={(e) => update({ dateTo: e.target.value })} className={inputClassName} />
+        </label>
+        <label className="flex flex-col space-y-1">
+          <span className="text-xs font-medium">Sender domain</span>
+          <select value={filter.domain} onChange={(e) => update({ domain: e.target.value })} className={inputClassName}>
+            <option value="">All domains</option>
+            {/* Keep a domain from a bookmarked URL selectable even if these results don't include it. */}
+            {filter.domain && !domains.some(({ domain }) => domain === filter.domain) && (
+              <option value={filter.domain}>{filter.domain} (0)</option>
+            )}
+            {domains.map(({ domain, count }) => (
+              <option key={domain} value={domain}>{domain} ({count})</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col space-y-1">
+          <span className="text-xs font-medium">Min. emails per sender</span>
+          <input
+            type="number"
+            min={1}
+            value={filter.minGroupSize || ''}
+            placeholder="1"
+            onChange={(e) => update({ minGroupSize: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+            className={`w-24 ${inputClassName}`}
+          />
+        </label>
+        <label className="flex items-center space-x-2 pb-1.5">
+          <input
+            type="checkbox"
+            checked={filter.suspiciousOnly}
+            onChange={(e) => update({ suspiciousOnly: e.target.checked })}
+            className="rounded border-gray-300 dark:border-gray-600"
+          />
+          <span>Suspicious only ({suspiciousCount})</span>
+        </label>
+        {active && (
+          <div className="flex items-center gap-3 pb-1.5">
+            <span>{matchCount} of {totalCount} emails</span>
+            <button onClick={() => setFilter(EMPTY_FILTER)} className="font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+              Clear filters
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SearchFilters;
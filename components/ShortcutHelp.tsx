@@ -0,0 +1,59 @@
+import React, { useEffect, useRef } from 'react';
+import { TRIAGE_SHORTCUTS } from '../services/triage';
+
+interface ShortcutHelpProps {
+  onClose: () => void;
+}
+
+const KEY_LABELS: Record<string, string> = { ArrowDown: '↓', ArrowUp: '↑', Escape: 'Esc' };
+
+// The cheat sheet for keyboard triage mode.
+const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ onClose }) => {
+  const closeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    const previousFocus = document.activeElement as HTMLElement | null;
+    closeRef.current?.focus();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' || e.key === '?') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      previousFocus?.focus();
+    };
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50" onMouseDown={(e) => e.target === e.currentTarget && onClose()}>
+      <div className="w-full max-w-md p-6 bg-white dark:bg-gray-800 rounded-lg shadow-xl" role="dialog" aria-modal="true" aria-labelledby="shortcut-help-title">
+        <h3 id="shortcut-help-title" className="text-lg font-bold text-gray-800 dark:text-gray-100">Keyboard shortcuts</h3>
+        <dl className="mt-4 grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+          {TRIAGE_SHORTCUTS.map(({ keys, command, description }) => (
+            <React.Fragment key={command}>
+              <dt className="flex gap-1">
+                {keys.map(key => (
+                  <kbd key={key} className="min-w-[1.75rem] px-1.5 py-0.5 text-center font-mono text-xs bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-800 dark:text-gray-200">
+                    {KEY_LABELS[key] ?? key}
+                  </kbd>
+                ))}
+              </dt>
+              <dd className="text-gray-600 dark:text-gray-300">{description}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+        <div className="mt-6 flex justify-end">
+          <button
+            ref={closeRef}
+            onClick={onClose}
+            className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-semibold rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 dark:focus:ring-offset-gray-800 transition-colors duration-200"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutHelp;
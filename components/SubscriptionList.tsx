@@ -0,0 +1,72 @@
+import React from 'react';
+import type { Subscription } from '../types';
+import { MailIcon } from './Icons';
+
+interface SubscriptionListProps {
+  subscriptions: Subscription[];
+  onHideSender: (subscription: Subscription) => void;
+}
+
+const formatDate = (date: string): string =>
+    date ? new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' }) : 'no date';
+
+// "Unsubscribe (example.com)" for web links, "Unsubscribe by email" for mailto: ones.
+const describeLink = (link: string): string => {
+    if (link.toLowerCase().startsWith('mailto:')) {
+        return 'Unsubscribe by email';
+    }
+    try {
+        return `Unsubscribe (${new URL(link).hostname})`;
+    } catch {
+        return 'Unsubscribe';
+    }
+};
+
+const SubscriptionList: React.FC<SubscriptionListProps> = ({ subscriptions, onHideSender }) => {
+  if (subscriptions.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center text-center text-gray-500 dark:text-gray-400 p-10 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg">
+        <MailIcon className="w-12 h-12 mb-4" />
+        <h3 className="text-xl font-semibold">No subscriptions found.</h3>
+        <p>None of these emails look like newsletters or other bulk mail.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+      <p className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+        Links open the sender's own unsubscribe page or a prepared email; nothing is sent from here.
+      </p>
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {subscriptions.map(subscription => (
+          <li key={subscription.mergedByRule ? `rule:${subscription.senderName}` : subscription.senderEmail} className="flex flex-wrap items-center gap-x-4 gap-y-2 p-3">
+            <div className="flex-1 min-w-[12rem]">
+              <p className="text-sm font-semibold text-gray-800 dark:text-gray-200 truncate">{subscription.senderName || subscription.senderEmail || 'Unknown sender'}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                {subscription.senderName && !subscription.mergedByRule && `${subscription.senderEmail} · `}
+                {subscription.count} email{subscription.count === 1 ? '' : 's'}, latest {formatDate(subscription.latestDate)}
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              {subscription.unsubscribeLinks.map(link => (
+                <a key={link} href={link} target="_blank" rel="noopener noreferrer" className="font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+                  {describeLink(link)}
+                </a>
+              ))}
+              {subscription.unsubscribeLinks.length === 0 && <span className="text-xs text-gray-500 dark:text-gray-400">No unsubscribe link found</span>}
+              {/* A rule-merged group has several senders, so there's no one address to hide. */}
+              {!subscription.mergedByRule && (
+                <button onClick={() => onHideSender(subscription)} className="font-semibold text-gray-600 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:underline">
+                  Hide all from this sender
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SubscriptionList;
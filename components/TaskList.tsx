@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import type { TaskEntry } from '../types';
+import { formatDueDate, isOverdue } from '../services/dueDates';
+import { CalendarIcon, CheckIcon } from './Icons';
+
+interface TaskListProps {
+  tasks: TaskEntry[];
+  completedKeys: Set<string>;
+  onToggleTask: (key: string, completed: boolean) => void;
+  onShowEmail: (emailId: string) => void;
+}
+
+const DUE_DATE_FORMAT: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' };
+
+const TaskRow: React.FC<{ task: TaskEntry; completed: boolean; onToggle: (completed: boolean) => void; onShowEmail: () => void }> = ({ task, completed, onToggle, onShowEmail }) => {
+    const overdue = !completed && !!task.item.dueDate && isOverdue(task.item.dueDate);
+    return (
+        <li className="flex items-start gap-3 p-3">
+            <input
+                type="checkbox"
+                checked={completed}
+                onChange={(e) => onToggle(e.target.checked)}
+                className="mt-1 rounded border-gray-300 dark:border-gray-600"
+                aria-label={`Mark "${task.item.description}" as done`}
+            />
+            <div className="flex-1 min-w-0">
+                <p className={`text-sm ${completed ? 'line-through text-gray-400 dark:text-gray-500' : 'text-gray-800 dark:text-gray-200'}`}>
+                    {task.item.description}
+                </p>
+                <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    {task.item.dueDate && (
+                        <span className={`flex items-center space-x-1 ${overdue ? 'text-red-600 dark:text-red-400 font-semibold' : ''}`}>
+                            <CalendarIcon className="w-3.5 h-3.5" />
+                            <span>{overdue ? 'Overdue: ' : 'Due '}{formatDueDate(task.item.dueDate, DUE_DATE_FORMAT)}</span>
+                        </span>
+                    )}
+                    {task.item.owner && <span className="px-2 py-0.5 rounded-full bg-gray-200 dark:bg-gray-700">Owner: {task.item.owner}</span>}
+                    <button onClick={onShowEmail} className="text-blue-600 dark:text-blue-400 hover:underline truncate max-w-full text-left">
+                        {task.email.senderName || task.email.senderEmail}: {task.email.subject || '(no subject)'}
+                    </button>
+                </div>
+            </div>
+        </li>
+    );
+};
+
+const TaskList: React.FC<TaskListProps> = ({ tasks, completedKeys, onToggleTask, onShowEmail }) => {
+  const [hideCompleted, setHideCompleted] = useState(false);
+
+  if (tasks.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center text-center text-gray-500 dark:text-gray-400 p-10 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg">
+        <CheckIcon className="w-12 h-12 mb-4" />
+        <h3 className="text-xl font-semibold">No action items found.</h3>
+        <p>None of these emails ask for anything to be done.</p>
+      </div>
+    );
+  }
+
+  const doneCount = tasks.filter(task => completedKeys.has(task.key)).length;
+  const visibleTasks = hideCompleted ? tasks.filter(task => !completedKeys.has(task.key)) : tasks;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-600 dark:text-gray-400">
+        <span>{doneCount} of {tasks.length} done</span>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={hideCompleted}
+            onChange={(e) => setHideCompleted(e.target.checked)}
+            className="rounded border-gray-300 dark:border-gray-600"
+          />
+          <span>Hide completed</span>
+        </label>
+      </div>
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800">
+        {visibleTasks.map(task => (
+          <TaskRow
+            key={task.key}
+            task={task}
+            completed={completedKeys.has(task.key)}
+            onToggle={(completed) => onToggleTask(task.key, completed)}
+            onShowEmail={() => onShowEmail(task.email.id)}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default TaskList;
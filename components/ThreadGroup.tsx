@@ -0,0 +1,119 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { EmailThread, EmailWithSender } from '../types';
+import { normalizeSubject } from '../services/threading';
+import { ChevronDownIcon, SparklesIcon, TrashIcon } from './Icons';
+import Highlight from './Highlight';
+
+interface ThreadGroupProps {
+  thread: EmailThread;
+  onDeleteEmail: (emailId: string) => void;
+  focusedEmailId: string | null;
+  searchTerms: string[];
+}
+
+const formatDate = (date: string): string => (date ? new Date(date).toLocaleString() : 'No date found');
+
+const TimelineEntry: React.FC<{ email: EmailWithSender; threadTitle: string; isFocused: boolean; searchTerms: string[]; onDelete: () => void }> = ({ email, threadTitle, isFocused, searchTerms, onDelete }) => {
+    const entryRef = useRef<HTMLLIElement>(null);
+
+    useEffect(() => {
+        if (isFocused) {
+            entryRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        }
+    }, [isFocused]);
+
+    return (
+        <li ref={entryRef} className={`relative pl-6 pb-4 last:pb-0 group rounded-md ${isFocused ? 'ring-2 ring-blue-500' : ''}`}>
+            <span className="absolute -left-[7px] top-1.5 w-3 h-3 rounded-full bg-blue-500 ring-4 ring-white dark:ring-gray-800" aria-hidden="true"></span>
+            <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                    <p className="text-sm font-semibold text-gray-800 dark:text-gray-200">
+                        <Highlight text={email.senderName || email.senderEmail || 'Unknown sender'} terms={searchTerms} />
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{formatDate(email.date)}</p>
+                </div>
+                <button
+                    onClick={onDelete}
+                    className="p-1.5 rounded-md opacity-0 group-hover:opacity-100 text-gray-500 dark:text-gray-400 hover:bg-red-100 dark:hover:bg-red-900/40 hover:text-red-600 dark:hover:text-red-400 focus:opacity-100 focus:outline-none focus:ring-2 focus:ring-red-500 transition"
+                    aria-label="Delete email"
+                >
+                    <TrashIcon className="w-4 h-4" />
+                </button>
+            </div>
+            {/* Only repeat the subject when it was changed partway through the conversation. */}
+            {normalizeSubject(email.subject) !== normalizeSubject(threadTitle) && (
+                <p className="text-sm italic text-gray-700 dark:text-gray-300"><Highlight text={email.subject} terms={searchTerms} /></p>
+            )}
+            <p className="mt-1 text-sm text-gray-600 dark:text-gray-300 leading-relaxed"><Highlight text={email.summary} terms={searchTerms} /></p>
+        </li>
+    );
+};
+
+const ThreadGroup: React.FC<ThreadGroupProps> = ({ thread, onDeleteEmail, focusedEmailId, searchTerms }) => {
+  const [isOpen, setIsOpen] = useState(true);
+  const containsFocusedEmail = !!focusedEmailId && thread.emails.some(email => email.id === focusedEmailId);
+
+  useEffect(() => {
+    if (containsFocusedEmail) {
+      setIsOpen(true);
+    }
+  }, [containsFocusedEmail]);
+
+  const messageCount = thread.emails.length;
+  const dates = thread.emails.filter(email => email.date).map(email => email.date);
+  const dateRange = dates.length === 0 ? '' : dates.length === 1
+    ? new Date(dates[0]).toLocaleDateString()
+    : `${new Date(dates[0]).toLocaleDateString()} – ${new Date(dates[dates.length - 1]).toLocaleDateString()}`;
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden bg-white dark:bg-gray-800 shadow-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-start justify-between gap-3 p-4 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500"
+        aria-expanded={isOpen}
+      >
+        <div className="min-w-0">
+          <p className="font-bold text-lg text-gray-800 dark:text-gray-100"><Highlight text={thread.subject || '(no subject)'} terms={searchTerms} /></p>
+          <div className="flex flex-wrap gap-1 mt-1">
+            {thread.participants.map(participant => (
+              <span key={participant.email || participant.name} className="px-2 py-0.5 text-xs rounded-full bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200" title={participant.email}>
+                {participant.name || participant.email || 'Unknown sender'}
+              </span>
+            ))}
+          </div>
+          {dateRange && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{dateRange}</p>}
+        </div>
+        <div className="flex items-center space-x-3 flex-shrink-0">
+          <span className="text-sm font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 px-2.5 py-1 rounded-full">
+            {messageCount} message{messageCount > 1 ? 's' : ''}
+          </span>
+          <ChevronDownIcon className={`w-6 h-6 text-gray-500 dark:text-gray-400 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />
+        </div>
+      </button>
+      {isOpen && (
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 space-y-4">
+          {thread.summary && (
+            <div className="flex items-start space-x-2 p-3 text-sm bg-blue-50 dark:bg-blue-900/20 text-blue-900 dark:text-blue-100 rounded-lg">
+              <SparklesIcon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <p><Highlight text={thread.summary} terms={searchTerms} /></p>
+            </div>
+          )}
+          <ol className="relative border-l-2 border-gray-200 dark:border-gray-700 ml-1.5 pl-0">
+            {thread.emails.map(email => (
+              <TimelineEntry
+                key={email.id}
+                email={email}
+                threadTitle={thread.subject}
+                isFocused={email.id === focusedEmailId}
+                searchTerms={searchTerms}
+                onDelete={() => onDeleteEmail(email.id)}
+              />
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThreadGroup;
@@ -0,0 +1,112 @@
+import type { CountEntry, InboxAnalytics, OrganizedEmailGroup } from '../types';
+import { senderDomain } from './search';
+import { buildThreads } from './threading';
+
+const TOP_COUNT = 10;
+
+// Past these spans the volume chart switches to coarser periods so the bars stay readable.
+const MAX_DAILY_SPAN_DAYS = 62;
+const MAX_WEEKLY_SPAN_DAYS = 370;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const topEntries = (counts: Map<string, number>): CountEntry[] =>
+    [...counts.entries()]
+        .map(([label, count]) => ({ label, count }))
+        .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+        .slice(0, TOP_COUNT);
+
+// Local midnight at the start of the period containing `date`; weeks start on Monday.
+const periodStart = (date: Date, bucket: InboxAnalytics['volume']['bucket']): Date => {
+    const start = new Date(date.getFullYear(), date.getMonth(), bucket === 'month' ? 1 : date.getDate());
+    if (bucket === 'week') {
+        start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+    }
+    return start;
+};
+
+const nextPeriod = (date: Date, bucket: InboxAnalytics['volume']['bucket']): Date => {
+    const next = new Date(date);
+    if (bucket === 'month') {
+        next.setMonth(next.getMonth() + 1);
+    } else {
+        next.setDate(next.getDate() + (bucket === 'week' ? 7 : 1));
+    }
+    return next;
+};
+
+const periodLabel = (date: Date, bucket: InboxAnalytics['volume']['bucket']): string =>
+    bucket === 'month'
+        ? date.toLocaleDateString(undefined, { month: 'short', year: 'numeric' })
+        : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const buildVolume = (dates: Date[]): InboxAnalytics['volume'] => {
+    if (dates.length === 0) {
+        return { bucket: 'day', entries: [] };
+    }
+    const times = dates.map(date => date.getTime());
+    const first = new Date(Math.min(...times));
+    const last = new Date(Math.max(...times));
+    const spanDays = (last.getTime() - first.getTime()) / DAY_MS;
+    const bucket = spanDays <= MAX_DAILY_SPAN_DAYS ? 'day' : spanDays <= MAX_WEEKLY_SPAN_DAYS ? 'week' : 'month';
+
+    const counts = new Map<number, number>();
+    for (const date of dates) {
+        const key = periodStart(date, bucket).getTime();
+        counts.set(key, (counts.get(key) || 0) + 1);
+    }
+    const entries: CountEntry[] = [];
+    for (let period = periodStart(first, bucket); period <= last; period = nextPeriod(period, bucket)) {
+        entries.push({ label: periodLabel(period, bucket), count: counts.get(period.getTime()) || 0 });
+    }
+    return { bucket, entries };
+};
+
+/**
+ * Aggregates the given (already filtered) groups for the Insights tab: top senders and
+ * domains, volume over time, a weekday-by-hour heatmap, the share of bulk mail and the
+ * length of conversations.
+ */
+export const analyzeInbox = (groups: OrganizedEmailGroup[]): InboxAnalytics => {
+    const senders = new Map<string, number>();
+    const domains = new Map<string, number>();
+    const heatmap = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+    const dates: Date[] = [];
+    let totalEmails = 0;
+    let newsletters = 0;
+    let notifications = 0;
+
+    for (const group of groups) {
+        const sender = group.senderName || group.senderEmail || 'Unknown sender';
+        senders.set(sender, (senders.get(sender) || 0) + group.emails.length);
+        const domain = senderDomain(group.senderEmail) || 'Unknown domain';
+        domains.set(domain, (domains.get(domain) || 0) + group.emails.length);
+
+        for (const email of group.emails) {
+            totalEmails++;
+            if (email.category === 'newsletter') newsletters++;
+            if (email.category === 'notification') notifications++;
+            if (!email.date) continue;
+            const date = new Date(email.date);
+            dates.push(date);
+            heatmap[(date.getDay() + 6) % 7][date.getHours()]++;
+        }
+    }
+
+    const conversations = buildThreads(groups, {}, 'oldest').filter(thread => thread.emails.length > 1);
+    const lengths = conversations.map(thread => thread.emails.length);
+    return {
+        totalEmails,
+        undatedEmails: totalEmails - dates.length,
+        topSenders: topEntries(senders),
+        topDomains: topEntries(domains),
+        volume: buildVolume(dates),
+        heatmap,
+        bulkMail: { newsletters, notifications },
+        threads: {
+            count: conversations.length,
+            averageLength: lengths.length > 0 ? lengths.reduce((sum, length) => sum + length, 0) / lengths.length : 0,
+            longest: lengths.length > 0 ? Math.max(...lengths) : 0,
+        },
+    };
+};
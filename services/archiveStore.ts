@@ -0,0 +1,134 @@
+import type { ArchivedRun, OrganizedEmailGroup, ParsedEmail, ProviderSettings, Rule, ThreadSummaries } from '../types';
+import { mergeGroups } from './emailGrouping';
+import { DEFAULT_PRIORITY, kindForCategory } from './categories';
+import { NO_RISK } from './phishing';
+import { fillThreadIds } from './threading';
+
+const DB_NAME = 'mail-organizer';
+const DB_VERSION = 1;
+const RUNS_STORE = 'runs';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) {
+        return dbPromise;
+    }
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error("Local history isn't available: this browser doesn't support IndexedDB."));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const store = request.result.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+            store.createIndex('byUser', 'userSub');
+            store.createIndex('byUserAndHash', ['userSub', 'inputHash']);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+    return dbPromise;
+};
+
+// Fills in fields added to Email after a run was saved, so older runs still render.
+const normalizeRun = (run: ArchivedRun): ArchivedRun => ({
+    ...run,
+    threadSummaries: run.threadSummaries || {},
+    groups: fillThreadIds(run.groups.map(group => ({
+        ...group,
+        mergedByRule: group.mergedByRule || false,
+        emails: group.emails.map(email => ({
+            ...email,
+            id: email.id || crypto.randomUUID(),
+            category: email.category || 'other',
+            priority: email.priority || DEFAULT_PRIORITY,
+            priorityReason: email.priorityReason || '',
+            actionItems: email.actionItems || [],
+            threadId: email.threadId || '',
+            remoteId: email.remoteId || '',
+            tags: email.tags || [],
+            kind: email.kind || kindForCategory(email.category || 'other'),
+            unsubscribeLinks: email.unsubscribeLinks || [],
+            risk: email.risk || NO_RISK,
+            attachments: email.attachments || [],
+            language: email.language || '',
+            originalSummary: email.originalSummary || '',
+        })),
+    }))),
+});
+
+const runRequest = async <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const request = makeRequest(db.transaction(RUNS_STORE, mode).objectStore(RUNS_STORE));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Hashes everything that determines a run's result, so identical input with the same
+ * provider, model and rules can be answered from the archive instead of the model.
+ */
+export const hashInput = async (emailContent: string, importedEmails: ParsedEmail[], settings: ProviderSettings, rules: Rule[]): Promise<string> => {
+    const fingerprint = JSON.stringify({
+        text: emailContent.trim(),
+        imported: importedEmails.map(email => [email.messageId, email.senderEmail, email.subject, email.date, email.body, email.attachments.map(attachment => attachment.hash)]),
+        provider: settings.provider,
+        model: settings.model,
+        summaryLanguage: settings.summaryLanguage,
+        rules: rules.filter(rule => rule.enabled).map(({ conditions, actions }) => [conditions, actions]),
+    });
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(fingerprint));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Newest first.
+export const listRuns = async (userSub: string): Promise<ArchivedRun[]> => {
+    const runs = await runRequest<ArchivedRun[]>('readonly', store => store.index('byUser').getAll(userSub));
+    return runs.map(normalizeRun).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const findRunByHash = async (userSub: string, inputHash: string): Promise<ArchivedRun | null> => {
+    const run = await runRequest<ArchivedRun | undefined>('readonly', store => store.index('byUserAndHash').get([userSub, inputHash]));
+    return run ? normalizeRun(run) : null;
+};
+
+export const saveRun = async (userSub: string, inputHash: string, groups: OrganizedEmailGroup[], threadSummaries: ThreadSummaries, name?: string): Promise<ArchivedRun> => {
+    const createdAt = new Date();
+    const run: ArchivedRun = {
+        id: crypto.randomUUID(),
+        userSub,
+        name: name || `Run of ${createdAt.toLocaleString()}`,
+        inputHash,
+        createdAt: createdAt.toISOString(),
+        groups,
+        threadSummaries,
+    };
+    await runRequest('readwrite', store => store.put(run));
+    return run;
+};
+
+export const renameRun = async (run: ArchivedRun, name: string): Promise<ArchivedRun> => {
+    const renamed = { ...run, name };
+    await runRequest('readwrite', store => store.put(renamed));
+    return renamed;
+};
+
+export const deleteRun = async (id: string): Promise<void> => {
+    await runRequest('readwrite', store => store.delete(id));
+};
+
+/**
+ * Combines several runs into a new one, merging groups that share a sender.
+ * The merged run has no input hash of its own, so it is never used as a cache hit.
+ */
+export const mergeRuns = async (userSub: string, runs: ArchivedRun[], name: string): Promise<ArchivedRun> => {
+    const groups = runs.reduce<OrganizedEmailGroup[]>((merged, run) => mergeGroups(merged, run.groups), []);
+    const threadSummaries = Object.assign({}, ...runs.map(run => run.threadSummaries));
+    return saveRun(userSub, '', groups, threadSummaries, name);
+};
@@ -0,0 +1,225 @@
+import type { AttachmentContents, AttachmentInventoryEntry, OrganizedEmailGroup, ParsedEmail } from '../types';
+import { compareDates, withSender } from './emailGrouping';
+
+// First 32 bits of the fractional parts of the cube roots of the first 64 primes (FIPS 180-4).
+const SHA256_K = [
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+    0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+    0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+    0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+    0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+    0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+const rotateRight = (value: number, bits: number): number => (value >>> bits) | (value << (32 - bits));
+
+/**
+ * SHA-256 of some bytes as lowercase hex. Synchronous, unlike crypto.subtle, so attachments
+ * can be hashed while a message is parsed.
+ */
+export const sha256 = (bytes: Uint8Array): string => {
+    const bitLength = bytes.length * 8;
+    const padded = new Uint8Array(Math.ceil((bytes.length + 9) / 64) * 64);
+    padded.set(bytes);
+    padded[bytes.length] = 0x80;
+    const view = new DataView(padded.buffer);
+    view.setUint32(padded.length - 8, Math.floor(bitLength / 0x100000000));
+    view.setUint32(padded.length - 4, bitLength >>> 0);
+
+    const hash = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+    const words = new Array<number>(64);
+    for (let offset = 0; offset < padded.length; offset += 64) {
+        for (let i = 0; i < 16; i++) {
+            words[i] = view.getUint32(offset + i * 4);
+        }
+        for (let i = 16; i < 64; i++) {
+            const s0 = rotateRight(words[i - 15], 7) ^ rotateRight(words[i - 15], 18) ^ (words[i - 15] >>> 3);
+            const s1 = rotateRight(words[i - 2], 17) ^ rotateRight(words[i - 2], 19) ^ (words[i - 2] >>> 10);
+            words[i] = (words[i - 16] + s0 + words[i - 7] + s1) | 0;
+        }
+        let [a, b, c, d, e, f, g, h] = hash;
+        for (let i = 0; i < 64; i++) {
+            const t1 = (h + (rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + words[i]) | 0;
+            const t2 = ((rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+            [h, g, f, e, d, c, b, a] = [g, f, e, (d + t1) | 0, c, b, a, (t1 + t2) | 0];
+        }
+        [a, b, c, d, e, f, g, h].forEach((value, index) => {
+            hash[index] = (hash[index] + value) | 0;
+        });
+    }
+    return hash.map(value => (value >>> 0).toString(16).padStart(8, '0')).join('');
+};
+
+type TextAttachmentType = 'text' | 'csv' | 'calendar';
+
+/**
+ * Which of the summarized text formats an attachment is in, going by its type and
+ * then its file extension (mail clients often send CSV files as application/octet-stream).
+ */
+export const textAttachmentType = (mimeType: string, fileName: string): TextAttachmentType | null => {
+    const extension = fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] || '';
+    if (mimeType === 'text/calendar' || mimeType === 'application/ics' || extension === 'ics') {
+        return 'calendar';
+    }
+    if (mimeType === 'text/csv' || extension === 'csv') {
+        return 'csv';
+    }
+    if (mimeType === 'text/plain' || extension === 'txt') {
+        return 'text';
+    }
+    return null;
+};
+
+const MAX_SUMMARY_CHARS = 160;
+
+const shorten = (text: string): string =>
+    text.length > MAX_SUMMARY_CHARS ? `${text.slice(0, MAX_SUMMARY_CHARS - 1).trimEnd()}…` : text;
+
+const plural = (count: number, word: string): string => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const summarizePlainText = (text: string): string => {
+    const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+    if (lines.length === 0) {
+        return 'Empty text file.';
+    }
+    return shorten(`${plural(lines.length, 'line')}, starting "${lines[0]}"`);
+};
+
+// Splits one CSV line, honouring quoted cells; the delimiter is whichever the header row uses most.
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+    const cells: string[] = [];
+    let current = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '"' && quoted && line[i + 1] === '"') {
+            current += '"';
+            i++;
+        } else if (char === '"') {
+            quoted = !quoted;
+        } else if (char === delimiter && !quoted) {
+            cells.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    cells.push(current.trim());
+    return cells;
+};
+
+const summarizeCsv = (text: string): string => {
+    const lines = text.split('\n').filter(line => line.trim() !== '');
+    if (lines.length === 0) {
+        return 'Empty spreadsheet.';
+    }
+    const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+        lines[0].split(candidate).length > lines[0].split(best).length ? candidate : best);
+    const columns = splitCsvLine(lines[0], delimiter).filter(Boolean);
+    return shorten(`Spreadsheet with ${plural(lines.length - 1, 'row')} and columns ${columns.join(', ')}`);
+};
+
+// "20240730T100000Z" or "20240730" as "2024-07-30 10:00 UTC" or "2024-07-30".
+const formatIcsDate = (value: string): string => {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z?))?$/);
+    if (!match) {
+        return value;
+    }
+    const [, year, month, day, hour, minute, utc] = match;
+    return `${year}-${month}-${day}${hour ? ` ${hour}:${minute}${utc ? ' UTC' : ''}` : ''}`;
+};
+
+const unescapeIcsText = (text: string): string =>
+    text.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+const summarizeCalendar = (text: string): string => {
+    // Continuation lines start with a space or tab.
+    const lines = text.replace(/\n[ \t]/g, '').split('\n');
+    const cancelled = lines.some(line => /^METHOD:CANCEL/i.test(line.trim()));
+    const events: string[] = [];
+    let event: Record<string, string> | null = null;
+    for (const line of lines.map(candidate => candidate.trim())) {
+        if (/^BEGIN:VEVENT$/i.test(line)) {
+            event = {};
+        } else if (/^END:VEVENT$/i.test(line) && event) {
+            events.push([event.summary ? unescapeIcsText(event.summary) : 'Untitled event', event.dtstart && formatIcsDate(event.dtstart), event.location && `at ${unescapeIcsText(event.location)}`]
+                .filter(Boolean).join(', '));
+            event = null;
+        } else if (event) {
+            const property = line.match(/^([A-Za-z-]+)(?:;[^:]*)?:(.*)$/);
+            if (property) {
+                event[property[1].toLowerCase()] = property[2];
+            }
+        }
+    }
+    if (events.length === 0) {
+        return 'Calendar file without events.';
+    }
+    const more = events.length > 2 ? ` and ${plural(events.length - 2, 'more event')}` : '';
+    return shorten(`${cancelled ? 'Cancelled' : 'Calendar'} event: ${events.slice(0, 2).join('; ')}${more}`);
+};
+
+/**
+ * A one-line description of a text, CSV or calendar attachment, written locally: the first
+ * line of a text file, the columns of a spreadsheet, or the events of an invitation.
+ */
+export const summarizeTextAttachment = (type: TextAttachmentType, text: string): string => {
+    const normalized = text.replace(/\r\n?/g, '\n').replace(/^\uFEFF/, '');
+    return type === 'calendar' ? summarizeCalendar(normalized) : type === 'csv' ? summarizeCsv(normalized) : summarizePlainText(normalized);
+};
+
+/**
+ * The contents of every attachment in some emails, keyed by hash so identical files are
+ * stored once.
+ */
+export const collectAttachmentContents = (emails: ParsedEmail[]): AttachmentContents => {
+    const contents: AttachmentContents = {};
+    for (const attachment of emails.flatMap(email => email.attachments)) {
+        contents[attachment.hash] = contents[attachment.hash]
+            || new Blob([attachment.content], { type: attachment.mimeType || 'application/octet-stream' });
+    }
+    return contents;
+};
+
+/**
+ * Lists every distinct attachment across the groups, identical files (by hash) merged into
+ * one entry with all the names they were sent under and all the emails they came with.
+ * The most recently received files come first.
+ */
+export const buildAttachmentInventory = (groups: OrganizedEmailGroup[]): AttachmentInventoryEntry[] => {
+    const entries = new Map<string, AttachmentInventoryEntry>();
+    for (const email of groups.flatMap(withSender)) {
+        for (const attachment of email.attachments) {
+            let entry = entries.get(attachment.hash);
+            if (!entry) {
+                entry = { attachment, fileNames: [], emails: [] };
+                entries.set(attachment.hash, entry);
+            }
+            if (!entry.fileNames.includes(attachment.fileName)) {
+                entry.fileNames.push(attachment.fileName);
+            }
+            if (!entry.emails.includes(email)) {
+                entry.emails.push(email);
+            }
+        }
+    }
+    const inventory = [...entries.values()];
+    inventory.forEach(entry => entry.emails.sort((a, b) => compareDates(a.date, b.date, 'newest')));
+    return inventory.sort((a, b) => compareDates(a.emails[0].date, b.emails[0].date, 'newest'));
+};
+
+export const formatFileSize = (bytes: number): string => {
+    if (bytes < 1024) {
+        return plural(bytes, 'byte');
+    }
+    const units = ['KB', 'MB', 'GB'];
+    let size = bytes / 1024;
+    let unit = 0;
+    while (size >= 1024 && unit < units.length - 1) {
+        size /= 1024;
+        unit++;
+    }
+    return `${size < 10 ? size.toFixed(1) : Math.round(size)} ${units[unit]}`;
+};
@@ -0,0 +1,78 @@
+/**
+ * Splits items (emails or conversations) into chunks of whole items, each staying under
+ * `maxChars` (as measured by `sizeOf`) and `maxItems`. An oversized item gets a chunk of its own.
+ */
+export const chunkItems = <T>(
+    items: T[],
+    sizeOf: (item: T) => number,
+    maxChars: number,
+    maxItems: number,
+): T[][] => {
+    const chunks: T[][] = [];
+    let current: T[] = [];
+    let currentSize = 0;
+
+    for (const item of items) {
+        const size = sizeOf(item);
+        if (current.length > 0 && (currentSize + size > maxChars || current.length >= maxItems)) {
+            chunks.push(current);
+            current = [];
+            currentSize = 0;
+        }
+        current.push(item);
+        currentSize += size;
+    }
+    if (current.length > 0) {
+        chunks.push(current);
+    }
+    return chunks;
+};
+
+/**
+ * Splits unstructured text into chunks under `maxChars`, breaking only at blank lines
+ * so a message is never cut mid-paragraph.
+ */
+export const chunkText = (text: string, maxChars: number): string[] => {
+    const chunks: string[] = [];
+    let current = '';
+
+    for (const paragraph of text.split(/\n[ \t]*\n/)) {
+        if (current && current.length + paragraph.length + 2 > maxChars) {
+            chunks.push(current);
+            current = '';
+        }
+        current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+    if (current.trim()) {
+        chunks.push(current);
+    }
+    return chunks;
+};
+
+/**
+ * Runs tasks with at most `concurrency` in flight, reporting each outcome as it settles.
+ * Once `signal` is aborted no further tasks are started.
+ */
+export const runWithConcurrency = async <T>(
+    tasks: (() => Promise<T>)[],
+    concurrency: number,
+    onSettled: (result: PromiseSettledResult<T>, index: number) => void,
+    signal?: AbortSignal,
+): Promise<void> => {
+    let next = 0;
+
+    const worker = async () => {
+        while (next < tasks.length && !signal?.aborted) {
+            const index = next++;
+            let result: PromiseSettledResult<T>;
+            try {
+                result = { status: 'fulfilled', value: await tasks[index]() };
+            } catch (reason) {
+                result = { status: 'rejected', reason };
+            }
+            onSettled(result, index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, tasks.length) }, worker));
+};
@@ -0,0 +1,80 @@
+import type { MailKind, OrganizedEmailGroup, ParsedEmail, Subscription } from '../types';
+
+// Local parts used for mass mailings and for one-off automated messages.
+const BULK_SENDER = /^(newsletters?|news|marketing|promos?|promotions|offers|deals|digest)\b/i;
+const TRANSACTIONAL_SENDER = /^(no-?reply|do-?not-?reply|notifications?|notify|alerts?|mailer-daemon|bounces?|billing|invoices?|receipts?|orders?|accounts?|security)\b/i;
+
+const PRECEDENCE_BULK = /^(bulk|list|junk)$/i;
+
+const LINK = /https?:\/\/[^\s<>"')\]]+/gi;
+const UNSUBSCRIBE_WORDS = /unsubscribe|opt-?out|abmelden|manage (your )?(subscription|preferences)/i;
+const MAX_LINKS = 3;
+
+/**
+ * Tells bulk and transactional mail apart from mail written by a person using the
+ * mailing-list headers (List-Unsubscribe, List-Id, Precedence), Auto-Submitted and the
+ * sender's address. Returns null when none of them says anything, so the model decides.
+ */
+export const detectMailKind = (email: Pick<ParsedEmail, 'senderEmail' | 'headers'>): MailKind | null => {
+    const { headers } = email;
+    if (headers['list-unsubscribe'] || headers['list-id'] || PRECEDENCE_BULK.test((headers['precedence'] || '').trim())) {
+        return 'bulk';
+    }
+    const localPart = email.senderEmail.split('@')[0] || '';
+    if (BULK_SENDER.test(localPart)) {
+        return 'bulk';
+    }
+    const autoSubmitted = (headers['auto-submitted'] || '').trim().toLowerCase();
+    if ((autoSubmitted && autoSubmitted !== 'no') || TRANSACTIONAL_SENDER.test(localPart)) {
+        return 'transactional';
+    }
+    return null;
+};
+
+/**
+ * The unsubscribe targets of an email: the web and mailto: links of its List-Unsubscribe
+ * header, web links first, or else a link in the body that mentions unsubscribing.
+ */
+export const findUnsubscribeLinks = (email: Pick<ParsedEmail, 'headers' | 'body'>): string[] => {
+    const header = email.headers['list-unsubscribe'] || '';
+    const fromHeader = [...header.matchAll(/<([^>]+)>/g)]
+        .map(match => match[1].trim())
+        .filter(link => /^(https?|mailto):/i.test(link))
+        .sort((a, b) => Number(a.toLowerCase().startsWith('mailto:')) - Number(b.toLowerCase().startsWith('mailto:')));
+    if (fromHeader.length > 0) {
+        return fromHeader.slice(0, MAX_LINKS);
+    }
+    for (const line of email.body.split('\n')) {
+        const links = line.match(LINK) || [];
+        const link = links.find(candidate => UNSUBSCRIBE_WORDS.test(candidate)) || (UNSUBSCRIBE_WORDS.test(line) ? links[0] : undefined);
+        if (link) {
+            return [link];
+        }
+    }
+    return [];
+};
+
+/**
+ * Lists the senders of bulk mail in the given groups, most emails first, with the
+ * unsubscribe links of their most recent email that has any.
+ */
+export const buildSubscriptions = (groups: OrganizedEmailGroup[]): Subscription[] =>
+    groups
+        .map((group): Subscription | null => {
+            const bulk = group.emails
+                .filter(email => email.kind === 'bulk')
+                .sort((a, b) => (b.date || '').localeCompare(a.date || ''));
+            if (bulk.length === 0) {
+                return null;
+            }
+            return {
+                senderName: group.senderName,
+                senderEmail: group.senderEmail,
+                count: bulk.length,
+                latestDate: bulk[0].date,
+                unsubscribeLinks: bulk.find(email => email.unsubscribeLinks.length > 0)?.unsubscribeLinks || [],
+                mergedByRule: group.mergedByRule,
+            };
+        })
+        .filter((subscription): subscription is Subscription => subscription !== null)
+        .sort((a, b) => b.count - a.count || (a.senderName || a.senderEmail).localeCompare(b.senderName || b.senderEmail));
@@ -0,0 +1,51 @@
+import type { EmailCategory, MailKind } from '../types';
+
+export const EMAIL_CATEGORIES: EmailCategory[] = [
+    'action-required',
+    'meeting',
+    'invoice',
+    'personal',
+    'newsletter',
+    'notification',
+    'other',
+];
+
+export const CATEGORY_LABELS: Record<EmailCategory, string> = {
+    'action-required': 'Action required',
+    meeting: 'Meeting',
+    invoice: 'Invoice',
+    personal: 'Personal',
+    newsletter: 'Newsletter',
+    notification: 'Notification',
+    other: 'Other',
+};
+
+export const MIN_PRIORITY = 1;
+export const MAX_PRIORITY = 5;
+export const DEFAULT_PRIORITY = 3;
+
+export const PRIORITY_LABELS: Record<number, string> = {
+    5: 'Urgent',
+    4: 'High',
+    3: 'Normal',
+    2: 'Low',
+    1: 'Minimal',
+};
+
+export const isEmailCategory = (value: unknown): value is EmailCategory =>
+    typeof value === 'string' && (EMAIL_CATEGORIES as string[]).includes(value);
+
+export const MAIL_KINDS: MailKind[] = ['human', 'transactional', 'bulk'];
+
+export const MAIL_KIND_LABELS: Record<MailKind, string> = {
+    human: 'From a person',
+    transactional: 'Automated',
+    bulk: 'Bulk',
+};
+
+export const isMailKind = (value: unknown): value is MailKind =>
+    typeof value === 'string' && (MAIL_KINDS as string[]).includes(value);
+
+// The most likely kind of an email in a category, for output that doesn't say.
+export const kindForCategory = (category: EmailCategory): MailKind =>
+    category === 'newsletter' ? 'bulk' : category === 'notification' || category === 'invoice' ? 'transactional' : 'human';
@@ -0,0 +1,170 @@
+import type { Digest, DigestPoint, DigestScope, EmailOrganizerProvider, EmailWithSender, OrganizedEmailGroup } from '../types';
+import { compareDates, withSender } from './emailGrouping';
+import { formatDueDate } from './dueDates';
+import { validateDigest } from './validation';
+
+export const DIGEST_SCOPES: { scope: DigestScope; label: string }[] = [
+    { scope: 'day', label: 'Last day' },
+    { scope: 'week', label: 'Last week' },
+    { scope: 'all', label: 'All emails' },
+];
+
+const SCOPE_MS: Record<Exclude<DigestScope, 'all'>, number> = {
+    day: 24 * 60 * 60 * 1000,
+    week: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Keeps the prompt within what the models handle well; the most important emails are kept.
+const MAX_DIGEST_EMAILS = 150;
+
+/**
+ * The emails a digest covers: those within the scope of the run's most recent email (pasted
+ * mail may be old, so "today" would often be empty), at most MAX_DIGEST_EMAILS by priority,
+ * oldest first. Undated emails only count for the whole run.
+ */
+export const selectDigestEmails = (groups: OrganizedEmailGroup[], scope: DigestScope): EmailWithSender[] => {
+    const emails = groups.flatMap(withSender);
+    const times = emails.map(email => new Date(email.date).getTime()).filter(time => !isNaN(time));
+    const inScope = scope === 'all' || times.length === 0
+        ? emails
+        : emails.filter(email => new Date(email.date).getTime() >= Math.max(...times) - SCOPE_MS[scope]);
+    return inScope
+        .sort((a, b) => b.priority - a.priority || compareDates(a.date, b.date, 'newest'))
+        .slice(0, MAX_DIGEST_EMAILS)
+        .sort((a, b) => compareDates(a.date, b.date, 'oldest'));
+};
+
+/**
+ * Asks the provider for a digest of the groups in a second pass over the finished results.
+ * Configuration errors keep their message; anything else becomes a generic one.
+ */
+export const generateDigest = async (
+    provider: EmailOrganizerProvider,
+    groups: OrganizedEmailGroup[],
+    scope: DigestScope,
+    signal?: AbortSignal,
+): Promise<Digest> => {
+    const emails = selectDigestEmails(groups, scope);
+    if (emails.length === 0) {
+        throw new Error("There are no emails to summarize in this period.");
+    }
+    let output: unknown;
+    try {
+        provider.checkConfiguration();
+        output = await provider.writeDigest(emails, signal);
+    } catch (error) {
+        if (error instanceof Error && (error.message.startsWith("AI Service Error:") || signal?.aborted)) {
+            throw error;
+        }
+        console.error("Error writing digest:", error);
+        throw new Error("Failed to write the digest. Please try again.");
+    }
+    const { value, issues } = validateDigest(output, emails.map(email => email.id));
+    if (issues.length > 0) {
+        console.warn("Problems in the digest output:", issues);
+    }
+    if (!value) {
+        throw new Error("The AI returned a malformed digest. Please try again.");
+    }
+    return { scope, generatedAt: new Date().toISOString(), emailCount: emails.length, ...value };
+};
+
+interface DigestSection {
+    title: string;
+    points: (DigestPoint & { dueDate?: string })[];
+}
+
+const sectionsOf = (digest: Digest): DigestSection[] => [
+    { title: 'Key conversations', points: digest.keyThreads },
+    { title: 'Decisions', points: digest.decisions },
+    { title: 'Open questions', points: digest.openQuestions },
+    { title: 'Deadlines', points: digest.deadlines },
+].filter(section => section.points.length > 0);
+
+const DUE_DATE_FORMAT: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric' };
+
+// Numbers every cited email in order of first citation, for footnote-style references.
+export const citedEmails = (digest: Digest, emailsById: Map<string, EmailWithSender>): EmailWithSender[] => {
+    const cited = sectionsOf(digest).flatMap(section => section.points.flatMap(point => point.sourceIds));
+    return [...new Set(cited)].map(id => emailsById.get(id)).filter((email): email is EmailWithSender => !!email);
+};
+
+const describeSource = (email: EmailWithSender): string =>
+    `${email.senderName || email.senderEmail || 'Unknown sender'}: ${email.subject || '(no subject)'}${email.date ? ` (${new Date(email.date).toLocaleDateString()})` : ''}`;
+
+const digestTitle = (digest: Digest): string =>
+    `Email digest: ${DIGEST_SCOPES.find(option => option.scope === digest.scope)?.label.toLowerCase()}`;
+
+const describeCoverage = (digest: Digest): string =>
+    `${digest.emailCount} email${digest.emailCount === 1 ? '' : 's'}, written ${new Date(digest.generatedAt).toLocaleString()}`;
+
+const escapeMarkdown = (text: string): string => text.replace(/([\\`*_[\]<>#|])/g, '\\$1');
+
+/**
+ * The digest as Markdown, with each point citing its emails as numbered references that
+ * are listed at the end. Emails deleted since the digest was written are no longer cited.
+ */
+export const digestToMarkdown = (digest: Digest, emailsById: Map<string, EmailWithSender>): string => {
+    const sources = citedEmails(digest, emailsById);
+    const referenceOf = (point: DigestPoint): string =>
+        point.sourceIds.map(id => sources.findIndex(email => email.id === id) + 1).filter(number => number > 0).map(number => `[${number}]`).join('');
+    const lines = [`# ${digestTitle(digest)}`, '', `_${describeCoverage(digest)}_`];
+    if (digest.overview) {
+        lines.push('', escapeMarkdown(digest.overview));
+    }
+    for (const section of sectionsOf(digest)) {
+        lines.push('', `## ${section.title}`, '');
+        for (const point of section.points) {
+            const due = point.dueDate ? `**${formatDueDate(point.dueDate, DUE_DATE_FORMAT)}:** ` : '';
+            lines.push(`- ${due}${escapeMarkdown(point.text)} ${referenceOf(point)}`.trimEnd());
+        }
+    }
+    if (sources.length > 0) {
+        lines.push('', '## Sources', '');
+        sources.forEach((email, index) => lines.push(`${index + 1}. ${escapeMarkdown(describeSource(email))}`));
+    }
+    return lines.join('\n') + '\n';
+};
+
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * The digest as a self-contained HTML document with inline styles only, so it can be sent
+ * as the body of an email and look the same in most mail clients.
+ */
+export const digestToHtml = (digest: Digest, emailsById: Map<string, EmailWithSender>): string => {
+    const sources = citedEmails(digest, emailsById);
+    const referenceOf = (point: DigestPoint): string =>
+        point.sourceIds
+            .map(id => sources.findIndex(email => email.id === id) + 1)
+            .filter(number => number > 0)
+            .map(number => `<sup><a href="#source-${number}" style="color:#2563eb;text-decoration:none;">[${number}]</a></sup>`)
+            .join('');
+    const sections = sectionsOf(digest).map(section => `
+    <h2 style="font-size:16px;margin:24px 0 8px;color:#111827;">${escapeHtml(section.title)}</h2>
+    <ul style="margin:0;padding-left:20px;">
+${section.points.map(point => `      <li style="margin:0 0 6px;">${point.dueDate ? `<strong>${escapeHtml(formatDueDate(point.dueDate, DUE_DATE_FORMAT))}:</strong> ` : ''}${escapeHtml(point.text)}${referenceOf(point)}</li>`).join('\n')}
+    </ul>`).join('');
+    const sourceList = sources.length === 0 ? '' : `
+    <h2 style="font-size:14px;margin:24px 0 8px;color:#6b7280;">Sources</h2>
+    <ol style="margin:0;padding-left:20px;font-size:12px;color:#6b7280;">
+${sources.map((email, index) => `      <li id="source-${index + 1}">${escapeHtml(describeSource(email))}</li>`).join('\n')}
+    </ol>`;
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(digestTitle(digest))}</title>
+</head>
+<body style="margin:0;padding:24px;background:#f3f4f6;">
+  <div style="max-width:640px;margin:0 auto;padding:24px;background:#ffffff;border-radius:8px;font-family:Arial,Helvetica,sans-serif;font-size:14px;line-height:1.5;color:#374151;">
+    <h1 style="font-size:20px;margin:0 0 4px;color:#111827;">${escapeHtml(digestTitle(digest))}</h1>
+    <p style="margin:0 0 16px;font-size:12px;color:#6b7280;">${escapeHtml(describeCoverage(digest))}</p>
+    ${digest.overview ? `<p style="margin:0;">${escapeHtml(digest.overview)}</p>` : ''}${sections}${sourceList}
+  </div>
+</body>
+</html>
+`;
+};
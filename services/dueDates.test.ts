@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { formatDueDate, isOverdue, parseDueDate } from './dueDates';
+
+// West of UTC, where a date stored as UTC midnight shows up a day early.
+process.env.TZ = 'America/New_York';
+
+describe('parseDueDate', () => {
+    it('keeps a plain date as it is', () => {
+        expect(parseDueDate('2024-08-02')).toBe('2024-08-02');
+    });
+
+    it('turns a date with a time into ISO 8601', () => {
+        expect(parseDueDate('2024-08-02T17:00:00Z')).toBe('2024-08-02T17:00:00.000Z');
+    });
+
+    it('rejects dates that do not exist', () => {
+        expect(parseDueDate('2024-02-30')).toBe('');
+        expect(parseDueDate('next Friday')).toBe('');
+    });
+});
+
+describe('formatDueDate', () => {
+    it('shows a plain date on its own day', () => {
+        expect(formatDueDate('2024-08-02', { day: 'numeric' })).toBe('2');
+    });
+});
+
+describe('isOverdue', () => {
+    it('counts a plain date as due until the end of its day', () => {
+        expect(isOverdue('2024-08-02', new Date(2024, 7, 2, 23, 59))).toBe(false);
+        expect(isOverdue('2024-08-02', new Date(2024, 7, 3, 0, 1))).toBe(true);
+    });
+
+    it('compares a date with a time to the moment', () => {
+        expect(isOverdue('2024-08-02T17:00:00.000Z', new Date('2024-08-02T16:59:00Z'))).toBe(false);
+        expect(isOverdue('2024-08-02T17:00:00.000Z', new Date('2024-08-02T17:01:00Z'))).toBe(true);
+    });
+});
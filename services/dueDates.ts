@@ -0,0 +1,53 @@
+import { parseDate } from './emailParser';
+
+// A deadline without a time of day, kept as a calendar date rather than UTC midnight.
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * The local calendar day of a date, as YYYY-MM-DD.
+ */
+export const calendarDay = (date: Date): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Reads a due date from a model's output. A plain date stays YYYY-MM-DD, so it is the
+ * same day in every time zone; anything with a time becomes ISO 8601.
+ * Returns an empty string if it isn't a date.
+ */
+export const parseDueDate = (value: string): string => {
+    const match = value.match(DATE_ONLY);
+    if (!match) {
+        return parseDate(value);
+    }
+    const [, year, month, day] = match.map(Number);
+    return calendarDay(new Date(year, month - 1, day)) === value ? value : '';
+};
+
+/**
+ * The moment a due date refers to; a plain date is local midnight of that day.
+ */
+export const dueDateToLocal = (dueDate: string): Date => {
+    const match = dueDate.match(DATE_ONLY);
+    if (!match) {
+        return new Date(dueDate);
+    }
+    const [, year, month, day] = match.map(Number);
+    return new Date(year, month - 1, day);
+};
+
+/**
+ * The calendar day of a due date as YYYY-MM-DD, in local time if it has a time of day.
+ */
+export const dueDay = (dueDate: string): string => (DATE_ONLY.test(dueDate) ? dueDate : calendarDay(new Date(dueDate)));
+
+/**
+ * Formats a due date for display, on the day it was given for.
+ */
+export const formatDueDate = (dueDate: string, options: Intl.DateTimeFormatOptions = {}): string =>
+    dueDateToLocal(dueDate).toLocaleDateString(undefined, options);
+
+/**
+ * Whether a due date has passed. A plain date is only overdue once its day is over.
+ */
+export const isOverdue = (dueDate: string, now: Date = new Date()): boolean =>
+    DATE_ONLY.test(dueDate) ? dueDate < calendarDay(now) : new Date(dueDate).getTime() < now.getTime();
@@ -0,0 +1,175 @@
+import type { EmailAnalysis, EmailGroupView, EmailWithSender, GroupMode, OrganizedEmailGroup, ParsedEmail, SortOrder } from '../types';
+import { CATEGORY_LABELS, EMAIL_CATEGORIES, PRIORITY_LABELS } from './categories';
+import { buildThreads } from './threading';
+import { detectMailKind, findUnsubscribeLinks } from './bulkMail';
+import { assessRisk } from './phishing';
+import { detectLanguage } from './language';
+
+const senderKey = (senderEmail: string): string => senderEmail.trim().toLowerCase();
+
+/**
+ * What identifies a group when groups are combined: the sender address, or for a group built
+ * by a "Merge into group" rule its name, since its address is only that of one of its senders.
+ */
+export const groupKey = (group: Pick<OrganizedEmailGroup, 'senderName' | 'senderEmail' | 'mergedByRule'>): string =>
+    group.mergedByRule ? `rule:${group.senderName.trim().toLowerCase()}` : senderKey(group.senderEmail);
+
+/**
+ * Builds sender groups from locally parsed emails and their analyses, thread IDs and email IDs (matched by index).
+ * The mail kind comes from the headers where they are conclusive, and from the model otherwise.
+ * The phishing risk is scored locally, with the model's suspicion as one of the signals.
+ */
+export const groupBySender = (emails: ParsedEmail[], analyses: EmailAnalysis[], threadIds: string[], ids: string[]): OrganizedEmailGroup[] => {
+    const groups = new Map<string, OrganizedEmailGroup>();
+    emails.forEach((email, index) => {
+        const key = senderKey(email.senderEmail);
+        let group = groups.get(key);
+        if (!group) {
+            group = { senderName: email.senderName, senderEmail: key, emails: [], mergedByRule: false };
+            groups.set(key, group);
+        } else if (!group.senderName) {
+            group.senderName = email.senderName;
+        }
+        const { suspicionReason, ...analysis } = analyses[index];
+        group.emails.push({
+            id: ids[index],
+            subject: email.subject,
+            date: email.date,
+            ...analysis,
+            kind: detectMailKind(email) || analysis.kind,
+            language: analysis.language || detectLanguage(`${email.subject}\n${email.body}`),
+            risk: assessRisk(email, suspicionReason),
+            // The contents stay out of the results, see collectAttachmentContents.
+            attachments: email.attachments.map(({ content, ...attachment }) => attachment),
+            threadId: threadIds[index],
+            remoteId: email.remoteId,
+            tags: [],
+            unsubscribeLinks: findUnsubscribeLinks(email),
+        });
+    });
+    return [...groups.values()];
+};
+
+/**
+ * Merges two lists of sender groups, combining groups that share a sender address
+ * (or, for rule-merged groups, a name).
+ */
+export const mergeGroups = (existing: OrganizedEmailGroup[], incoming: OrganizedEmailGroup[]): OrganizedEmailGroup[] => {
+    const groups = new Map<string, OrganizedEmailGroup>();
+    for (const group of [...existing, ...incoming]) {
+        const key = groupKey(group);
+        const current = groups.get(key);
+        if (!current) {
+            groups.set(key, { ...group, emails: [...group.emails] });
+            continue;
+        }
+        current.emails.push(...group.emails);
+        if (!current.senderName) {
+            current.senderName = group.senderName;
+        }
+    }
+    return [...groups.values()];
+};
+
+/**
+ * Compares two email dates for the given sort order, placing invalid or missing dates last.
+ */
+export const compareDates = (dateA: string, dateB: string, sortOrder: SortOrder): number => {
+    const timeA = new Date(dateA).getTime();
+    const timeB = new Date(dateB).getTime();
+
+    const validA = !isNaN(timeA);
+    const validB = !isNaN(timeB);
+
+    if (validA && validB) {
+        return sortOrder === 'newest' ? timeB - timeA : timeA - timeB;
+    }
+    if (validA) return -1; // a is valid, b is not, a comes first
+    if (validB) return 1;  // b is valid, a is not, b comes first
+    return 0; // both invalid
+};
+
+/**
+ * Sorts the emails in each group by date, then the groups by their first (newest or oldest) email.
+ */
+export const sortGroups = (groups: OrganizedEmailGroup[], sortOrder: SortOrder): OrganizedEmailGroup[] => {
+    const groupsWithSortedEmails = groups.map(group => ({
+        ...group,
+        emails: [...group.emails].sort((a, b) => compareDates(a.date, b.date, sortOrder)),
+    }));
+
+    return groupsWithSortedEmails.sort((a, b) => {
+        const firstEmailA = a.emails[0];
+        const firstEmailB = b.emails[0];
+
+        if (!firstEmailA && !firstEmailB) return 0;
+        if (!firstEmailA) return 1; // groups with no emails go to the end
+        if (!firstEmailB) return -1;
+
+        return compareDates(firstEmailA.date, firstEmailB.date, sortOrder);
+    });
+};
+
+export const withSender = (group: OrganizedEmailGroup): EmailWithSender[] =>
+    group.emails.map(email => ({ ...email, senderName: group.senderName, senderEmail: group.senderEmail }));
+
+const bucketViews = <K extends string | number>(
+    emails: EmailWithSender[],
+    keyOf: (email: EmailWithSender) => K,
+    order: K[],
+    describe: (key: K, emails: EmailWithSender[]) => Pick<EmailGroupView, 'title' | 'subtitle'>,
+    sortOrder: SortOrder,
+): EmailGroupView[] =>
+    order
+        .map(key => {
+            const bucket = emails
+                .filter(email => keyOf(email) === key)
+                .sort((a, b) => compareDates(a.date, b.date, sortOrder));
+            return { key: String(key), showSender: true, mergedByRule: false, emails: bucket, ...describe(key, bucket) };
+        })
+        .filter(view => view.emails.length > 0);
+
+const countSenders = (emails: EmailWithSender[]): string => {
+    const senders = new Set(emails.map(email => email.senderEmail)).size;
+    return `${senders} sender${senders !== 1 ? 's' : ''}`;
+};
+
+/**
+ * Turns sorted sender groups into the groups shown for a GroupMode: one per sender,
+ * per category (in category order), per priority (most urgent first) or per conversation.
+ */
+export const buildGroupViews = (groups: OrganizedEmailGroup[], mode: GroupMode, sortOrder: SortOrder): EmailGroupView[] => {
+    if (mode === 'sender') {
+        return groups.map((group, index) => ({
+            key: `${groupKey(group)}-${index}`,
+            title: group.senderName || group.senderEmail || 'Unknown sender',
+            subtitle: group.mergedByRule ? 'Merged by a rule' : group.senderName ? group.senderEmail : '',
+            showSender: false,
+            mergedByRule: group.mergedByRule,
+            emails: withSender(group),
+        }));
+    }
+
+    if (mode === 'thread') {
+        return buildThreads(groups, {}, sortOrder).map(thread => ({
+            key: thread.id,
+            title: thread.subject || '(no subject)',
+            subtitle: thread.participants.map(participant => participant.name || participant.email).join(', '),
+            showSender: true,
+            mergedByRule: false,
+            emails: thread.emails,
+        }));
+    }
+
+    const emails = groups.flatMap(withSender);
+    if (mode === 'category') {
+        return bucketViews(emails, email => email.category, EMAIL_CATEGORIES, (category, bucket) => ({
+            title: CATEGORY_LABELS[category],
+            subtitle: countSenders(bucket),
+        }), sortOrder);
+    }
+    return bucketViews(emails, email => email.priority, [5, 4, 3, 2, 1], (priority, bucket) => ({
+        title: `${PRIORITY_LABELS[priority]} priority`,
+        subtitle: countSenders(bucket),
+    }), sortOrder);
+};
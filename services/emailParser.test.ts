@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { parseEmails, parsePastedText, splitMessages } from './emailParser';
+
+const message = (from: string, subject: string, ...body: string[]): string =>
+    [`From: ${from}`, `Subject: ${subject}`, 'Date: Mon, 29 Jul 2024 10:00:00 +0000', '', ...body].join('\n');
+
+describe('splitMessages', () => {
+    it('splits pasted messages at header blocks after a blank line', () => {
+        const text = [message('a@example.com', 'One', 'Hello.'), '', message('b@example.com', 'Two', 'Hi.')].join('\n');
+        expect(parseEmails(text).map((email) => email.subject)).toEqual(['One', 'Two']);
+    });
+
+    it('splits an mbox archive at its separator lines', () => {
+        const text = [
+            'From a@example.com Mon Jul 29 10:00:00 2024',
+            message('a@example.com', 'One', 'Hello.', '>From the archive.'),
+            '',
+            'From b@example.com Mon Jul 29 11:00:00 2024',
+            message('b@example.com', 'Two', 'Hi.'),
+        ].join('\n');
+        const emails = parseEmails(text);
+        expect(emails.map((email) => email.subject)).toEqual(['One', 'Two']);
+        expect(emails[0].body).toContain('From the archive.');
+    });
+
+    it('keeps prose starting with "From " in pasted messages', () => {
+        const text = [
+            message('shop@example.com', 'Opening hours', 'Hello,', '', 'From Monday to Friday we open at 9:00 and close at 18:00.'),
+            '',
+            message('b@example.com', 'Lunch', 'Lunch at 12:30?'),
+        ].join('\n');
+        const emails = parseEmails(text);
+        expect(emails.map((email) => email.subject)).toEqual(['Opening hours', 'Lunch']);
+        expect(emails[0].body).toContain('From Monday to Friday we open at 9:00');
+    });
+
+    it('keeps a "From " line inside an mbox message unless a header block follows it', () => {
+        const text = [
+            'From a@example.com Mon Jul 29 10:00:00 2024',
+            message('a@example.com', 'Hours', 'We are open:', '', 'From Monday 9:00 to Friday 18:00.'),
+        ].join('\n');
+        const emails = parseEmails(text);
+        expect(emails).toHaveLength(1);
+        expect(emails[0].body).toContain('From Monday 9:00 to Friday 18:00.');
+    });
+
+    it('does not split off the quoted header of an Outlook reply', () => {
+        const text = message('a@example.com', 'RE: Budget', 'Sounds good.', '', 'From: Bob <b@example.com>', 'Sent: Monday, July 29, 2024 9:00 AM', 'To: Alice <a@example.com>', 'Subject: Budget', '', 'Can we talk about the budget?');
+        const messages = splitMessages(text);
+        expect(messages).toHaveLength(1);
+        expect(messages[0]).toContain('Can we talk about the budget?');
+    });
+
+    it('does not split off a quoted header below an "Original Message" divider', () => {
+        const text = message('a@example.com', 'RE: Budget', 'Sounds good.', '', '-----Original Message-----', '', 'From: b@example.com', 'Date: Mon, 29 Jul 2024 09:00:00 +0000', 'Subject: Budget', '', 'Can we talk?');
+        expect(splitMessages(text)).toHaveLength(1);
+    });
+});
+
+describe('parsePastedText', () => {
+    it('returns the text above the first message as unparsed', () => {
+        const text = ['Notes from the call: Dave sends the agenda on Friday.', '', message('a@example.com', 'One', 'Hello.')].join('\n');
+        const { emails, unparsed } = parsePastedText(text);
+        expect(emails.map((email) => email.subject)).toEqual(['One']);
+        expect(unparsed).toBe('Notes from the call: Dave sends the agenda on Friday.');
+    });
+
+    it('returns text without any message as unparsed', () => {
+        expect(parsePastedText('  Just some notes.\n')).toEqual({ emails: [], unparsed: 'Just some notes.' });
+    });
+});
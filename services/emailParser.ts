@@ -0,0 +1,537 @@
+import type { ParsedAttachment, ParsedEmail } from '../types';
+import { sha256, summarizeTextAttachment, textAttachmentType } from './attachments';
+
+// "From sender@example.com Mon Jul 29 10:00:00 2024" lines that separate messages in mbox archives.
+const MBOX_SEPARATOR = /^From \S+\s+\S.*\d{1,2}:\d{2}/;
+const HEADER_LINE = /^([A-Za-z0-9][A-Za-z0-9-]*):[ \t]*(.*)$/;
+const CONTINUATION_LINE = /^[ \t]+\S/;
+
+const ENCODED_WORD_SOURCE = '=\\?[^?\\s]+\\?[BbQq]\\?[^?\\s]*\\?=';
+const ENCODED_WORD = /=\?([^?\s]+)\?([BbQq])\?([^?\s]*)\?=/g;
+const ENCODED_WORD_RUN = new RegExp(`${ENCODED_WORD_SOURCE}(?:\\s+${ENCODED_WORD_SOURCE})*`, 'g');
+
+interface ContentType {
+    mimeType: string;
+    params: Record<string, string>;
+}
+
+const isBlank = (line: string): boolean => line.trim() === '';
+
+const decodeBytes = (bytes: Uint8Array, charset: string): string => {
+    try {
+        return new TextDecoder(charset.trim() || 'utf-8').decode(bytes);
+    } catch {
+        // Unknown or unsupported charset label.
+        return new TextDecoder('utf-8').decode(bytes);
+    }
+};
+
+const binaryStringToBytes = (text: string): Uint8Array => {
+    const bytes: number[] = [];
+    for (const char of text) {
+        const code = char.codePointAt(0)!;
+        if (code < 256) {
+            bytes.push(code);
+        } else {
+            // Already-decoded text (e.g. pasted from a mail client); keep it intact as UTF-8.
+            bytes.push(...new TextEncoder().encode(char));
+        }
+    }
+    return Uint8Array.from(bytes);
+};
+
+const decodeBase64 = (text: string): Uint8Array => {
+    const cleaned = text.replace(/[^A-Za-z0-9+/]/g, '');
+    const padded = cleaned + '='.repeat((4 - (cleaned.length % 4)) % 4);
+    try {
+        return binaryStringToBytes(atob(padded));
+    } catch {
+        return binaryStringToBytes(text);
+    }
+};
+
+const decodeQuotedPrintable = (text: string, isHeader = false): Uint8Array => {
+    let source = text.replace(/=\r?\n/g, '');
+    if (isHeader) {
+        source = source.replace(/_/g, ' ');
+    }
+    const binary = source.replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+    return binaryStringToBytes(binary);
+};
+
+/**
+ * Decodes RFC 2047 encoded words (e.g. "=?UTF-8?B?SGVsbG8=?=") in a header value.
+ * Adjacent encoded words in the same charset are joined before decoding so that
+ * multi-byte characters split across words survive.
+ */
+export const decodeEncodedWords = (value: string): string =>
+    value.replace(ENCODED_WORD_RUN, (run) => {
+        let result = '';
+        let pending: number[] = [];
+        let pendingCharset = '';
+
+        const flush = () => {
+            if (pending.length > 0) {
+                result += decodeBytes(Uint8Array.from(pending), pendingCharset);
+                pending = [];
+            }
+        };
+
+        for (const match of run.matchAll(ENCODED_WORD)) {
+            const charset = match[1].split('*')[0].toLowerCase();
+            const bytes = match[2].toUpperCase() === 'B'
+                ? decodeBase64(match[3])
+                : decodeQuotedPrintable(match[3], true);
+            if (charset !== pendingCharset) {
+                flush();
+                pendingCharset = charset;
+            }
+            pending.push(...bytes);
+        }
+        flush();
+        return result;
+    });
+
+const parseHeaderBlock = (block: string): Record<string, string> => {
+    const headers: Record<string, string> = {};
+    let currentName: string | null = null;
+
+    for (const line of block.split('\n')) {
+        if (currentName && CONTINUATION_LINE.test(line)) {
+            headers[currentName] += line;
+            continue;
+        }
+        const match = line.match(HEADER_LINE);
+        if (!match) {
+            currentName = null;
+            continue;
+        }
+        const name = match[1].toLowerCase();
+        // The first occurrence wins; later duplicates (e.g. Received) are ignored.
+        if (name in headers) {
+            currentName = null;
+            continue;
+        }
+        headers[name] = match[2];
+        currentName = name;
+    }
+
+    for (const name of Object.keys(headers)) {
+        headers[name] = decodeEncodedWords(headers[name].trim());
+    }
+    return headers;
+};
+
+const splitHeadersAndBody = (raw: string): { headerBlock: string; body: string } => {
+    const match = raw.match(/\n[ \t]*\n/);
+    if (!match || match.index === undefined) {
+        return { headerBlock: raw, body: '' };
+    }
+    return {
+        headerBlock: raw.slice(0, match.index),
+        body: raw.slice(match.index + match[0].length),
+    };
+};
+
+const parseContentType = (value: string | undefined): ContentType => {
+    if (!value) {
+        return { mimeType: 'text/plain', params: {} };
+    }
+    const [mimeType] = value.split(';');
+    const params: Record<string, string> = {};
+    for (const match of value.matchAll(/;\s*([^=;\s]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;\s]*)/g)) {
+        let paramValue = match[2];
+        if (paramValue.startsWith('"')) {
+            paramValue = paramValue.slice(1, -1).replace(/\\(.)/g, '$1');
+        }
+        params[match[1].toLowerCase()] = paramValue;
+    }
+    return { mimeType: mimeType.trim().toLowerCase() || 'text/plain', params };
+};
+
+const splitMultipart = (body: string, boundary: string): string[] => {
+    const parts: string[] = [];
+    let current: string[] | null = null;
+
+    for (const line of body.split('\n')) {
+        const trimmed = line.trimEnd();
+        if (trimmed === `--${boundary}--`) {
+            break;
+        }
+        if (trimmed === `--${boundary}`) {
+            if (current) {
+                parts.push(current.join('\n'));
+            }
+            current = [];
+            continue;
+        }
+        current?.push(line);
+    }
+    if (current) {
+        parts.push(current.join('\n'));
+    }
+    return parts;
+};
+
+const decodeEntities = (text: string): string =>
+    text
+        .replace(/&nbsp;/gi, ' ')
+        .replace(/&lt;/gi, '<')
+        .replace(/&gt;/gi, '>')
+        .replace(/&quot;/gi, '"')
+        .replace(/&#39;|&apos;/gi, "'")
+        .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+        .replace(/&amp;/gi, '&');
+
+// Links keep their target after their text, e.g. "Sign in <https://example.com/login>", so a
+// link that shows one address but leads to another can still be spotted in the plain text.
+const renderLink = (_match: string, href: string, text: string): string => {
+    const label = text.replace(/<[^>]+>/g, '').trim();
+    // Escaped so the angle brackets survive the tag stripping below.
+    return !label || label === href ? href : `${label} &lt;${href}&gt;`;
+};
+
+const htmlToText = (html: string): string =>
+    decodeEntities(
+        html
+            .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+            .replace(/<a\b[^>]*?\bhref\s*=\s*["']?(https?:[^"'\s>]+)["']?[^>]*>([\s\S]*?)<\/a>/gi, renderLink)
+            .replace(/<br\s*\/?>/gi, '\n')
+            .replace(/<\/(p|div|tr|li|h[1-6])>/gi, '\n')
+            .replace(/<[^>]+>/g, '')
+    )
+        .replace(/[ \t]+\n/g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+
+const decodeLeafBody = (body: string, headers: Record<string, string>, charset: string): string => {
+    const encoding = (headers['content-transfer-encoding'] || '').trim().toLowerCase();
+    if (encoding === 'base64') {
+        return decodeBytes(decodeBase64(body), charset);
+    }
+    if (encoding === 'quoted-printable') {
+        return decodeBytes(decodeQuotedPrintable(body), charset);
+    }
+    return body;
+};
+
+const decodeLeafBytes = (body: string, headers: Record<string, string>): Uint8Array => {
+    const encoding = (headers['content-transfer-encoding'] || '').trim().toLowerCase();
+    if (encoding === 'base64') {
+        return decodeBase64(body);
+    }
+    if (encoding === 'quoted-printable') {
+        return decodeQuotedPrintable(body);
+    }
+    return binaryStringToBytes(body);
+};
+
+const readParts = (body: string, boundary: string): { headers: Record<string, string>; body: string }[] =>
+    splitMultipart(body, boundary).map((part) => {
+        // A part that opens with a blank line has no headers of its own.
+        const { headerBlock, body: partBody } = isBlank(part.split('\n')[0])
+            ? { headerBlock: '', body: part.replace(/^[ \t]*\n/, '') }
+            : splitHeadersAndBody(part);
+        return { headers: parseHeaderBlock(headerBlock), body: partBody };
+    });
+
+const extractText = (headers: Record<string, string>, body: string): string => {
+    const { mimeType, params } = parseContentType(headers['content-type']);
+    const disposition = (headers['content-disposition'] || '').toLowerCase();
+    if (disposition.startsWith('attachment')) {
+        return '';
+    }
+
+    if (mimeType.startsWith('multipart/') && params.boundary) {
+        const parts = readParts(body, params.boundary);
+
+        if (mimeType === 'multipart/alternative') {
+            // Prefer the plain-text rendition; otherwise take the last (richest) one.
+            const plain = parts.find((part) => parseContentType(part.headers['content-type']).mimeType === 'text/plain');
+            const chosen = plain ?? parts[parts.length - 1];
+            return chosen ? extractText(chosen.headers, chosen.body) : '';
+        }
+
+        return parts
+            .map((part) => extractText(part.headers, part.body))
+            .filter((text) => text.trim() !== '')
+            .join('\n\n');
+    }
+
+    if (mimeType === 'text/plain') {
+        return decodeLeafBody(body, headers, params.charset || 'utf-8').trim();
+    }
+    if (mimeType === 'text/html') {
+        return htmlToText(decodeLeafBody(body, headers, params.charset || 'utf-8'));
+    }
+    return '';
+};
+
+/**
+ * Reads a parameter that may use RFC 2231 encoding and continuations, such as
+ * `filename*=UTF-8''Vertrag%20unterschrieben.pdf` or `filename*0=...; filename*1=...`.
+ */
+const readExtendedParam = (params: Record<string, string>, name: string): string => {
+    if (params[name]) {
+        return params[name];
+    }
+    const pieces = Object.keys(params)
+        .map((key) => ({ key, match: key.match(new RegExp(`^${name}\\*(?:(\\d+)\\*?)?$`)) }))
+        .filter(({ match }) => match !== null)
+        .sort((a, b) => Number(a.match![1] || 0) - Number(b.match![1] || 0));
+    let charset = 'utf-8';
+    const bytes: number[] = [];
+    pieces.forEach(({ key }, index) => {
+        let value = params[key];
+        if (!key.endsWith('*')) {
+            bytes.push(...binaryStringToBytes(value));
+            return;
+        }
+        const prefixed = index === 0 ? value.match(/^([^']*)'[^']*'(.*)$/) : null;
+        if (prefixed) {
+            charset = prefixed[1] || charset;
+            value = prefixed[2];
+        }
+        bytes.push(...binaryStringToBytes(value.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))));
+    });
+    return bytes.length > 0 ? decodeBytes(Uint8Array.from(bytes), charset) : '';
+};
+
+/**
+ * Collects the attachments of a message: parts marked as attachments, calendar invitations,
+ * and named parts that aren't inline images (the logos and pictures of HTML mail). Text, CSV
+ * and calendar files are summarized. Parts without a name are numbered, e.g. "attachment-2.pdf".
+ */
+const extractAttachments = (headers: Record<string, string>, body: string, found: ParsedAttachment[] = []): ParsedAttachment[] => {
+    const { mimeType, params } = parseContentType(headers['content-type']);
+    if (mimeType.startsWith('multipart/') && params.boundary) {
+        for (const part of readParts(body, params.boundary)) {
+            extractAttachments(part.headers, part.body, found);
+        }
+        return found;
+    }
+
+    // Parts without a Content-Disposition are shown inline.
+    const disposition = parseContentType(headers['content-disposition'] || 'inline');
+    const isAttachment = disposition.mimeType === 'attachment' || mimeType === 'text/calendar';
+    const name = (readExtendedParam(disposition.params, 'filename') || readExtendedParam(params, 'name')).replace(/^.*[\\/]/, '').trim();
+    if (!isAttachment && (!name || (disposition.mimeType === 'inline' && mimeType.startsWith('image/')))) {
+        return found;
+    }
+
+    const content = decodeLeafBytes(body, headers);
+    const extension = mimeType === 'text/calendar' ? 'ics' : mimeType.split('/')[1]?.replace(/[^a-z0-9]/g, '') || 'bin';
+    const fileName = name || `attachment-${found.length + 1}.${extension}`;
+    const textType = textAttachmentType(mimeType, fileName);
+    found.push({
+        fileName,
+        mimeType,
+        size: content.length,
+        hash: sha256(content),
+        summary: textType ? summarizeTextAttachment(textType, decodeBytes(content, params.charset || 'utf-8')) : '',
+        content,
+    });
+    return found;
+};
+
+/**
+ * Parses an RFC 5322 address such as `"Doe, Jane" <jane@example.com>`,
+ * `jane@example.com (Jane Doe)` or a bare address into a name and address.
+ */
+export const parseAddress = (value: string): { name: string; email: string } => {
+    const unquote = (name: string) => name.trim().replace(/^"(.*)"$/, '$1').replace(/\\(.)/g, '$1').trim();
+
+    const angle = value.match(/^(.*?)<([^>]+)>/);
+    if (angle) {
+        return { name: unquote(angle[1]), email: angle[2].trim() };
+    }
+    const comment = value.match(/^\s*([^\s()<>]+@[^\s()<>]+)\s*\(([^)]*)\)/);
+    if (comment) {
+        return { name: unquote(comment[2]), email: comment[1] };
+    }
+    const bare = value.match(/[^\s<>"(),;:]+@[^\s<>"(),;:]+/);
+    return { name: '', email: bare ? bare[0] : '' };
+};
+
+/**
+ * Converts an RFC 5322 Date header into ISO 8601, or returns an empty string if it can't be read.
+ */
+export const parseDate = (value: string | undefined): string => {
+    if (!value) {
+        return '';
+    }
+    const cleaned = value.replace(/\([^)]*\)/g, '').replace(/\s+/g, ' ').trim();
+    const time = Date.parse(cleaned);
+    return isNaN(time) ? '' : new Date(time).toISOString();
+};
+
+/**
+ * Returns the header names of the block starting at `start` if it looks like the
+ * beginning of a message (a run of header lines including From and Subject or Date).
+ */
+const readMessageHeaderNames = (lines: string[], start: number): Set<string> | null => {
+    const names = new Set<string>();
+    for (let i = start; i < lines.length && !isBlank(lines[i]); i++) {
+        if (i > start && CONTINUATION_LINE.test(lines[i])) {
+            continue;
+        }
+        const match = lines[i].match(HEADER_LINE);
+        if (!match) {
+            return null;
+        }
+        names.add(match[1].toLowerCase());
+    }
+    return names.has('from') && (names.has('subject') || names.has('date')) ? names : null;
+};
+
+export const isMboxSeparator = (line: string): boolean => MBOX_SEPARATOR.test(line);
+
+/**
+ * Whether `line` starts a new message in an mbox archive, given the lines around it (null
+ * when it is the first line). A separator only counts at the start or after a blank line,
+ * and when a header block follows, so a body line such as "From Monday to Friday we open
+ * at 9:00" stays part of its message.
+ */
+export const isMboxMessageStart = (previous: string | null, line: string, next: string): boolean =>
+    isMboxSeparator(line) && (previous === null || isBlank(previous)) && HEADER_LINE.test(next);
+
+const startsMboxMessage = (lines: string[], index: number): boolean =>
+    isMboxMessageStart(index === 0 ? null : lines[index - 1], lines[index], lines[index + 1] ?? '');
+
+// Outlook quotes the message being replied to under a From/Sent/To/Subject block, often after a divider line.
+const REPLY_DIVIDER = /^\s*(?:-{2,}\s*Original Message\s*-{2,}|_{10,})\s*$/i;
+
+const isQuotedReplyHeader = (lines: string[], start: number, names: Set<string>): boolean => {
+    if (names.has('sent') && !names.has('date')) {
+        return true;
+    }
+    let previous = start - 1;
+    while (previous >= 0 && isBlank(lines[previous])) {
+        previous--;
+    }
+    return previous >= 0 && REPLY_DIVIDER.test(lines[previous]);
+};
+
+// mboxrd escapes body lines starting with "From " as ">From ".
+export const unescapeMboxLine = (line: string): string => line.replace(/^>(>*From )/, '$1');
+
+const splitMbox = (lines: string[]): string[] => {
+    const messages: string[] = [];
+    let current: string[] = [];
+
+    lines.forEach((line, index) => {
+        if (startsMboxMessage(lines, index)) {
+            messages.push(current.join('\n'));
+            current = [];
+            return;
+        }
+        current.push(unescapeMboxLine(line));
+    });
+    messages.push(current.join('\n'));
+    return messages.filter((message) => !isBlank(message));
+};
+
+// The raw messages in the text, and whatever comes before the first of them.
+const splitText = (text: string): { messages: string[]; preamble: string } => {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    const firstLine = lines.findIndex((line) => !isBlank(line));
+    if (firstLine !== -1 && startsMboxMessage(lines, firstLine)) {
+        return { messages: splitMbox(lines), preamble: '' };
+    }
+
+    const starts: number[] = [];
+    let openBoundary: string | null = null;
+
+    for (let i = 0; i < lines.length; i++) {
+        if (openBoundary) {
+            // Don't mistake embedded messages (message/rfc822 parts) for new top-level messages.
+            if (lines[i].trimEnd() === `--${openBoundary}--`) {
+                openBoundary = null;
+            }
+            continue;
+        }
+        if (i > 0 && !isBlank(lines[i - 1])) {
+            continue;
+        }
+        const names = readMessageHeaderNames(lines, i);
+        if (!names || isQuotedReplyHeader(lines, i, names)) {
+            continue;
+        }
+        starts.push(i);
+
+        let end = i;
+        while (end < lines.length && !isBlank(lines[end])) {
+            end++;
+        }
+        const headers = parseHeaderBlock(lines.slice(i, end).join('\n'));
+        const { mimeType, params } = parseContentType(headers['content-type']);
+        openBoundary = mimeType.startsWith('multipart/') && params.boundary ? params.boundary : null;
+        i = end;
+    }
+
+    return {
+        messages: starts.map((start, index) =>
+            lines.slice(start, index + 1 < starts.length ? starts[index + 1] : lines.length).join('\n').trim()
+        ),
+        preamble: lines.slice(0, starts.length > 0 ? starts[0] : lines.length).join('\n').trim(),
+    };
+};
+
+/**
+ * Splits pasted text or an mbox archive into individual raw messages.
+ * Text is read as mbox when it starts with a "From " separator line. Otherwise messages
+ * are recognised by a header block (with From and Subject or Date) at the start of the
+ * text or after a blank line, unless it is the quoted header of a reply.
+ */
+export const splitMessages = (text: string): string[] => splitText(text).messages;
+
+/**
+ * Parses a single raw message into its headers and decoded plain-text body.
+ * Returns null if the text has no recognisable From header.
+ */
+export const parseMessage = (raw: string): ParsedEmail | null => {
+    const normalized = raw.replace(/\r\n?/g, '\n').replace(/^\s*\n/, '');
+    const { headerBlock, body } = splitHeadersAndBody(normalized);
+    const headers = parseHeaderBlock(headerBlock);
+    if (!headers.from) {
+        return null;
+    }
+
+    const { name, email } = parseAddress(headers.from);
+    return {
+        messageId: (headers['message-id'] || '').replace(/[<>\s]/g, ''),
+        senderName: name,
+        senderEmail: email,
+        subject: headers.subject || '',
+        date: parseDate(headers.date),
+        body: extractText(headers, body),
+        headers,
+        remoteId: '',
+        attachments: extractAttachments(headers, body),
+    };
+};
+
+/**
+ * Splits raw text into messages and parses each one. Whatever isn't a message with headers,
+ * such as notes pasted above the first one, comes back as `unparsed` text.
+ */
+export const parsePastedText = (text: string): { emails: ParsedEmail[]; unparsed: string } => {
+    const { messages, preamble } = splitText(text);
+    const emails: ParsedEmail[] = [];
+    const unparsed = preamble ? [preamble] : [];
+    for (const message of messages) {
+        const email = parseMessage(message);
+        if (email) {
+            emails.push(email);
+        } else {
+            unparsed.push(message);
+        }
+    }
+    return { emails, unparsed: unparsed.join('\n\n') };
+};
+
+/**
+ * Splits raw text into messages and parses each one, skipping anything without headers.
+ */
+export const parseEmails = (text: string): ParsedEmail[] => parsePastedText(text).emails;
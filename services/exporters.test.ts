@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import type { Email, OrganizedEmailGroup } from '../types';
+import { buildExport, parseResultsExport } from './exporters';
+import { NO_RISK } from './phishing';
+
+// West of UTC, where a date stored as UTC midnight falls on the day before.
+process.env.TZ = 'America/New_York';
+
+const email = (dueDate: string): Email => ({
+    id: 'email-1',
+    subject: 'Report',
+    date: '2024-07-29T14:00:00.000Z',
+    summary: 'The quarterly report is due.',
+    category: 'action-required',
+    priority: 4,
+    priorityReason: '',
+    actionItems: [{ description: 'Send the report', owner: 'me', dueDate }],
+    threadId: '',
+    remoteId: '',
+    tags: [],
+    kind: 'human',
+    unsubscribeLinks: [],
+    risk: NO_RISK,
+    attachments: [],
+    language: '',
+    originalSummary: '',
+});
+
+const groups = (dueDate: string): OrganizedEmailGroup[] => [{ senderName: 'Alice', senderEmail: 'alice@example.com', emails: [email(dueDate)], mergedByRule: false }];
+
+const exported = (format: 'ics' | 'markdown', dueDate: string): string => buildExport(format, groups(dueDate), { groupMode: 'sender', sortOrder: 'newest' }, {}).content;
+
+describe('buildExport', () => {
+    it('puts a date-only deadline on its own day in the calendar', () => {
+        expect(exported('ics', '2024-08-02')).toContain('DTSTART;VALUE=DATE:20240802\r\n');
+    });
+
+    it('puts a deadline with a time on its local day in the calendar', () => {
+        expect(exported('ics', '2024-08-02T02:00:00.000Z')).toContain('DTSTART;VALUE=DATE:20240801\r\n');
+    });
+
+    it('shows a date-only deadline on its own day in Markdown', () => {
+        expect(exported('markdown', '2024-08-02')).toContain(`(due ${new Date(2024, 7, 2).toLocaleDateString()})`);
+    });
+});
+
+describe('parseResultsExport', () => {
+    it('rejects JSON that is not an export', () => {
+        expect(() => parseResultsExport('null')).toThrow("wasn't exported from Mail Organizer");
+        expect(() => parseResultsExport('[]')).toThrow("wasn't exported from Mail Organizer");
+    });
+
+    it('falls back to the default view when it is missing or unknown', () => {
+        const file = (view: unknown) => JSON.stringify({ format: 'mail-organizer-results', version: 1, view, groups: [] });
+        expect(parseResultsExport(file(null)).view).toEqual({ groupMode: 'sender', sortOrder: 'newest' });
+        expect(parseResultsExport(file({ groupMode: 'size', sortOrder: 'oldest' })).view).toEqual({ groupMode: 'sender', sortOrder: 'oldest' });
+        expect(parseResultsExport(file({ groupMode: 'thread' })).view.groupMode).toBe('thread');
+    });
+});
+
+describe('JSON export', () => {
+    it('reads back with the same email IDs, so calendar events keep their UIDs', () => {
+        const original = groups('2024-08-02');
+        const restored = parseResultsExport(buildExport('json', original, { groupMode: 'sender', sortOrder: 'newest' }, {}).content);
+        expect(restored.groups.flatMap((group) => group.emails.map((item) => item.id))).toEqual(['email-1']);
+        expect(buildExport('ics', restored.groups, { groupMode: 'sender', sortOrder: 'newest' }, {}).content).toContain('UID:email-1@mail-organizer');
+    });
+
+    it('gives an email a new ID when it has none or repeats one', () => {
+        const file = JSON.stringify({ format: 'mail-organizer-results', version: 1, groups: [{ ...groups('')[0], emails: [email(''), email(''), { ...email(''), id: '' }] }] });
+        const ids = parseResultsExport(file).groups[0].emails.map((item) => item.id);
+        expect(ids[0]).toBe('email-1');
+        expect(new Set(ids).size).toBe(3);
+        expect(ids).not.toContain('');
+    });
+});
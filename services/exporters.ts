@@ -0,0 +1,254 @@
+import type { EmailWithSender, ExportFormat, GroupMode, OrganizedEmailGroup, ResultsExport, SortOrder, ThreadSummaries } from '../types';
+import { buildGroupViews } from './emailGrouping';
+import { validateGroups } from './validation';
+import { CATEGORY_LABELS, MAIL_KIND_LABELS, PRIORITY_LABELS } from './categories';
+import { RISK_LABELS } from './phishing';
+import { dueDay, formatDueDate } from './dueDates';
+import { fillThreadIds } from './threading';
+
+const EXPORT_FORMAT_ID = 'mail-organizer-results';
+const EXPORT_VERSION = 1;
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+    { format: 'csv', label: 'CSV (spreadsheet)', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+    { format: 'json', label: 'JSON (re-importable)', extension: 'json', mimeType: 'application/json' },
+    { format: 'markdown', label: 'Markdown digest', extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+    { format: 'ics', label: 'Calendar (.ics)', extension: 'ics', mimeType: 'text/calendar;charset=utf-8' },
+];
+
+interface ExportView {
+    groupMode: GroupMode;
+    sortOrder: SortOrder;
+}
+
+type Serializer = (groups: OrganizedEmailGroup[], view: ExportView, threadSummaries: ThreadSummaries) => string;
+
+const formatDate = (date: string): string => (date ? new Date(date).toLocaleString() : '');
+
+// Emails in the order they are shown for the current grouping.
+const emailsInViewOrder = (groups: OrganizedEmailGroup[], view: ExportView): EmailWithSender[] =>
+    buildGroupViews(groups, view.groupMode, view.sortOrder).flatMap(groupView => groupView.emails);
+
+const escapeCsvCell = (value: string | number): string => {
+    let text = String(value);
+    // Spreadsheets run cells starting with these characters as formulas.
+    if (/^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv: Serializer = (groups, view) => {
+    const header = ['Sender name', 'Sender email', 'Subject', 'Date', 'Category', 'Kind', 'Priority', 'Priority reason', 'Phishing risk', 'Tags', 'Language', 'Summary', 'Original summary', 'Action items', 'Attachments'];
+    const rows = emailsInViewOrder(groups, view).map(email => [
+        email.senderName,
+        email.senderEmail,
+        email.subject,
+        email.date,
+        CATEGORY_LABELS[email.category],
+        MAIL_KIND_LABELS[email.kind],
+        email.priority,
+        email.priorityReason,
+        email.risk.level === 'low' ? '' : `${RISK_LABELS[email.risk.level]}: ${email.risk.reasons.join(' ')}`,
+        email.tags.join('; '),
+        email.language,
+        email.summary,
+        email.originalSummary,
+        email.actionItems
+            .map(item => [item.description, item.owner && `owner: ${item.owner}`, item.dueDate && `due ${item.dueDate}`].filter(Boolean).join(', '))
+            .join('; '),
+        email.attachments.map(attachment => attachment.fileName).join('; '),
+    ]);
+    // The byte order mark makes Excel read the file as UTF-8.
+    return '\uFEFF' + [header, ...rows].map(row => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+const toJson: Serializer = (groups, view, threadSummaries) => {
+    // Only the summaries of conversations that are part of the export.
+    const threadIds = new Set(groups.flatMap(group => group.emails.map(email => email.threadId)));
+    const exported: ResultsExport = {
+        format: EXPORT_FORMAT_ID,
+        version: EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        view,
+        groups,
+        threadSummaries: Object.fromEntries(Object.entries(threadSummaries).filter(([threadId]) => threadIds.has(threadId))),
+    };
+    return JSON.stringify(exported, null, 2);
+};
+
+const escapeMarkdown = (text: string): string => text.replace(/([\\`*_[\]<>#|])/g, '\\$1');
+
+const toMarkdown: Serializer = (groups, view, threadSummaries) => {
+    const lines = ['# Email digest', '', `_Exported ${new Date().toLocaleString()}_`];
+    for (const groupView of buildGroupViews(groups, view.groupMode, view.sortOrder)) {
+        lines.push('', `## ${escapeMarkdown(groupView.title)}`);
+        if (groupView.subtitle) {
+            lines.push('', escapeMarkdown(groupView.subtitle));
+        }
+        if (view.groupMode === 'thread' && threadSummaries[groupView.key]) {
+            lines.push('', `> ${escapeMarkdown(threadSummaries[groupView.key])}`);
+        }
+        lines.push('');
+        for (const email of groupView.emails) {
+            const details = [
+                groupView.showSender && (email.senderName || email.senderEmail),
+                formatDate(email.date),
+                CATEGORY_LABELS[email.category],
+                `${PRIORITY_LABELS[email.priority]} priority`,
+                email.risk.level !== 'low' && RISK_LABELS[email.risk.level],
+            ].filter(Boolean).map(detail => escapeMarkdown(String(detail)));
+            lines.push(`- **${escapeMarkdown(email.subject || '(no subject)')}** (${details.join(', ')})`);
+            lines.push(`  ${escapeMarkdown(email.summary)}`);
+            for (const item of email.actionItems) {
+                const due = item.dueDate ? ` (due ${formatDueDate(item.dueDate)})` : '';
+                lines.push(`  - [ ] ${escapeMarkdown(item.description)}${due}`);
+            }
+        }
+    }
+    return lines.join('\n') + '\n';
+};
+
+const escapeIcsText = (text: string): string =>
+    text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// iCalendar lines may be at most 75 octets; longer ones continue on lines starting with a space.
+const foldIcsLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    for (const char of line) {
+        const limit = parts.length === 0 ? 75 : 74;
+        if (encoder.encode(current + char).length > limit) {
+            parts.push(current);
+            current = '';
+        }
+        current += char;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+const toIcsDateTime = (date: string): string => new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Deadlines are whole days in the user's time zone.
+const toIcsDate = (date: string): string => dueDay(date).replace(/-/g, '');
+
+/**
+ * One event per dated email, plus an all-day event on the due date of every action item
+ * that has one.
+ */
+const toIcs: Serializer = (groups, view) => {
+    const stamp = toIcsDateTime(new Date().toISOString());
+    const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Mail Organizer//Export//EN', 'CALSCALE:GREGORIAN'];
+    for (const email of emailsInViewOrder(groups, view)) {
+        const sender = email.senderName || email.senderEmail || 'Unknown sender';
+        if (email.date) {
+            lines.push(
+                'BEGIN:VEVENT',
+                `UID:${email.id}@mail-organizer`,
+                `DTSTAMP:${stamp}`,
+                `DTSTART:${toIcsDateTime(email.date)}`,
+                `SUMMARY:${escapeIcsText(`Email: ${email.subject || '(no subject)'}`)}`,
+                `DESCRIPTION:${escapeIcsText(`From ${sender}\n\n${email.summary}`)}`,
+                'END:VEVENT',
+            );
+        }
+        email.actionItems.forEach((item, index) => {
+            if (!item.dueDate) return;
+            lines.push(
+                'BEGIN:VEVENT',
+                `UID:${email.id}-task-${index}@mail-organizer`,
+                `DTSTAMP:${stamp}`,
+                `DTSTART;VALUE=DATE:${toIcsDate(item.dueDate)}`,
+                `SUMMARY:${escapeIcsText(`Due: ${item.description}`)}`,
+                `DESCRIPTION:${escapeIcsText(`From "${email.subject || '(no subject)'}" by ${sender}${item.owner ? `\nOwner: ${item.owner}` : ''}`)}`,
+                'END:VEVENT',
+            );
+        });
+    }
+    lines.push('END:VCALENDAR');
+    return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+const SERIALIZERS: Record<ExportFormat, Serializer> = {
+    csv: toCsv,
+    json: toJson,
+    markdown: toMarkdown,
+    ics: toIcs,
+};
+
+/**
+ * Serializes the given groups (as currently sorted and filtered) in one of the export formats.
+ */
+export const buildExport = (
+    format: ExportFormat,
+    groups: OrganizedEmailGroup[],
+    view: ExportView,
+    threadSummaries: ThreadSummaries,
+): { content: string; fileName: string; mimeType: string } => {
+    const { extension, mimeType } = EXPORT_FORMATS.find(option => option.format === format)!;
+    const fileName = `organized-emails-${new Date().toISOString().slice(0, 10)}.${extension}`;
+    return { content: SERIALIZERS[format](groups, view, threadSummaries), fileName, mimeType };
+};
+
+export const downloadFile = (content: string | Blob, fileName: string, mimeType: string): void => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
+
+const GROUP_MODES: GroupMode[] = ['sender', 'category', 'priority', 'thread'];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isResultsExportFile = (file: File): boolean => /\.json$/i.test(file.name) || file.type === 'application/json';
+
+/**
+ * Reads a JSON export back. The groups go through the same validation as model output,
+ * so a hand-edited file can't put malformed emails into the results.
+ */
+export const parseResultsExport = (text: string): ResultsExport => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error("This file isn't valid JSON.");
+    }
+    if (!isPlainObject(data) || data.format !== EXPORT_FORMAT_ID) {
+        throw new Error("This JSON file wasn't exported from Mail Organizer.");
+    }
+    if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+        throw new Error("This export was made by a newer version of the app and can't be read.");
+    }
+
+    const { value: groups, issues } = validateGroups(data.groups);
+    if (issues.length > 0) {
+        throw new Error(`This export is damaged: ${issues[0].path} ${issues[0].message}.`);
+    }
+    const view = isPlainObject(data.view) ? data.view : {};
+    const groupMode: GroupMode = GROUP_MODES.find(mode => mode === view.groupMode) ?? 'sender';
+    const threadSummaries: ThreadSummaries = {};
+    if (isPlainObject(data.threadSummaries)) {
+        for (const [threadId, summary] of Object.entries(data.threadSummaries)) {
+            if (typeof summary === 'string') {
+                threadSummaries[threadId] = summary;
+            }
+        }
+    }
+    const sortOrder: SortOrder = view.sortOrder === 'oldest' ? 'oldest' : 'newest';
+    return {
+        format: EXPORT_FORMAT_ID,
+        version: data.version,
+        exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+        view: { groupMode, sortOrder },
+        groups: fillThreadIds(groups),
+        threadSummaries,
+    };
+};
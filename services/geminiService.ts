@@ -1,5 +1,8 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import type { OrganizedEmailGroup } from '../types';
+import type { EmailOrganizerProvider, ModelTask, PartialOutputHandler } from '../types';
+import { buildDigestPrompt, buildExtractionPrompt, buildRepairPrompt, buildReplyPrompt, buildSummaryPrompt, buildThreadSummaryPrompt } from './prompts';
+import { EMAIL_CATEGORIES, MAIL_KINDS } from './categories';
+import { watchStreamedItems } from './partialJson';
 
 let ai: GoogleGenAI | null = null;
 
@@ -14,6 +17,62 @@ const getAiClient = (): GoogleGenAI => {
     return ai;
 };
 
+// Triage and action item fields shared by both schemas.
+const triageProperties = {
+    category: {
+      type: Type.STRING,
+      enum: EMAIL_CATEGORIES,
+      description: "The kind of email, e.g. 'invoice' for bills and receipts or 'action-required' when the recipient must do something.",
+    },
+    priority: {
+      type: Type.INTEGER,
+      description: "How urgently the recipient should read this email, from 1 (can be ignored) to 5 (urgent).",
+    },
+    priorityReason: {
+      type: Type.STRING,
+      description: "A short reason for the priority (e.g., 'Payment due tomorrow').",
+    },
+    actionItems: {
+      type: Type.ARRAY,
+      description: "Things the email asks someone to do. Empty if there are none.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          description: {
+            type: Type.STRING,
+            description: "What needs to be done (e.g., 'Send the signed contract').",
+          },
+          owner: {
+            type: Type.STRING,
+            description: "Who is expected to do it: a name, 'me' for the recipient, or an empty string if unclear.",
+          },
+          dueDate: {
+            type: Type.STRING,
+            description: "The deadline in ISO 8601 format (e.g., '2024-08-02'), or an empty string if there is none.",
+          },
+        },
+        required: ["description", "owner", "dueDate"],
+      },
+    },
+    kind: {
+      type: Type.STRING,
+      enum: MAIL_KINDS,
+      description: "Who sent the email: 'human' for a person writing to the recipient, 'transactional' for one-off automated messages such as receipts and alerts, 'bulk' for newsletters and other mass mailings.",
+    },
+    suspicionReason: {
+      type: Type.STRING,
+      description: "One sentence on why the email looks like phishing, a scam or impersonation, or an empty string if it doesn't.",
+    },
+    language: {
+      type: Type.STRING,
+      description: "The language the email is written in, as an ISO 639-1 code such as 'en' or 'de'.",
+    },
+    originalSummary: {
+      type: Type.STRING,
+      description: "The summary in the email's own language if that differs from the summary language, otherwise an empty string.",
+    },
+};
+
 const schema = {
     type: Type.ARRAY,
     description: "A list of email groups, where each group belongs to a unique sender.",
@@ -46,8 +105,9 @@ const schema = {
                 type: Type.STRING,
                 description: "A concise, one-paragraph summary of the email body.",
               },
+              ...triageProperties,
             },
-            required: ["subject", "date", "summary"],
+            required: ["subject", "date", "summary", "category", "priority", "priorityReason", "actionItems", "kind", "suspicionReason", "language", "originalSummary"],
           },
         },
       },
@@ -55,51 +115,152 @@ const schema = {
     },
 };
 
+const summarySchema = {
+    type: Type.ARRAY,
+    description: "One summary for each numbered email in the input.",
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        index: {
+          type: Type.INTEGER,
+          description: "The number of the email being summarized, as given in the input.",
+        },
+        summary: {
+          type: Type.STRING,
+          description: "A concise, one-paragraph summary of the email body.",
+        },
+        ...triageProperties,
+      },
+      required: ["index", "summary", "category", "priority", "priorityReason", "actionItems", "kind", "suspicionReason", "language", "originalSummary"],
+    },
+};
+
+const threadSummarySchema = {
+    type: Type.ARRAY,
+    description: "One summary for each numbered conversation in the input.",
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        index: {
+          type: Type.INTEGER,
+          description: "The number of the conversation being summarized, as given in the input.",
+        },
+        summary: {
+          type: Type.STRING,
+          description: "A concise, one-paragraph summary of the whole conversation and where it stands.",
+        },
+      },
+      required: ["index", "summary"],
+    },
+};
+
+const replySchema = {
+    type: Type.OBJECT,
+    properties: {
+      subject: {
+        type: Type.STRING,
+        description: "The subject line of the reply, e.g. 'Re: Quarterly report'.",
+      },
+      body: {
+        type: Type.STRING,
+        description: "The plain-text body of the reply, including the greeting and sign-off.",
+      },
+    },
+    required: ["subject", "body"],
+};
+
+const digestPoint = (description: string, extraProperties: object = {}, extraRequired: string[] = []) => ({
+    type: Type.ARRAY,
+    description,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        text: {
+          type: Type.STRING,
+          description: "The point itself, in one or two sentences.",
+        },
+        sources: {
+          type: Type.ARRAY,
+          description: "The numbers of the emails this point is based on, as given in the input.",
+          items: { type: Type.INTEGER },
+        },
+        ...extraProperties,
+      },
+      required: ["text", "sources", ...extraRequired],
+    },
+});
+
+const digestSchema = {
+    type: Type.OBJECT,
+    properties: {
+      overview: {
+        type: Type.STRING,
+        description: "Two or three sentences on what matters most across all emails.",
+      },
+      keyThreads: digestPoint("The key conversations and topics."),
+      decisions: digestPoint("Decisions that were made."),
+      openQuestions: digestPoint("Questions that still need an answer."),
+      deadlines: digestPoint("Deadlines, soonest first.", {
+        dueDate: {
+          type: Type.STRING,
+          description: "The deadline in ISO 8601 format (e.g., '2024-08-02').",
+        },
+      }, ["dueDate"]),
+    },
+    required: ["overview", "keyThreads", "decisions", "openQuestions", "deadlines"],
+};
 
-export const organizeEmails = async (emailContent: string): Promise<OrganizedEmailGroup[]> => {
-    const prompt = `
-        You are an expert email organization assistant.
-        Analyze the following block of text which contains one or more emails.
-        Extract the sender's name, sender's email address, subject, date, and a concise summary of the email body for each email.
-        The date for each email must be in the ISO 8601 format (e.g., '2024-07-30T10:00:00Z').
-        Group the results by the sender's email address.
-        Provide the output in the structured JSON format defined by the provided schema.
-        If you cannot find a piece of information, represent it as an empty string.
+const SCHEMAS: Record<ModelTask, object> = {
+    summaries: summarySchema,
+    groups: schema,
+    threads: threadSummarySchema,
+};
 
-        Email Content:
-        ---
-        ${emailContent}
-        ---
-    `;
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
 
-    try {
-        const client = getAiClient();
-        const response = await client.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: schema,
-            },
-        });
-        
-        const jsonText = response.text.trim();
-        const parsedJson = JSON.parse(jsonText);
+// Streams the response when someone wants the partial output, so results can be shown while the model writes.
+const generateJson = async (model: string, prompt: string, responseSchema: object, signal?: AbortSignal, onPartialOutput?: PartialOutputHandler): Promise<unknown> => {
+    const client = getAiClient();
+    const request = {
+        model,
+        contents: prompt,
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema,
+            abortSignal: signal,
+        },
+    };
 
-        // Basic validation
-        if (!Array.isArray(parsedJson)) {
-            throw new Error("AI returned data in an unexpected format.");
-        }
+    if (!onPartialOutput) {
+        const response = await client.models.generateContent(request);
+        return JSON.parse(response.text.trim());
+    }
 
-        return parsedJson as OrganizedEmailGroup[];
-    } catch (error) {
-        console.error("Error calling Gemini API:", error);
-        if (error instanceof Error) {
-            // Preserve our specific configuration error message
-            if (error.message.startsWith("AI Service Error:")) {
-                throw error;
-            }
-        }
-        throw new Error("Failed to organize emails. The AI model might be unable to process the input. Please try again with clearer email content.");
+    let jsonText = '';
+    const readPiece = watchStreamedItems(onPartialOutput);
+    for await (const chunk of await client.models.generateContentStream(request)) {
+        const piece = chunk.text || '';
+        jsonText += piece;
+        readPiece(piece);
     }
+    return JSON.parse(jsonText.trim());
 };
+
+export const createGeminiProvider = (model: string = DEFAULT_GEMINI_MODEL, summaryLanguage = 'en'): EmailOrganizerProvider => ({
+    label: 'Google Gemini',
+    checkConfiguration: () => {
+        getAiClient();
+    },
+    summarizeEmails: (emails, signal, onPartialOutput) =>
+        generateJson(model, buildSummaryPrompt(emails, summaryLanguage), summarySchema, signal, onPartialOutput),
+    extractEmails: (emailContent, signal, onPartialOutput) =>
+        generateJson(model, buildExtractionPrompt(emailContent, summaryLanguage), schema, signal, onPartialOutput),
+    summarizeThreads: (threads, signal) =>
+        generateJson(model, buildThreadSummaryPrompt(threads, summaryLanguage), threadSummarySchema, signal),
+    draftReply: (request, signal) =>
+        generateJson(model, buildReplyPrompt(request), replySchema, signal),
+    writeDigest: (emails, signal) =>
+        generateJson(model, buildDigestPrompt(emails, summaryLanguage), digestSchema, signal),
+    repairOutput: (task, output, issues, signal) =>
+        generateJson(model, buildRepairPrompt(task, output, issues), SCHEMAS[task], signal),
+});
@@ -0,0 +1,86 @@
+export const GMAIL_READONLY_SCOPE = 'https://www.googleapis.com/auth/gmail.readonly';
+export const GMAIL_MODIFY_SCOPE = 'https://www.googleapis.com/auth/gmail.modify';
+
+// 'read' is enough to fetch mail; 'modify' also allows labelling, archiving and trashing it.
+export type GmailAccess = 'read' | 'modify';
+
+const SCOPES: Record<GmailAccess, string> = {
+    read: GMAIL_READONLY_SCOPE,
+    modify: GMAIL_MODIFY_SCOPE,
+};
+
+const MISSING_PERMISSION: Record<GmailAccess, string> = {
+    read: "Reading Gmail needs permission to view your messages. Please allow it when Google asks.",
+    modify: "Changing your Gmail needs permission to modify your messages. Please allow it when Google asks.",
+};
+
+// Renew a little before Google's expiry so a token never runs out mid-fetch.
+const EXPIRY_MARGIN_MS = 60_000;
+
+let accessToken: { token: string; expiresAt: number; scopes: string[] } | null = null;
+
+export const hasGmailAccess = (access: GmailAccess = 'read'): boolean =>
+    !!accessToken && accessToken.expiresAt - EXPIRY_MARGIN_MS > Date.now() && accessToken.scopes.includes(SCOPES[access]);
+
+/**
+ * Asks the signed-in user for access to their Gmail on top of the sign-in they already
+ * gave (incremental authorization), and resolves with an OAuth access token. Read access
+ * is requested first; modify access only once the user asks to change their mail. The
+ * token is kept in memory only and reused until it expires. A call that needs a new grant
+ * must come from a click, since it opens Google's consent popup.
+ */
+export const requestGmailAccess = (loginHint: string, access: GmailAccess = 'read'): Promise<string> => {
+    if (accessToken && hasGmailAccess(access)) {
+        return Promise.resolve(accessToken.token);
+    }
+    return new Promise((resolve, reject) => {
+        const oauth2 = window.google?.accounts?.oauth2;
+        if (!oauth2) {
+            reject(new Error("Google Sign-In hasn't finished loading. Please try again in a moment."));
+            return;
+        }
+        const tokenClient = oauth2.initTokenClient({
+            client_id: process.env.GOOGLE_CLIENT_ID!,
+            scope: SCOPES[access],
+            include_granted_scopes: true,
+            login_hint: loginHint,
+            prompt: '',
+            callback: (response: any) => {
+                if (response.error) {
+                    reject(new Error(`Google didn't grant Gmail access: ${response.error_description || response.error}.`));
+                    return;
+                }
+                if (!oauth2.hasGrantedAllScopes(response, SCOPES[access])) {
+                    reject(new Error(MISSING_PERMISSION[access]));
+                    return;
+                }
+                accessToken = {
+                    token: response.access_token,
+                    expiresAt: Date.now() + Number(response.expires_in) * 1000,
+                    // With include_granted_scopes the token also carries every scope granted earlier.
+                    scopes: String(response.scope || SCOPES[access]).split(' '),
+                };
+                resolve(response.access_token);
+            },
+            error_callback: (error: any) => {
+                reject(new Error(error?.type === 'popup_closed'
+                    ? "The Google authorization window was closed before access was granted."
+                    : "Google authorization failed. Please allow pop-ups for this site and try again."));
+            },
+        });
+        tokenClient.requestAccessToken();
+    });
+};
+
+// Drops the cached token, e.g. after Gmail rejected it, so the next request asks again.
+export const forgetGmailAccess = (): void => {
+    accessToken = null;
+};
+
+// Revokes Gmail access on sign-out so the token can't be reused.
+export const revokeGmailAccess = (): void => {
+    if (accessToken) {
+        window.google?.accounts?.oauth2?.revoke(accessToken.token, () => {});
+        accessToken = null;
+    }
+};
@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createGmailClient } from './gmailClient';
+
+// Answers every request with the given JSON.
+const respondWith = (body: unknown) => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(body), { status: 200 })));
+};
+
+const client = createGmailClient({ getAccessToken: async () => 'token' });
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('createGmailClient', () => {
+    it('lists labels, system labels first, leaving out malformed ones', async () => {
+        respondWith({ labels: [{ id: 'L1', name: 'Receipts', type: 'user' }, { id: 'INBOX', name: 'INBOX', type: 'system' }, { id: 'L2' }, 'junk', null] });
+        expect(await client.listLabels()).toEqual([
+            { id: 'INBOX', name: 'INBOX', system: true },
+            { id: 'L1', name: 'Receipts', system: false },
+        ]);
+    });
+
+    it('treats a response without a label list as no labels', async () => {
+        respondWith({ labels: 'none' });
+        expect(await client.listLabels()).toEqual([]);
+    });
+
+    it('lists message IDs, skipping entries without one', async () => {
+        respondWith({ messages: [{ id: 'm1' }, { threadId: 't' }, { id: 42 }], nextPageToken: 'next' });
+        expect(await client.listMessages({ search: '', dateFrom: '', dateTo: '', labelId: '', maxMessages: 10 }, null)).toEqual({ ids: ['m1'], nextPageToken: 'next' });
+    });
+
+    it('rejects a message without its raw content', async () => {
+        respondWith({ id: 'm1', raw: 12 });
+        await expect(client.getRawMessage('m1')).rejects.toThrow('without its raw content');
+    });
+});
@@ -0,0 +1,189 @@
+import type { MailboxClient, MailboxLabel, MailboxQuery, MessagePage } from '../types';
+import type { GmailAccess } from './gmailAuth';
+import { runWithConcurrency } from './batching';
+
+export const DEFAULT_GMAIL_API_BASE_URL = 'https://gmail.googleapis.com';
+
+// Gmail allows up to 500 IDs per page; smaller pages make progress visible sooner.
+const PAGE_SIZE = 100;
+
+// The most IDs Gmail accepts in one batchModify call.
+const MODIFY_BATCH_SIZE = 1000;
+
+// Gmail has no batch trash call, so messages are trashed one request at a time.
+const TRASH_CONCURRENCY = 5;
+
+interface GmailClientOptions {
+    baseUrl?: string;
+    getAccessToken: (access: GmailAccess) => Promise<string>;
+    onUnauthorized?: () => void; // Called when Gmail rejects the token, e.g. after it was revoked
+}
+
+// Gmail returns raw messages as base64url-encoded bytes.
+const decodeBase64Url = (data: string): string => {
+    const base64 = data.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+    return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+};
+
+// Seconds since the epoch at local midnight of a YYYY-MM-DD date, plus `days`.
+const toEpochSeconds = (date: string, days = 0): number => {
+    const midnight = new Date(`${date}T00:00:00`);
+    midnight.setDate(midnight.getDate() + days);
+    return Math.floor(midnight.getTime() / 1000);
+};
+
+/**
+ * Turns a query into Gmail search syntax. Dates use epoch seconds so the range follows
+ * the user's time zone rather than Gmail's; the end date is inclusive.
+ */
+export const toGmailSearch = ({ search, dateFrom, dateTo }: MailboxQuery): string =>
+    [
+        search.trim(),
+        dateFrom ? `after:${toEpochSeconds(dateFrom)}` : '',
+        dateTo ? `before:${toEpochSeconds(dateTo, 1)}` : '',
+    ].filter(Boolean).join(' ');
+
+interface RequestOptions {
+    method?: 'GET' | 'POST';
+    params?: Record<string, string | string[]>;
+    body?: unknown;
+}
+
+// Gmail's responses are checked field by field before they reach the rest of the app.
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A list field of a response, or an empty list if it is missing or malformed.
+const listField = (response: unknown, field: string): unknown[] => {
+    const value = isObject(response) ? response[field] : undefined;
+    return Array.isArray(value) ? value : [];
+};
+
+const stringField = (value: unknown, field: string): string => {
+    const fieldValue = isObject(value) ? value[field] : undefined;
+    return typeof fieldValue === 'string' ? fieldValue : '';
+};
+
+// Labels without an ID or name are left out.
+const toLabel = (label: unknown): MailboxLabel | null => {
+    const id = stringField(label, 'id');
+    const name = stringField(label, 'name');
+    return id && name ? { id, name, system: stringField(label, 'type') === 'system' } : null;
+};
+
+const describeFailure = (status: number, message: string): string => {
+    switch (status) {
+        case 401:
+            return "Gmail access has expired or was revoked. Please connect Gmail again.";
+        case 403:
+            return `Gmail refused the request: ${message || 'permission denied'}.`;
+        case 429:
+            return "Gmail is rate limiting requests. Please wait a minute and try again.";
+        default:
+            return `Gmail responded with ${status}${message ? `: ${message}` : ''}.`;
+    }
+};
+
+/**
+ * A MailboxClient for the Gmail REST API. `baseUrl` defaults to Google's server and can
+ * point at a local mock that serves the same /gmail/v1 routes.
+ */
+export const createGmailClient = ({ baseUrl = DEFAULT_GMAIL_API_BASE_URL, getAccessToken, onUnauthorized }: GmailClientOptions): MailboxClient => {
+    // GET requests only need read access; every POST changes the mailbox.
+    const request = async (path: string, { method = 'GET', params = {}, body }: RequestOptions, signal?: AbortSignal): Promise<unknown> => {
+        const url = new URL(`${baseUrl.replace(/\/+$/, '')}/gmail/v1/users/me/${path}`);
+        for (const [name, value] of Object.entries(params)) {
+            for (const item of Array.isArray(value) ? value : [value]) {
+                if (item) {
+                    url.searchParams.append(name, item);
+                }
+            }
+        }
+        const token = await getAccessToken(method === 'GET' ? 'read' : 'modify');
+        const response = await fetch(url, {
+            method,
+            headers: {
+                Authorization: `Bearer ${token}`,
+                ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+            },
+            body: body === undefined ? undefined : JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) {
+            if (response.status === 401) {
+                onUnauthorized?.();
+            }
+            const failure: unknown = await response.json().catch(() => null);
+            throw new Error(describeFailure(response.status, stringField(isObject(failure) ? failure.error : undefined, 'message')));
+        }
+        // batchModify answers with an empty body.
+        const text = await response.text();
+        return text ? JSON.parse(text) : null;
+    };
+
+    return {
+        listLabels: async (signal) => {
+            return listField(await request('labels', {}, signal), 'labels')
+                .map(toLabel)
+                .filter((label): label is MailboxLabel => label !== null)
+                .sort((a, b) => Number(b.system) - Number(a.system) || a.name.localeCompare(b.name));
+        },
+        listMessages: async (query, pageToken, signal): Promise<MessagePage> => {
+            const page = await request('messages', {
+                params: {
+                    maxResults: String(Math.min(PAGE_SIZE, query.maxMessages || PAGE_SIZE)),
+                    q: toGmailSearch(query),
+                    labelIds: query.labelId ? [query.labelId] : [],
+                    pageToken: pageToken || '',
+                },
+            }, signal);
+            const ids = listField(page, 'messages').map((message) => stringField(message, 'id')).filter(Boolean);
+            return { ids, nextPageToken: stringField(page, 'nextPageToken') || null };
+        },
+        getRawMessage: async (id, signal) => {
+            const raw = stringField(await request(`messages/${encodeURIComponent(id)}`, { params: { format: 'raw' } }, signal), 'raw');
+            if (!raw) {
+                throw new Error("Gmail returned a message without its raw content.");
+            }
+            return decodeBase64Url(raw);
+        },
+        createLabel: async (name, signal) => {
+            const label = toLabel(await request('labels', {
+                method: 'POST',
+                body: { name, labelListVisibility: 'labelShow', messageListVisibility: 'show' },
+            }, signal));
+            if (!label) {
+                throw new Error("Gmail returned a label without its ID or name.");
+            }
+            return label;
+        },
+        modifyMessages: async (ids, { addLabelIds, removeLabelIds }, signal) => {
+            for (let start = 0; start < ids.length; start += MODIFY_BATCH_SIZE) {
+                await request('messages/batchModify', {
+                    method: 'POST',
+                    body: { ids: ids.slice(start, start + MODIFY_BATCH_SIZE), addLabelIds, removeLabelIds },
+                }, signal);
+            }
+        },
+        trashMessages: async (ids, signal) => {
+            const failures: unknown[] = [];
+            await runWithConcurrency(
+                ids.map((id) => () => request(`messages/${encodeURIComponent(id)}/trash`, { method: 'POST' }, signal)),
+                TRASH_CONCURRENCY,
+                (result) => {
+                    if (result.status === 'rejected') {
+                        failures.push(result.reason);
+                    }
+                },
+                signal,
+            );
+            if (failures.length > 0) {
+                console.error("Error moving messages to the trash:", failures);
+                throw new Error(failures.length === ids.length && failures[0] instanceof Error
+                    ? failures[0].message
+                    : `${failures.length} of ${ids.length} messages could not be moved to the trash.`);
+            }
+        },
+    };
+};
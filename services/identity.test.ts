@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import type { Email, OrganizedEmailGroup } from '../types';
+import { EMPTY_IDENTITY_SETTINGS, resolveContacts } from './identity';
+import { applyRulesToGroups } from './rules';
+
+const group = (senderEmail: string, subjects: string[], mergedByRule = false): OrganizedEmailGroup => ({
+    senderName: senderEmail.split('@')[0],
+    senderEmail,
+    emails: subjects.map((subject) => ({ id: subject, subject, tags: [] }) as unknown as Email),
+    mergedByRule,
+});
+
+const summarize = (groups: OrganizedEmailGroup[]) => groups.map((item) => [item.senderName, item.emails.map((email) => email.subject)]);
+
+describe('resolveContacts', () => {
+    it('joins addresses with the same normalized form', () => {
+        const { groups, contacts } = resolveContacts([group('jane.doe@gmail.com', ['One']), group('janedoe+news@gmail.com', ['Two'])], EMPTY_IDENTITY_SETTINGS);
+        expect(groups).toHaveLength(1);
+        expect(contacts[0].addresses).toEqual(['jane.doe@gmail.com', 'janedoe+news@gmail.com']);
+    });
+
+    it('keeps a rule-merged group apart from the sender whose address it borrows', () => {
+        const rules = [{
+            id: 'billing',
+            name: 'Billing',
+            enabled: true,
+            conditions: [{ type: 'subject' as const, regex: 'invoice' }],
+            actions: [{ type: 'mergeInto' as const, groupName: 'Billing' }],
+        }];
+        const ruled = applyRulesToGroups(rules, [group('a@shop.com', ['Invoice A', 'Hello']), group('b@utility.com', ['Invoice B'])]).groups;
+        const { groups, contacts } = resolveContacts(ruled, EMPTY_IDENTITY_SETTINGS);
+        expect(summarize(groups)).toEqual([['a', ['Hello']], ['Billing', ['Invoice A', 'Invoice B']]]);
+        expect(contacts.map((contact) => contact.address)).toEqual(['a@shop.com']);
+    });
+});
@@ -0,0 +1,176 @@
+import type { AliasSuggestion, Contact, IdentitySettings, OrganizedEmailGroup } from '../types';
+import { senderDomain } from './search';
+
+export const EMPTY_IDENTITY_SETTINGS: IdentitySettings = { merges: [], splits: [], dismissedAliases: [] };
+
+// Gmail ignores dots in the local part and treats googlemail.com as gmail.com.
+const DOT_INSENSITIVE_DOMAINS = new Set(['gmail.com', 'googlemail.com']);
+
+// Shared by unrelated people, so a matching local part says nothing there.
+const FREE_MAIL_DOMAINS = new Set([
+    'gmail.com', 'googlemail.com', 'outlook.com', 'hotmail.com', 'live.com', 'msn.com', 'yahoo.com', 'icloud.com',
+    'me.com', 'aol.com', 'proton.me', 'protonmail.com', 'gmx.de', 'gmx.net', 'web.de', 'mail.com',
+]);
+
+/**
+ * The canonical form of an address: lowercased, without a "+tag" suffix and, for Gmail,
+ * without dots. Addresses with the same canonical form reach the same mailbox.
+ */
+export const normalizeAddress = (address: string): string => {
+    const lower = address.trim().toLowerCase();
+    const at = lower.lastIndexOf('@');
+    if (at <= 0) {
+        return lower;
+    }
+    let local = lower.slice(0, at).split('+')[0] || lower.slice(0, at);
+    let domain = lower.slice(at + 1);
+    if (DOT_INSENSITIVE_DOMAINS.has(domain)) {
+        local = local.replace(/\./g, '');
+        domain = 'gmail.com';
+    }
+    return `${local}@${domain}`;
+};
+
+const normalizeName = (name: string): string => name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const localTokens = (address: string): string[] => normalizeAddress(address).split('@')[0].split(/[._-]+/).filter(Boolean);
+
+/**
+ * Resolves sender groups to contacts: addresses with the same normalized form are joined
+ * unless the user split them off, and the user's merges join whole contacts. The returned
+ * groups have one entry per contact, named after it and keyed by its primary address (the
+ * one with the most emails), followed by the rule-merged groups, which belong to no contact.
+ * The stored groups are left untouched, so every merge can be undone.
+ */
+export const resolveContacts = (allGroups: OrganizedEmailGroup[], settings: IdentitySettings): { groups: OrganizedEmailGroup[]; contacts: Contact[] } => {
+    // A rule-merged group only borrows its first sender's address, so it is never joined by address.
+    const groups = allGroups.filter(group => !group.mergedByRule);
+    const parent = new Map<string, string>(groups.map(group => [group.senderEmail, group.senderEmail]));
+    const find = (address: string): string => {
+        let root = address;
+        while (parent.get(root) !== root) {
+            root = parent.get(root)!;
+        }
+        parent.set(address, root);
+        return root;
+    };
+    const union = (a: string, b: string) => parent.set(find(b), find(a));
+
+    const splits = new Set(settings.splits);
+    const byNormalized = new Map<string, string>();
+    for (const { senderEmail } of groups) {
+        if (!senderEmail || splits.has(senderEmail)) continue;
+        const normalized = normalizeAddress(senderEmail);
+        if (byNormalized.has(normalized)) {
+            union(byNormalized.get(normalized)!, senderEmail);
+        } else {
+            byNormalized.set(normalized, senderEmail);
+        }
+    }
+
+    const mergeIdOf = new Map<string, string>();
+    for (const merge of settings.merges) {
+        const present = merge.addresses.filter(address => address && parent.has(address));
+        present.slice(1).forEach(address => union(present[0], address));
+        merge.addresses.forEach(address => mergeIdOf.set(address, merge.id));
+    }
+
+    const components = new Map<string, OrganizedEmailGroup[]>();
+    for (const group of groups) {
+        const root = find(group.senderEmail);
+        components.set(root, [...(components.get(root) || []), group]);
+    }
+
+    const resolved: OrganizedEmailGroup[] = [];
+    const contacts: Contact[] = [];
+    for (const members of components.values()) {
+        const sorted = [...members].sort((a, b) => b.emails.length - a.emails.length || a.senderEmail.localeCompare(b.senderEmail));
+        const primary = sorted[0];
+        const name = primary.senderName || sorted.find(member => member.senderName)?.senderName || '';
+        resolved.push(members.length === 1 ? primary : { senderName: name, senderEmail: primary.senderEmail, emails: sorted.flatMap(member => member.emails), mergedByRule: false });
+        contacts.push({
+            address: primary.senderEmail,
+            name,
+            addresses: sorted.map(member => member.senderEmail),
+            mergeId: sorted.map(member => mergeIdOf.get(member.senderEmail)).find(Boolean) || null,
+        });
+    }
+    return { groups: [...resolved, ...allGroups.filter(group => group.mergedByRule)], contacts };
+};
+
+/**
+ * Joins two contacts into one merge. Merges either contact already belonged to are folded
+ * into the new one, so undoing it splits the contact back into its automatic parts.
+ */
+export const mergeContacts = (settings: IdentitySettings, a: Contact, b: Contact): IdentitySettings => {
+    const absorbed = settings.merges.filter(merge => merge.id === a.mergeId || merge.id === b.mergeId);
+    const addresses = [...new Set([...absorbed.flatMap(merge => merge.addresses), ...a.addresses, ...b.addresses])];
+    return {
+        ...settings,
+        merges: [...settings.merges.filter(merge => !absorbed.includes(merge)), { id: crypto.randomUUID(), addresses }],
+    };
+};
+
+// Detaches one address from its contact, whether it was joined by a merge or by normalization.
+export const splitAddress = (settings: IdentitySettings, contact: Contact, address: string): IdentitySettings => {
+    const merges = settings.merges
+        .map(merge => (merge.id === contact.mergeId ? { ...merge, addresses: merge.addresses.filter(other => other !== address) } : merge))
+        .filter(merge => merge.addresses.length > 1);
+    const normalized = normalizeAddress(address);
+    const joinedAutomatically = contact.addresses.some(other => other !== address && normalizeAddress(other) === normalized);
+    return {
+        ...settings,
+        merges,
+        splits: joinedAutomatically && !settings.splits.includes(address) ? [...settings.splits, address] : settings.splits,
+    };
+};
+
+export const undoMerge = (settings: IdentitySettings, mergeId: string): IdentitySettings => ({
+    ...settings,
+    merges: settings.merges.filter(merge => merge.id !== mergeId),
+});
+
+export const dismissAlias = (settings: IdentitySettings, suggestion: AliasSuggestion): IdentitySettings => ({
+    ...settings,
+    dismissedAliases: [...settings.dismissedAliases, suggestion.key],
+});
+
+// Why two contacts look like the same person, or null if they don't.
+const aliasReason = (a: Contact, b: Contact): string | null => {
+    const domain = senderDomain(a.address);
+    const sameDomain = !!domain && domain === senderDomain(b.address);
+    const name = normalizeName(a.name);
+    if (name && name === normalizeName(b.name) && (sameDomain || FREE_MAIL_DOMAINS.has(domain) || FREE_MAIL_DOMAINS.has(senderDomain(b.address)))) {
+        return `Both are named "${a.name}"`;
+    }
+    if (!sameDomain || FREE_MAIL_DOMAINS.has(domain)) {
+        return null;
+    }
+    // "jane" and "jane.doe", or "jdoe" and "jane.doe", at the same company.
+    const [shorter, longer] = [localTokens(a.address), localTokens(b.address)].sort((x, y) => x.length - y.length);
+    const contained = shorter.length > 0 && shorter.every(token => token.length > 1 && longer.includes(token));
+    const initials = shorter.length === 1 && longer.length >= 2 && shorter[0] === longer[0][0] + longer.slice(1).join('');
+    return contained || initials ? `Similar addresses at ${domain}` : null;
+};
+
+/**
+ * Pairs of contacts that are probably the same person, such as "jane@corp.com" and
+ * "jane.doe@corp.com", except ones the user already rejected.
+ */
+export const findAliasSuggestions = (contacts: Contact[], settings: IdentitySettings): AliasSuggestion[] => {
+    const dismissed = new Set(settings.dismissedAliases);
+    const suggestions: AliasSuggestion[] = [];
+    const candidates = contacts.filter(contact => contact.address);
+    for (let i = 0; i < candidates.length; i++) {
+        for (let j = i + 1; j < candidates.length; j++) {
+            const pair: [Contact, Contact] = [candidates[i], candidates[j]];
+            const key = pair.map(contact => contact.address).sort().join('|');
+            if (dismissed.has(key)) continue;
+            const reason = aliasReason(...pair);
+            if (reason) {
+                suggestions.push({ key, contacts: pair, reason });
+            }
+        }
+    }
+    return suggestions;
+};
@@ -0,0 +1,92 @@
+// Languages summaries can be written in, as ISO 639-1 codes.
+const SUMMARY_LANGUAGE_CODES = ['en', 'de', 'es', 'fr', 'it', 'pt', 'nl', 'pl', 'ja', 'zh', 'ko'];
+
+/**
+ * The name of a language in the given locale, e.g. "German" for 'de' in English or
+ * "Deutsch" in German. Falls back to the code for codes the browser doesn't know.
+ */
+export const languageName = (code: string, locale = 'en'): string => {
+    try {
+        return new Intl.DisplayNames([locale], { type: 'language' }).of(code) || code;
+    } catch {
+        return code;
+    }
+};
+
+// Each language under its own name, with the English name for those that differ, e.g. "Deutsch (German)".
+export const SUMMARY_LANGUAGES: { code: string; label: string }[] = SUMMARY_LANGUAGE_CODES.map(code => {
+    const english = languageName(code);
+    const native = languageName(code, code);
+    return { code, label: native.toLowerCase() === english.toLowerCase() ? english : `${native} (${english})` };
+});
+
+// The browser's language if summaries can be written in it, otherwise English.
+export const defaultSummaryLanguage = (): string => {
+    const code = (typeof navigator !== 'undefined' ? navigator.language : 'en').split('-')[0].toLowerCase();
+    return SUMMARY_LANGUAGE_CODES.includes(code) ? code : 'en';
+};
+
+// Scripts that mostly belong to one language. Kana come before Han, which Japanese also uses.
+const SCRIPTS: { pattern: RegExp; language: string }[] = [
+    { pattern: /[\u3040-\u30ff]/g, language: 'ja' },
+    { pattern: /[\uac00-\ud7af\u1100-\u11ff]/g, language: 'ko' },
+    { pattern: /[\u4e00-\u9fff]/g, language: 'zh' },
+    { pattern: /[\u0400-\u04ff]/g, language: 'ru' },
+    { pattern: /[\u0370-\u03ff]/g, language: 'el' },
+    { pattern: /[\u0590-\u05ff]/g, language: 'he' },
+    { pattern: /[\u0600-\u06ff]/g, language: 'ar' },
+    { pattern: /[\u0e00-\u0e7f]/g, language: 'th' },
+];
+
+// Frequent words that are rare in the other languages listed, for text in the Latin script.
+const COMMON_WORDS: Record<string, Set<string>> = {
+    en: new Set(['the', 'and', 'you', 'for', 'that', 'this', 'with', 'are', 'have', 'your', 'will', 'please', 'thanks', 'would', 'from']),
+    de: new Set(['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'sie', 'mit', 'für', 'auf', 'wir', 'eine', 'bitte', 'danke', 'ihr', 'wird', 'noch']),
+    es: new Set(['el', 'los', 'las', 'y', 'por', 'para', 'con', 'una', 'es', 'gracias', 'usted', 'del', 'está', 'pero', 'hola', 'su', 'lo']),
+    fr: new Set(['le', 'les', 'des', 'et', 'est', 'une', 'pour', 'dans', 'pas', 'vous', 'nous', 'avec', 'sur', 'merci', 'bonjour', 'je', 'au']),
+    it: new Set(['il', 'che', 'di', 'per', 'sono', 'non', 'della', 'gli', 'grazie', 'anche', 'questo', 'ciao', 'una', 'alla', 'è']),
+    pt: new Set(['os', 'não', 'uma', 'com', 'mais', 'obrigado', 'obrigada', 'você', 'está', 'ao', 'olá', 'seu', 'sua', 'muito']),
+    nl: new Set(['het', 'een', 'van', 'niet', 'ik', 'je', 'dat', 'met', 'voor', 'zijn', 'wij', 'bedankt', 'graag', 'ook', 'naar']),
+    pl: new Set(['nie', 'się', 'jest', 'na', 'że', 'dla', 'oraz', 'jak', 'ale', 'dziękuję', 'czy', 'proszę', 'pan', 'pani', 'tak']),
+};
+
+// Fewer matched words than this is too little to go on.
+const MIN_WORD_MATCHES = 3;
+
+/**
+ * Guesses the language of a text as an ISO 639-1 code, or an empty string if it can't tell.
+ * Used where the model doesn't say, e.g. with the offline provider. Non-Latin scripts are
+ * recognized by their characters; Latin-script languages by their most frequent words.
+ */
+export const detectLanguage = (text: string): string => {
+    const sample = text.slice(0, 3000).replace(/https?:\/\/\S+/g, ' ');
+    const letters = (sample.match(/\p{L}/gu) || []).length;
+    if (letters === 0) {
+        return '';
+    }
+    for (const { pattern, language } of SCRIPTS) {
+        if ((sample.match(pattern) || []).length / letters >= (language === 'ja' ? 0.05 : 0.3)) {
+            return language;
+        }
+    }
+
+    const counts = new Map<string, number>();
+    for (const word of sample.toLowerCase().match(/[\p{L}']+/gu) || []) {
+        for (const [language, words] of Object.entries(COMMON_WORDS)) {
+            if (words.has(word)) {
+                counts.set(language, (counts.get(language) || 0) + 1);
+            }
+        }
+    }
+    const [best, runnerUp] = [...counts].sort((a, b) => b[1] - a[1]);
+    if (!best || best[1] < MIN_WORD_MATCHES || (runnerUp && best[1] < runnerUp[1] * 1.5)) {
+        return '';
+    }
+    return best[0];
+};
+
+// Model output may say "DE", "de-DE" or "German"; only two- and three-letter codes are kept.
+export const normalizeLanguage = (value: string): string => {
+    const code = value.trim().toLowerCase().split(/[-_]/)[0];
+    return /^[a-z]{2,3}$/.test(code) ? code : '';
+};
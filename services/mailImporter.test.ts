@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { importMailFiles } from './mailImporter';
+
+const mbox = (...lines: string[]) => new File([lines.join('\n')], 'archive.mbox');
+
+describe('importMailFiles', () => {
+    it('splits an mbox archive at its separator lines', async () => {
+        const [result] = await importMailFiles([{
+            file: mbox(
+                'From a@example.com Mon Jul 29 10:00:00 2024',
+                'From: a@example.com',
+                'Subject: One',
+                '',
+                'Hello.',
+                '',
+                'From b@example.com Mon Jul 29 11:00:00 2024',
+                'From: b@example.com',
+                'Subject: Two',
+                '',
+                'Hi.',
+                '',
+            ),
+            path: '',
+        }]);
+        expect(result.error).toBeNull();
+        expect(result.emails.map((email) => email.subject)).toEqual(['One', 'Two']);
+    });
+
+    it('keeps an unescaped "From " body line in its message', async () => {
+        const [result] = await importMailFiles([{
+            file: mbox(
+                'From a@example.com Mon Jul 29 10:00:00 2024',
+                'From: a@example.com',
+                'Subject: Opening hours',
+                '',
+                'We are open:',
+                '',
+                'From Monday to Friday 9:00 to 18:00 we serve breakfast.',
+                'From Friday we close early.',
+            ),
+            path: '',
+        }]);
+        expect(result.emails).toHaveLength(1);
+        expect(result.emails[0].body).toContain('From Monday to Friday 9:00 to 18:00 we serve breakfast.\nFrom Friday we close early.');
+    });
+});
@@ -0,0 +1,194 @@
+import type { ImportedFile, ParsedEmail } from '../types';
+import { isMboxMessageStart, isMboxSeparator, parseMessage, unescapeMboxLine } from './emailParser';
+
+// A file to import, along with its path inside a dropped or picked folder (if any).
+export interface ImportSource {
+    file: File;
+    path: string;
+}
+
+// Bookkeeping files that mail clients and IMAP servers leave inside Maildir folders.
+const MAILDIR_METADATA = /^(\.|dovecot|courier|maildirfolder|subscriptions$)/i;
+
+const isMboxFileName = (name: string): boolean => /\.(mbox|mbx)$/i.test(name) || /^mbox$/i.test(name);
+
+/**
+ * Decides whether a file should be imported. Files picked inside a folder are only
+ * taken from Maildir "cur" and "new" directories, skipping the client's metadata.
+ */
+const isImportable = ({ file, path }: ImportSource): boolean => {
+    if (MAILDIR_METADATA.test(file.name)) {
+        return false;
+    }
+    const segments = path.split('/').slice(0, -1);
+    if (segments.length === 0 || isMboxFileName(file.name) || /\.eml$/i.test(file.name)) {
+        return true;
+    }
+    const parent = segments[segments.length - 1];
+    return parent === 'cur' || parent === 'new';
+};
+
+/**
+ * Streams an mbox archive line by line so multi-megabyte files are never split
+ * into one giant array, parsing each message as soon as its separator is reached.
+ */
+const readMbox = async (file: File): Promise<{ emails: ParsedEmail[]; skipped: number }> => {
+    const emails: ParsedEmail[] = [];
+    let skipped = 0;
+    let current: string[] = [];
+    let sawSeparator = false;
+
+    const finishMessage = () => {
+        const raw = current.join('\n');
+        current = [];
+        if (raw.trim() === '') {
+            return;
+        }
+        const email = parseMessage(raw);
+        if (email) {
+            emails.push(email);
+        } else {
+            skipped++;
+        }
+    };
+
+    // A separator line only turns out to start a message once the line after it is read.
+    let previousLine: string | null = null;
+    let separator: { line: string; previous: string | null } | null = null;
+
+    const handleLine = (line: string) => {
+        if (separator) {
+            if (isMboxMessageStart(separator.previous, separator.line, line)) {
+                sawSeparator = true;
+                finishMessage();
+            } else {
+                current.push(unescapeMboxLine(separator.line));
+            }
+            separator = null;
+        }
+        if (isMboxSeparator(line)) {
+            separator = { line, previous: previousLine };
+        } else {
+            current.push(unescapeMboxLine(line));
+        }
+        previousLine = line;
+    };
+
+    const reader = file.stream().pipeThrough(new TextDecoderStream()).getReader();
+    let remainder = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+        const lines = (remainder + value).split(/\r?\n/);
+        remainder = lines.pop() ?? '';
+        lines.forEach(handleLine);
+    }
+    handleLine(remainder);
+    if (separator) {
+        current.push(unescapeMboxLine(separator.line));
+    }
+    finishMessage();
+
+    if (!sawSeparator) {
+        throw new Error("This doesn't look like an mbox archive (no \"From \" separator lines found).");
+    }
+    return { emails, skipped };
+};
+
+// Some exporters save mbox archives without an extension, so also sniff the first line.
+const looksLikeMbox = async (file: File): Promise<boolean> => {
+    if (isMboxFileName(file.name)) {
+        return true;
+    }
+    const head = await file.slice(0, 1024).text();
+    return isMboxSeparator(head.split(/\r?\n/)[0]);
+};
+
+const importFile = async (source: ImportSource): Promise<ImportedFile> => {
+    const fileName = source.path || source.file.name;
+    try {
+        if (await looksLikeMbox(source.file)) {
+            const { emails, skipped } = await readMbox(source.file);
+            if (emails.length === 0) {
+                return { fileName, emails, error: "No email messages found in this archive." };
+            }
+            const error = skipped > 0 ? `Skipped ${skipped} message${skipped > 1 ? 's' : ''} without a From header.` : null;
+            return { fileName, emails, error };
+        }
+
+        // .eml files and Maildir entries hold exactly one message each.
+        const email = parseMessage(await source.file.text());
+        if (!email) {
+            return { fileName, emails: [], error: "Couldn't find email headers (From, Subject, Date) in this file." };
+        }
+        return { fileName, emails: [email], error: null };
+    } catch (err) {
+        console.error(`Error importing ${fileName}:`, err);
+        return { fileName, emails: [], error: err instanceof Error ? err.message : "The file could not be read." };
+    }
+};
+
+/**
+ * Imports each file independently so one unreadable file doesn't fail the whole batch.
+ */
+export const importMailFiles = async (sources: ImportSource[]): Promise<ImportedFile[]> => {
+    const results: ImportedFile[] = [];
+    for (const source of sources.filter(isImportable)) {
+        results.push(await importFile(source));
+    }
+    return results;
+};
+
+const readDirectoryEntries = (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> =>
+    new Promise((resolve, reject) => {
+        const reader = directory.createReader();
+        const entries: FileSystemEntry[] = [];
+        // readEntries returns results in batches until it yields an empty list.
+        const readBatch = () => reader.readEntries((batch) => {
+            if (batch.length === 0) {
+                resolve(entries);
+            } else {
+                entries.push(...batch);
+                readBatch();
+            }
+        }, reject);
+        readBatch();
+    });
+
+const collectEntry = async (entry: FileSystemEntry, path: string): Promise<ImportSource[]> => {
+    if (entry.isFile) {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        return [{ file, path }];
+    }
+    if (entry.isDirectory) {
+        const children = await readDirectoryEntries(entry as FileSystemDirectoryEntry);
+        const nested = await Promise.all(children.map((child) => collectEntry(child, `${path}/${child.name}`)));
+        return nested.flat();
+    }
+    return [];
+};
+
+/**
+ * Collects the files from a drop event, walking into dropped folders (e.g. a Maildir).
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<ImportSource[]> => {
+    const entries = Array.from(dataTransfer.items)
+        .map((item) => item.webkitGetAsEntry?.())
+        .filter((entry): entry is FileSystemEntry => !!entry);
+
+    if (entries.length === 0) {
+        return Array.from(dataTransfer.files).map((file) => ({ file, path: '' }));
+    }
+    const nested = await Promise.all(
+        entries.map((entry) => collectEntry(entry, entry.isDirectory ? entry.name : ''))
+    );
+    return nested.flat();
+};
+
+/**
+ * Converts the files from an <input type="file"> (including folder pickers) into import sources.
+ */
+export const sourcesFromFileList = (files: FileList): ImportSource[] =>
+    Array.from(files).map((file) => ({ file, path: file.webkitRelativePath || '' }));
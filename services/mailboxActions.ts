@@ -0,0 +1,64 @@
+import type { Email, MailboxAction, MailboxClient } from '../types';
+
+// How long a confirmed action waits before it is sent, so it can still be undone.
+export const UNDO_WINDOW_MS = 8000;
+
+// Gmail's system labels for the inbox and for unread messages.
+const INBOX_LABEL_ID = 'INBOX';
+const UNREAD_LABEL_ID = 'UNREAD';
+
+const countEmails = (count: number): string => `${count} email${count === 1 ? '' : 's'}`;
+
+// The mailbox messages behind the given emails. Pasted and imported emails have none.
+export const remoteIdsOf = (emails: Email[]): string[] =>
+    [...new Set(emails.map(email => email.remoteId).filter(Boolean))];
+
+// "Archive 3 emails", as asked in the confirmation dialog.
+export const describeMailboxAction = (action: MailboxAction, count: number): string => {
+    switch (action.type) {
+        case 'label':
+            return `Label ${countEmails(count)} "${action.labelName}"`;
+        case 'archive':
+            return `Archive ${countEmails(count)}`;
+        case 'markRead':
+            return `Mark ${countEmails(count)} as read`;
+        case 'trash':
+            return `Move ${countEmails(count)} to the trash`;
+    }
+};
+
+// "Archived 3 emails", once the action went through.
+export const describeAppliedAction = (action: MailboxAction, count: number): string => {
+    switch (action.type) {
+        case 'label':
+            return `Labelled ${countEmails(count)} "${action.labelName}".`;
+        case 'archive':
+            return `Archived ${countEmails(count)}.`;
+        case 'markRead':
+            return `Marked ${countEmails(count)} as read.`;
+        case 'trash':
+            return `Moved ${countEmails(count)} to the trash.`;
+    }
+};
+
+/**
+ * Applies an action to the given messages. A label that doesn't exist yet is created first;
+ * names are matched case-insensitively, as Gmail does.
+ */
+export const applyMailboxAction = async (client: MailboxClient, action: MailboxAction, remoteIds: string[], signal?: AbortSignal): Promise<void> => {
+    switch (action.type) {
+        case 'label': {
+            const name = action.labelName.trim();
+            const labels = await client.listLabels(signal);
+            const label = labels.find(candidate => candidate.name.toLowerCase() === name.toLowerCase())
+                ?? await client.createLabel(name, signal);
+            return client.modifyMessages(remoteIds, { addLabelIds: [label.id], removeLabelIds: [] }, signal);
+        }
+        case 'archive':
+            return client.modifyMessages(remoteIds, { addLabelIds: [], removeLabelIds: [INBOX_LABEL_ID] }, signal);
+        case 'markRead':
+            return client.modifyMessages(remoteIds, { addLabelIds: [], removeLabelIds: [UNREAD_LABEL_ID] }, signal);
+        case 'trash':
+            return client.trashMessages(remoteIds, signal);
+    }
+};
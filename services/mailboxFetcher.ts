@@ -0,0 +1,76 @@
+import type { ImportedFile, MailboxClient, MailboxLabel, MailboxQuery, ParsedEmail } from '../types';
+import { parseMessage } from './emailParser';
+import { runWithConcurrency } from './batching';
+
+const FETCH_CONCURRENCY = 5;
+
+export interface MailboxFetchProgress {
+    fetched: number;
+    total: number; // Grows while pages of message IDs are still being listed
+}
+
+interface MailboxFetchOptions {
+    signal?: AbortSignal;
+    onProgress?: (progress: MailboxFetchProgress) => void;
+}
+
+// Names the fetched batch in the imported files list, e.g. "Gmail: INBOX, from:alice (2024-01-01 to 2024-01-31)".
+export const describeQuery = (query: MailboxQuery, labels: MailboxLabel[]): string => {
+    const label = labels.find((candidate) => candidate.id === query.labelId)?.name || query.labelId || 'All mail';
+    const range = query.dateFrom || query.dateTo ? ` (${query.dateFrom || '…'} to ${query.dateTo || '…'})` : '';
+    return `Gmail: ${[label, query.search.trim()].filter(Boolean).join(', ')}${range}`;
+};
+
+/**
+ * Lists the messages matching `query` page by page, up to `query.maxMessages`, then
+ * downloads and parses their raw source with bounded concurrency. Messages that can't
+ * be fetched or parsed are counted in the result's error rather than failing the batch;
+ * cancelling keeps the messages fetched so far.
+ */
+export const fetchMailbox = async (
+    client: MailboxClient,
+    query: MailboxQuery,
+    labels: MailboxLabel[],
+    { signal, onProgress }: MailboxFetchOptions = {},
+): Promise<ImportedFile> => {
+    const ids: string[] = [];
+    let pageToken: string | null = null;
+    do {
+        const page = await client.listMessages({ ...query, maxMessages: query.maxMessages - ids.length }, pageToken, signal);
+        ids.push(...page.ids.slice(0, query.maxMessages - ids.length));
+        pageToken = page.nextPageToken;
+        onProgress?.({ fetched: 0, total: ids.length });
+    } while (pageToken && ids.length < query.maxMessages && !signal?.aborted);
+
+    const emails: (ParsedEmail | null)[] = ids.map(() => null);
+    let fetched = 0;
+    let failed = 0;
+    let unparseable = 0;
+    await runWithConcurrency(ids.map((id) => () => client.getRawMessage(id, signal)), FETCH_CONCURRENCY, (result, index) => {
+        fetched++;
+        if (result.status === 'fulfilled') {
+            const email = parseMessage(result.value);
+            if (email) {
+                emails[index] = { ...email, remoteId: ids[index] };
+            } else {
+                unparseable++;
+            }
+        } else if (!signal?.aborted) {
+            console.error(`Error fetching message ${ids[index]}:`, result.reason);
+            failed++;
+        }
+        onProgress?.({ fetched, total: ids.length });
+    }, signal);
+
+    const problems = [
+        signal?.aborted ? `Cancelled after ${fetched} of ${ids.length} messages.` : '',
+        failed > 0 ? `${failed} message${failed > 1 ? 's' : ''} could not be downloaded.` : '',
+        unparseable > 0 ? `Skipped ${unparseable} message${unparseable > 1 ? 's' : ''} without a From header.` : '',
+        ids.length === 0 ? "No messages match this search." : '',
+    ].filter(Boolean);
+    return {
+        fileName: describeQuery(query, labels),
+        emails: emails.filter((email): email is ParsedEmail => email !== null),
+        error: problems.length > 0 ? problems.join(' ') : null,
+    };
+};
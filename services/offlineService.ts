@@ -0,0 +1,321 @@
+import type { ActionItem, EmailAnalysis, EmailCategory, EmailOrganizerProvider, EmailThread, EmailWithSender, ParsedEmail, ReplyRequest, ReplyTone } from '../types';
+import { kindForCategory } from './categories';
+import { detectMailKind } from './bulkMail';
+import { assessRisk } from './phishing';
+import { detectLanguage } from './language';
+import { calendarDay, parseDueDate } from './dueDates';
+import { replySubject } from './replyDrafts';
+import { threadSubject } from './threading';
+
+const MAX_SUMMARY_SENTENCES = 2;
+const MAX_SUMMARY_CHARS = 400;
+const MAX_ACTION_ITEMS = 5;
+
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our',
+    'out', 'has', 'have', 'his', 'how', 'its', 'let', 'may', 'who', 'did', 'get', 'him', 'she', 'too', 'use', 'that',
+    'this', 'with', 'from', 'they', 'will', 'would', 'there', 'their', 'what', 'about', 'which', 'when', 'were', 'been',
+    'into', 'than', 'then', 'them', 'these', 'some', 'could', 'should', 'also', 'just', 'please', 'thanks', 'here',
+]);
+
+const GREETING = /^(hi|hello|hey|dear|good (morning|afternoon|evening)|greetings)\b[^.!?]{0,40}[,!:]?$/i;
+const SIGN_OFF = /^(thanks|thank you|cheers|best|regards|best regards|kind regards|sincerely|warm regards|many thanks)\b[^.!?]{0,20}[,!.]?$/i;
+const REPLY_ATTRIBUTION = /^(on .+ wrote:|-{2,}\s*original message\s*-{2,}|_{5,})$/i;
+
+/**
+ * Drops the parts of a body that say nothing about its content: quoted replies,
+ * signatures, greetings and sign-offs.
+ */
+const cleanBody = (body: string): string => {
+    const kept: string[] = [];
+    for (const rawLine of body.split('\n')) {
+        const line = rawLine.trim();
+        if (line === '--' || REPLY_ATTRIBUTION.test(line) || SIGN_OFF.test(line)) {
+            break;
+        }
+        if (line.startsWith('>') || GREETING.test(line)) {
+            continue;
+        }
+        kept.push(line);
+    }
+    return kept.join('\n');
+};
+
+const splitSentences = (text: string): string[] =>
+    text
+        .replace(/\s*\n\s*\n\s*/g, '. ')
+        .replace(/\s+/g, ' ')
+        .split(/(?<=[.!?])\s+(?=[A-Z0-9"'(])/)
+        .map((sentence) => sentence.replace(/^\.\s*/, '').trim())
+        .filter((sentence) => sentence.length > 0 && sentence !== '.');
+
+const tokenize = (text: string): string[] =>
+    (text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || []).filter((word) => word.length > 2 && !STOP_WORDS.has(word));
+
+/**
+ * Picks the most representative sentences of a text by word frequency, keeping
+ * their original order. Earlier sentences get a small boost since emails tend to lead with the point.
+ */
+export const summarizeText = (text: string): string => {
+    const sentences = splitSentences(cleanBody(text));
+    if (sentences.length === 0) {
+        return '';
+    }
+
+    const frequencies = new Map<string, number>();
+    for (const word of tokenize(sentences.join(' '))) {
+        frequencies.set(word, (frequencies.get(word) || 0) + 1);
+    }
+
+    const scored = sentences.map((sentence, index) => {
+        const words = tokenize(sentence);
+        const weight = words.reduce((total, word) => total + (frequencies.get(word) || 0), 0);
+        const score = words.length > 0 ? weight / Math.sqrt(words.length) : 0;
+        return { sentence, index, score: score * (1 + 1 / (index + 1)) };
+    });
+
+    const summary = scored
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_SUMMARY_SENTENCES)
+        .sort((a, b) => a.index - b.index)
+        .map(({ sentence }) => sentence)
+        .join(' ');
+
+    return summary.length > MAX_SUMMARY_CHARS ? `${summary.slice(0, MAX_SUMMARY_CHARS - 1).trimEnd()}…` : summary;
+};
+
+const ACTION_CUE = /\b(please|could you|can you|would you|need(s)? to|must|make sure|don't forget|remember to|action required|to-?do)\b/i;
+const ADDRESSED_TO_RECIPIENT = /^(please|could you|can you|would you|make sure|don't forget|remember to)\b|\byou\b/i;
+const RELATIVE_DUE = /\b(?:by|before|due|on|until)\s+(?:the\s+)?(today|tonight|tomorrow|eod|end of (?:the )?day|monday|tuesday|wednesday|thursday|friday|saturday|sunday)\b/i;
+const ABSOLUTE_DUE = /\b(?:by|before|due|on|until)\s+((?:\d{4}-\d{2}-\d{2})|(?:[a-z]+\s+\d{1,2}(?:st|nd|rd|th)?)|(?:\d{1,2}(?:st|nd|rd|th)?\s+[a-z]+))\b/i;
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Finds a deadline in a sentence, resolving relative ones ("by Friday") against the
+ * email's date. Returns a YYYY-MM-DD date or an empty string.
+ */
+const findDueDate = (sentence: string, emailDate: string): string => {
+    const reference = emailDate ? new Date(emailDate) : new Date();
+
+    const relative = sentence.match(RELATIVE_DUE);
+    if (relative) {
+        const word = relative[1].toLowerCase();
+        const due = new Date(reference);
+        if (word === 'tomorrow') {
+            due.setDate(due.getDate() + 1);
+        } else if (WEEKDAYS.includes(word)) {
+            // The next such weekday after the email was sent.
+            const days = (WEEKDAYS.indexOf(word) - due.getDay() + 7) % 7 || 7;
+            due.setDate(due.getDate() + days);
+        }
+        return calendarDay(due);
+    }
+
+    const absolute = sentence.match(ABSOLUTE_DUE);
+    if (absolute) {
+        const phrase = absolute[1].replace(/(\d)(st|nd|rd|th)\b/i, '$1');
+        if (/^\d{4}-/.test(phrase)) {
+            return parseDueDate(phrase);
+        }
+        const time = Date.parse(`${phrase} ${reference.getFullYear()}`);
+        if (!isNaN(time)) {
+            return calendarDay(new Date(time));
+        }
+    }
+    return '';
+};
+
+/**
+ * Picks out sentences that ask for something to be done ("Please send...", "We need to...").
+ */
+export const extractActionItems = (body: string, emailDate: string): ActionItem[] =>
+    splitSentences(cleanBody(body))
+        .filter((sentence) => (ACTION_CUE.test(sentence) && !sentence.endsWith('?')) || /^(could|can|would) you\b/i.test(sentence))
+        .slice(0, MAX_ACTION_ITEMS)
+        .map((sentence) => ({
+            description: sentence.length > 200 ? `${sentence.slice(0, 199).trimEnd()}…` : sentence,
+            owner: ADDRESSED_TO_RECIPIENT.test(sentence) ? 'me' : '',
+            dueDate: findDueDate(sentence, emailDate),
+        }));
+
+interface CategoryRule {
+    category: EmailCategory;
+    priority: number;
+    pattern: RegExp;
+}
+
+// Checked in order against the subject and body; the first match wins.
+const CATEGORY_RULES: CategoryRule[] = [
+    { category: 'action-required', priority: 4, pattern: /\b(action required|please (review|approve|confirm|respond|reply|sign|complete)|deadline|due (by|on|today|tomorrow)|asap|urgent)\b/i },
+    { category: 'invoice', priority: 3, pattern: /\b(invoice|receipt|payment|billing|amount due|statement|order confirmation)\b/i },
+    { category: 'meeting', priority: 3, pattern: /\b(meeting|invitation|calendar|agenda|webinar|zoom|google meet|teams call|reschedul\w*)\b/i },
+    { category: 'newsletter', priority: 1, pattern: /\b(newsletter|unsubscribe|weekly digest|this week in|view (it )?in (your )?browser)\b/i },
+    { category: 'notification', priority: 2, pattern: /\b(notification|alert|security code|verification code|password reset|has been (shipped|delivered|updated))\b/i },
+];
+
+const URGENT = /\b(urgent|asap|immediately|today|overdue|final notice)\b/i;
+const AUTOMATED_SENDER = /^(no-?reply|do-?not-?reply|notifications?|alerts?|mailer-daemon|bounce)/i;
+
+/**
+ * Assigns a category and priority from keywords, mailing-list headers and the sender address.
+ */
+export const classifyEmail = (email: Pick<ParsedEmail, 'subject' | 'body' | 'senderEmail' | 'headers'>): Pick<EmailAnalysis, 'category' | 'priority' | 'priorityReason'> => {
+    const text = `${email.subject}\n${email.body}`;
+    if (email.headers['list-unsubscribe'] || email.headers['list-id']) {
+        return { category: 'newsletter', priority: 1, priorityReason: 'Sent to a mailing list' };
+    }
+    for (const rule of CATEGORY_RULES) {
+        const match = text.match(rule.pattern);
+        if (match) {
+            const urgent = URGENT.test(text);
+            return {
+                category: rule.category,
+                priority: urgent ? Math.min(rule.priority + 1, 5) : rule.priority,
+                priorityReason: urgent ? `Mentions "${match[0]}" and sounds urgent` : `Mentions "${match[0]}"`,
+            };
+        }
+    }
+    if (AUTOMATED_SENDER.test(email.senderEmail)) {
+        return { category: 'notification', priority: 2, priorityReason: 'Sent from an automated address' };
+    }
+    if (email.senderEmail) {
+        return { category: 'personal', priority: 3, priorityReason: 'Written by a person' };
+    }
+    return { category: 'other', priority: 2, priorityReason: 'No clear signals' };
+};
+
+/**
+ * The complete rule-based analysis of one email, also used for emails the user's rules
+ * keep away from the AI provider.
+ */
+export const analyzeEmail = (email: ParsedEmail): EmailAnalysis => {
+    const classification = classifyEmail(email);
+    return {
+        summary: summarizeText(email.body) || email.subject || 'No message body.',
+        ...classification,
+        actionItems: extractActionItems(email.body, email.date),
+        kind: detectMailKind(email) || kindForCategory(classification.category),
+        suspicionReason: '',
+        // Summaries are sentences taken from the email, so they stay in its language.
+        language: detectLanguage(`${email.subject}\n${email.body}`),
+        originalSummary: '',
+    };
+};
+
+/**
+ * Describes a conversation from its participants and the summary of its latest message.
+ */
+export const summarizeThread = (thread: EmailThread): string => {
+    const names = thread.participants.map((participant) => participant.name || participant.email || 'an unknown sender');
+    const people = names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+    const latest = thread.emails[thread.emails.length - 1];
+    return `${thread.emails.length} messages from ${people}. Latest: ${latest.summary}`;
+};
+
+const REPLY_TEMPLATES: Record<ReplyTone, { greeting: string; thanks: string; signOff: string }> = {
+    friendly: { greeting: 'Hi', thanks: 'Thanks so much for your message', signOff: 'Best wishes,' },
+    formal: { greeting: 'Dear', thanks: 'Thank you for your email', signOff: 'Kind regards,' },
+    brief: { greeting: 'Hi', thanks: 'Thanks for your email', signOff: 'Thanks,' },
+};
+
+const MAX_REPLY_SUBJECTS = 3;
+
+/**
+ * Fills a reply template for the tone. The user's instruction is left in brackets as a
+ * placeholder, since there is no model here to turn it into prose.
+ */
+export const draftReplyLocally = (request: ReplyRequest): { subject: string; body: string } => {
+    const template = REPLY_TEMPLATES[request.tone];
+    const name = request.recipientName.trim();
+    const greeting = name ? `${template.greeting} ${request.tone === 'formal' ? name : name.split(/\s+/)[0]},` : 'Hello,';
+    const subjects = [...new Set(request.emails.filter((email) => email.subject).map((email) => `"${threadSubject(email.subject)}"`))];
+    const named = subjects.length > MAX_REPLY_SUBJECTS ? [...subjects.slice(0, MAX_REPLY_SUBJECTS), 'more'] : subjects;
+    const about = named.length === 0 ? '' : ` about ${named.length > 1 ? `${named.slice(0, -1).join(', ')} and ${named[named.length - 1]}` : named[0]}`;
+    const point = request.instruction ? `[${request.instruction}]` : "I'll get back to you on this shortly.";
+    return {
+        subject: replySubject(request.emails),
+        body: [greeting, `${template.thanks}${about}.`, point, template.signOff].join('\n\n'),
+    };
+};
+
+const MAX_DIGEST_POINTS = 5;
+const DECISION = /\b(decided|agreed|approved|confirmed|signed off|settled on|will go with)\b/i;
+
+/**
+ * Builds a digest in the same shape the models return: the longest conversations (or the
+ * most urgent emails), sentences that report decisions or ask questions, and dated action items.
+ */
+export const writeDigestLocally = (emails: EmailWithSender[]) => {
+    const byThread = new Map<string, number[]>();
+    emails.forEach((email, index) => {
+        const key = email.threadId || email.id;
+        byThread.set(key, [...(byThread.get(key) || []), index]);
+    });
+    const conversations = [...byThread.values()].filter((indexes) => indexes.length > 1).sort((a, b) => b.length - a.length);
+    const keyThreads = conversations.length > 0
+        ? conversations.slice(0, MAX_DIGEST_POINTS).map((indexes) => {
+            const latest = emails[indexes[indexes.length - 1]];
+            return { text: `"${threadSubject(latest.subject)}" (${indexes.length} messages). Latest: ${latest.summary}`, sources: indexes };
+        })
+        : emails
+            .map((email, index) => ({ email, index }))
+            .sort((a, b) => b.email.priority - a.email.priority)
+            .slice(0, MAX_DIGEST_POINTS)
+            .map(({ email, index }) => ({ text: `${email.senderName || email.senderEmail}: ${email.summary}`, sources: [index] }));
+
+    const sentences = emails.flatMap((email, index) => splitSentences(email.summary).map((sentence) => ({ sentence, index })));
+    const decisions = sentences.filter(({ sentence }) => DECISION.test(sentence) && !sentence.endsWith('?'));
+    const questions = sentences.filter(({ sentence }) => sentence.endsWith('?'));
+    const deadlines = emails
+        .flatMap((email, index) => email.actionItems.filter((item) => item.dueDate).map((item) => ({ text: item.description, dueDate: item.dueDate, sources: [index] })))
+        .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+    const senders = new Set(emails.map((email) => email.senderEmail)).size;
+    const actionCount = emails.filter((email) => email.actionItems.length > 0).length;
+    const urgentCount = emails.filter((email) => email.priority >= 4).length;
+    return {
+        overview: `${emails.length} email${emails.length === 1 ? '' : 's'} from ${senders} sender${senders === 1 ? '' : 's'}. ${actionCount} ask${actionCount === 1 ? 's' : ''} for action and ${urgentCount} ${urgentCount === 1 ? 'is' : 'are'} high priority or urgent.`,
+        keyThreads,
+        decisions: decisions.slice(0, MAX_DIGEST_POINTS).map(({ sentence, index }) => ({ text: sentence, sources: [index] })),
+        openQuestions: questions.slice(0, MAX_DIGEST_POINTS).map(({ sentence, index }) => ({ text: sentence, sources: [index] })),
+        deadlines,
+    };
+};
+
+/**
+ * A rule-based provider that never touches the network, for demos, CI and
+ * working without an API key. Summaries are extractive rather than generated.
+ */
+export const createOfflineProvider = (): EmailOrganizerProvider => ({
+    label: 'Offline (rule-based)',
+    checkConfiguration: () => {},
+    summarizeEmails: async (emails) =>
+        emails.map((email, index) => ({ index, ...analyzeEmail(email) })),
+    extractEmails: async (emailContent) => {
+        // Without headers there is no way to tell messages apart, so treat the text as one email.
+        const senderEmail = emailContent.match(/[^\s<>"(),;:]+@[^\s<>"(),;:]+\.[A-Za-z]{2,}/)?.[0] || '';
+        const firstLine = emailContent.split('\n').map((line) => line.trim()).find((line) => line !== '') || '';
+        const classification = classifyEmail({ subject: firstLine, body: emailContent, senderEmail, headers: {} });
+        return [{
+            senderName: senderEmail ? '' : 'Unknown sender',
+            senderEmail,
+            emails: [{
+                subject: firstLine.slice(0, 80),
+                date: '',
+                summary: summarizeText(emailContent),
+                ...classification,
+                actionItems: extractActionItems(emailContent, ''),
+                kind: detectMailKind({ senderEmail, headers: {} }) || kindForCategory(classification.category),
+                // Assessed here, where the whole text is still at hand, rather than from the summary.
+                risk: assessRisk({ senderName: '', senderEmail, subject: firstLine, body: emailContent, headers: {} }, ''),
+                language: detectLanguage(emailContent),
+            }],
+        }];
+    },
+    summarizeThreads: async (threads) =>
+        threads.map((thread, index) => ({ index, summary: summarizeThread(thread) })),
+    draftReply: async (request) => draftReplyLocally(request),
+    writeDigest: async (emails) => writeDigestLocally(emails),
+    // Rule-based output is always well-formed, so there is nothing a second attempt could fix.
+    repairOutput: async (_task, output) => output,
+});
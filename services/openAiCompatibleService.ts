@@ -0,0 +1,140 @@
+import type { EmailOrganizerProvider, ModelTask, PartialOutputHandler } from '../types';
+import { buildDigestPrompt, buildExtractionPrompt, buildRepairPrompt, buildReplyPrompt, buildSummaryPrompt, buildThreadSummaryPrompt } from './prompts';
+import { watchStreamedItems } from './partialJson';
+
+// llama.cpp's server listens here by default; Ollama serves the same API at http://localhost:11434/v1.
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:8080/v1';
+
+interface OpenAiCompatibleOptions {
+    baseUrl: string;
+    model: string;
+    apiKey: string;
+    summaryLanguage: string;
+}
+
+const SUMMARY_FORMAT = `
+        Respond with a JSON object of the form
+        {"items": [{"index": number, "summary": string, "category": string, "priority": number, "priorityReason": string,
+        "actionItems": [{"description": string, "owner": string, "dueDate": string}], "kind": string, "suspicionReason": string, "language": string, "originalSummary": string}]}
+        and nothing else.`;
+
+const EXTRACTION_FORMAT = `
+        Respond with a JSON object of the form
+        {"items": [{"senderName": string, "senderEmail": string, "emails": [{"subject": string, "date": string, "summary": string, "category": string, "priority": number, "priorityReason": string,
+        "actionItems": [{"description": string, "owner": string, "dueDate": string}], "kind": string, "suspicionReason": string, "language": string, "originalSummary": string}]}]}
+        and nothing else.`;
+
+const THREAD_SUMMARY_FORMAT = `
+        Respond with a JSON object of the form {"items": [{"index": number, "summary": string}]} and nothing else.`;
+
+const REPLY_FORMAT = `
+        Respond with a JSON object of the form {"subject": string, "body": string} and nothing else.`;
+
+const DIGEST_FORMAT = `
+        Respond with a JSON object of the form
+        {"overview": string, "keyThreads": [{"text": string, "sources": [number]}], "decisions": [{"text": string, "sources": [number]}],
+        "openQuestions": [{"text": string, "sources": [number]}], "deadlines": [{"text": string, "dueDate": string, "sources": [number]}]}
+        and nothing else.`;
+
+const FORMATS: Record<ModelTask, string> = {
+    summaries: SUMMARY_FORMAT,
+    groups: EXTRACTION_FORMAT,
+    threads: THREAD_SUMMARY_FORMAT,
+};
+
+/**
+ * Reads the "items" array from a chat completion, tolerating models that wrap
+ * the JSON in a Markdown code fence or return the bare array.
+ */
+const readItems = (content: string): unknown => {
+    const jsonText = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    const parsedJson = JSON.parse(jsonText);
+    return Array.isArray(parsedJson) || !parsedJson?.items ? parsedJson : parsedJson.items;
+};
+
+/**
+ * Reads a streamed chat completion, a series of server-sent "data:" events, passing each
+ * piece of the message to `onPiece` and returning the whole message.
+ */
+const readStreamedContent = async (response: Response, onPiece: (piece: string) => void): Promise<string> => {
+    if (!response.body) {
+        throw new Error("AI returned data in an unexpected format.");
+    }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let content = '';
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+            const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+            if (!data || data === '[DONE]') continue;
+            const piece = JSON.parse(data)?.choices?.[0]?.delta?.content;
+            if (typeof piece === 'string') {
+                content += piece;
+                onPiece(piece);
+            }
+        }
+    }
+    return content;
+};
+
+export const createOpenAiCompatibleProvider = ({ baseUrl, model, apiKey, summaryLanguage }: OpenAiCompatibleOptions): EmailOrganizerProvider => {
+    // Streams the completion when someone wants the partial output.
+    const complete = async (prompt: string, signal?: AbortSignal, onPartialOutput?: PartialOutputHandler): Promise<unknown> => {
+        const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model,
+                messages: [{ role: 'user', content: prompt }],
+                response_format: { type: 'json_object' },
+                temperature: 0.2,
+                stream: !!onPartialOutput,
+            }),
+            signal,
+        });
+        if (!response.ok) {
+            throw new Error(`The model server responded with ${response.status} ${response.statusText}.`);
+        }
+        if (onPartialOutput) {
+            return readItems(await readStreamedContent(response, watchStreamedItems(onPartialOutput)));
+        }
+        const completion = await response.json();
+        const content = completion?.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') {
+            throw new Error("AI returned data in an unexpected format.");
+        }
+        return readItems(content);
+    };
+
+    return {
+        label: 'OpenAI-compatible server',
+        checkConfiguration: () => {
+            if (!baseUrl.trim() || !model.trim()) {
+                throw new Error("AI Service Error: The OpenAI-compatible provider needs a server URL and a model name. Please set them in the AI provider settings.");
+            }
+        },
+        summarizeEmails: (emails, signal, onPartialOutput) =>
+            complete(buildSummaryPrompt(emails, summaryLanguage, SUMMARY_FORMAT), signal, onPartialOutput),
+        extractEmails: (emailContent, signal, onPartialOutput) =>
+            complete(buildExtractionPrompt(emailContent, summaryLanguage, EXTRACTION_FORMAT), signal, onPartialOutput),
+        summarizeThreads: (threads, signal) =>
+            complete(buildThreadSummaryPrompt(threads, summaryLanguage, THREAD_SUMMARY_FORMAT), signal),
+        draftReply: (request, signal) =>
+            complete(buildReplyPrompt(request, REPLY_FORMAT), signal),
+        writeDigest: (emails, signal) =>
+            complete(buildDigestPrompt(emails, summaryLanguage, DIGEST_FORMAT), signal),
+        repairOutput: (task, output, issues, signal) =>
+            complete(buildRepairPrompt(task, output, issues, FORMATS[task]), signal),
+    };
+};
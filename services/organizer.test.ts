@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { EmailOrganizerProvider, OrganizedEmailGroup, ParsedEmail } from '../types';
+import { organizeEmails } from './organizer';
+
+const parsedEmail = (senderEmail: string, subject: string): ParsedEmail => ({
+    messageId: '',
+    senderName: '',
+    senderEmail,
+    subject,
+    date: '2024-07-29T10:00:00.000Z',
+    body: 'Hello.',
+    headers: {},
+    remoteId: '',
+    attachments: [],
+});
+
+const extracted = (senderEmail: string, subject: string) => ({
+    senderName: '',
+    senderEmail,
+    emails: [{ subject, date: '2024-07-29T09:00:00Z', summary: `About ${subject}`, category: 'other', priority: 3, priorityReason: '', actionItems: [] }],
+});
+
+// Summarizes every email the same way and finds two emails in any free text, streaming
+// each list item before returning the whole output.
+const provider: EmailOrganizerProvider = {
+    label: 'Test',
+    checkConfiguration: () => {},
+    summarizeEmails: async (emails, _signal, onPartialOutput) => {
+        const summaries = emails.map((_, index) => ({ index, summary: 'A summary', category: 'other', priority: 3, priorityReason: '', actionItems: [] }));
+        summaries.forEach((_, index) => onPartialOutput?.(summaries.slice(0, index + 1)));
+        return summaries;
+    },
+    extractEmails: async (_content, _signal, onPartialOutput) => {
+        const groups = [extracted('carol@example.com', 'Notes'), extracted('dave@example.com', 'Agenda'), extracted('carol@example.com', 'More notes')];
+        groups.forEach((_, index) => onPartialOutput?.(groups.slice(0, index + 1)));
+        return groups;
+    },
+    summarizeThreads: async () => [],
+    draftReply: async () => ({}),
+    writeDigest: async () => ({}),
+    repairOutput: async (_task, output) => output,
+};
+
+describe('organizeEmails', () => {
+    it('organizes pasted text without headers alongside imported files', async () => {
+        const result = await organizeEmails(provider, 'Notes from the meeting: we ship on Friday.', [parsedEmail('alice@example.com', 'Report')]);
+        expect(result.totalChunks).toBe(2);
+        expect(result.groups.map((group) => group.senderEmail).sort()).toEqual(['alice@example.com', 'carol@example.com', 'dave@example.com']);
+    });
+
+    it('organizes header-less text pasted above emails with headers', async () => {
+        const pasted = 'Notes from the meeting: we ship on Friday.\n\nFrom: bob@example.com\nSubject: Lunch\nDate: Mon, 29 Jul 2024 10:00:00 +0000\n\nLunch at noon?';
+        const result = await organizeEmails(provider, pasted);
+        expect(result.totalChunks).toBe(2);
+        expect(result.groups.map((group) => group.senderEmail).sort()).toEqual(['bob@example.com', 'carol@example.com', 'dave@example.com']);
+    });
+
+    it('does not send pasted emails with headers to the model twice', async () => {
+        const pasted = 'From: bob@example.com\nSubject: Lunch\nDate: Mon, 29 Jul 2024 10:00:00 +0000\n\nLunch at noon?';
+        const result = await organizeEmails(provider, pasted, [parsedEmail('alice@example.com', 'Report')]);
+        expect(result.totalChunks).toBe(1);
+        expect(result.groups.map((group) => group.senderEmail).sort()).toEqual(['alice@example.com', 'bob@example.com']);
+    });
+});
+
+describe('organizeEmails with streaming output', () => {
+    const idsBySubject = (groups: OrganizedEmailGroup[]) => new Map(groups.flatMap((group) => group.emails.map((email) => [email.subject, email.id])));
+
+    it('keeps the ID an email was first shown with', async () => {
+        const partialResults: OrganizedEmailGroup[][] = [];
+        const result = await organizeEmails(
+            provider,
+            'Notes from the meeting: we ship on Friday.',
+            [parsedEmail('alice@example.com', 'Report'), parsedEmail('bob@example.com', 'Lunch')],
+            { onPartialResult: (groups) => partialResults.push(groups) },
+        );
+        const finalIds = idsBySubject(result.groups);
+        expect(finalIds.size).toBe(5);
+        expect(new Set(finalIds.values()).size).toBe(5);
+        for (const partial of partialResults) {
+            for (const [subject, id] of idsBySubject(partial)) {
+                expect(id).toBe(finalIds.get(subject));
+            }
+        }
+    });
+});
@@ -0,0 +1,259 @@
+import type { EmailAnalysis, EmailOrganizerProvider, EmailThread, ModelTask, OrganizedEmailGroup, OrganizeProgress, OrganizeResult, ParsedEmail, Rule, ThreadSummaries, ValidationIssue } from '../types';
+import { parsePastedText } from './emailParser';
+import { groupBySender, mergeGroups } from './emailGrouping';
+import { chunkItems, chunkText, runWithConcurrency } from './batching';
+import { emailPromptSize, threadPromptSize } from './prompts';
+import { validateGroups, validateSummaries, validateThreadSummaries } from './validation';
+import { assignThreadIds, buildThreads, fillThreadIds } from './threading';
+import { applyRulesBeforeOrganizing, applyRulesToGroups } from './rules';
+import { analyzeEmail } from './offlineService';
+import type { ValidationResult } from './validation';
+
+// Large inputs are split into message-aligned chunks that are organized in parallel.
+const MAX_CHUNK_CHARS = 24000;
+const MAX_CHUNK_EMAILS = 25;
+const CHUNK_CONCURRENCY = 3;
+
+export interface OrganizeOptions {
+    signal?: AbortSignal;
+    onProgress?: (progress: OrganizeProgress) => void;
+    rules?: Rule[]; // Applied in order, before and after the provider runs
+    // The results so far, including emails still streaming in from the provider. Called again
+    // as more arrive and when a chunk's output has been validated.
+    onPartialResult?: (groups: OrganizedEmailGroup[]) => void;
+}
+
+const toServiceError = (error: unknown): Error => {
+    if (error instanceof Error) {
+        // Preserve our specific configuration error message
+        if (error.message.startsWith("AI Service Error:")) {
+            return error;
+        }
+    }
+    return new Error("Failed to organize emails. The AI model might be unable to process the input. Please try again with clearer email content.");
+};
+
+interface ChunkResult {
+    groups: OrganizedEmailGroup[];
+    issues: ValidationIssue[];
+}
+
+/**
+ * Validates a provider's output and, if it is malformed, makes one repair round-trip
+ * that includes the validation issues. Whatever still fails is returned as issues.
+ */
+const requestValidated = async <T>(
+    provider: EmailOrganizerProvider,
+    task: ModelTask,
+    request: () => Promise<unknown>,
+    validate: (output: unknown) => ValidationResult<T>,
+    signal?: AbortSignal,
+): Promise<ValidationResult<T>> => {
+    const output = await request();
+    const result = validate(output);
+    if (result.issues.length === 0) {
+        return result;
+    }
+
+    try {
+        const repaired = validate(await provider.repairOutput(task, output, result.issues, signal));
+        return repaired.issues.length <= result.issues.length ? repaired : result;
+    } catch (error) {
+        if (signal?.aborted) {
+            throw error;
+        }
+        console.error("Error repairing model output:", error);
+        return result;
+    }
+};
+
+// Receives a chunk's emails that have streamed in so far, validated just enough to be shown.
+type PartialGroupsHandler = (groups: OrganizedEmailGroup[]) => void;
+
+const organizeParsedChunk = async (
+    provider: EmailOrganizerProvider,
+    chunk: ParsedEmail[],
+    threadIds: Map<ParsedEmail, string>,
+    emailIds: Map<ParsedEmail, string>,
+    onPartialGroups: PartialGroupsHandler,
+    signal?: AbortSignal,
+): Promise<ChunkResult> => {
+    const labels = chunk.map((email) => email.subject || '(no subject)');
+    const groupChunk = (emails: ParsedEmail[], summaries: EmailAnalysis[]) =>
+        groupBySender(emails, summaries, emails.map((email) => threadIds.get(email) || ''), emails.map((email) => emailIds.get(email) || ''));
+    const showPartial = (items: unknown[]) => {
+        const { value: summaries } = validateSummaries(items, labels);
+        const arrived = new Set(items.map((item) => (item as { index?: unknown } | null)?.index));
+        onPartialGroups(groupChunk(chunk.filter((_, index) => arrived.has(index)), summaries.filter((_, index) => arrived.has(index))));
+    };
+    const { value: summaries, issues } = await requestValidated(
+        provider,
+        'summaries',
+        () => provider.summarizeEmails(chunk, signal, showPartial),
+        (output) => validateSummaries(output, labels),
+        signal,
+    );
+    return { groups: groupChunk(chunk, summaries), issues };
+};
+
+const organizeTextChunk = async (provider: EmailOrganizerProvider, chunk: string, onPartialGroups: PartialGroupsHandler, signal?: AbortSignal): Promise<ChunkResult> => {
+    // Groups only ever gain emails at the end as the output streams in, so an email keeps
+    // its position, and with it its ID, from the first partial result on.
+    const chunkId = crypto.randomUUID();
+    const withIds = (groups: OrganizedEmailGroup[]): OrganizedEmailGroup[] => groups.map((group, groupIndex) => ({
+        ...group,
+        emails: group.emails.map((email, emailIndex) => ({ ...email, id: `${chunkId}-${groupIndex}-${emailIndex}` })),
+    }));
+    const { value: groups, issues } = await requestValidated(
+        provider,
+        'groups',
+        () => provider.extractEmails(chunk, signal, (items) => onPartialGroups(withIds(validateGroups(items).value))),
+        validateGroups,
+        signal,
+    );
+    return { groups: withIds(groups), issues };
+};
+
+/**
+ * Writes one summary per conversation of more than one email, in a second pass over the
+ * finished results. A failure here only loses the thread summaries, never the emails.
+ */
+const summarizeThreads = async (
+    provider: EmailOrganizerProvider,
+    groups: OrganizedEmailGroup[],
+    signal?: AbortSignal,
+): Promise<{ threadSummaries: ThreadSummaries; issues: ValidationIssue[] }> => {
+    const threadSummaries: ThreadSummaries = {};
+    const issues: ValidationIssue[] = [];
+    const threads = buildThreads(groups, {}, 'oldest').filter((thread) => thread.emails.length > 1);
+    const chunks = chunkItems(threads, threadPromptSize, MAX_CHUNK_CHARS, MAX_CHUNK_EMAILS);
+
+    const tasks = chunks.map((chunk) => async () => requestValidated(
+        provider,
+        'threads',
+        () => provider.summarizeThreads(chunk, signal),
+        (output) => validateThreadSummaries(output, chunk.map((thread) => thread.subject || '(no subject)')),
+        signal,
+    ));
+    await runWithConcurrency(tasks, CHUNK_CONCURRENCY, (result, index) => {
+        const chunk: EmailThread[] = chunks[index];
+        if (result.status === 'fulfilled') {
+            result.value.value.forEach((summary, position) => {
+                if (summary) {
+                    threadSummaries[chunk[position].id] = summary;
+                }
+            });
+            issues.push(...result.value.issues);
+        } else if (!signal?.aborted) {
+            console.error(`Error summarizing conversations with ${provider.label}:`, result.reason);
+            issues.push({ path: 'threads', message: `${chunk.length} conversation${chunk.length > 1 ? 's' : ''} could not be summarized` });
+        }
+    }, signal);
+    return { threadSummaries, issues };
+};
+
+/**
+ * Organizes pasted text and imported emails in message-aligned chunks with bounded concurrency.
+ * Failed chunks are counted rather than thrown so the other chunks' results are kept;
+ * aborting `signal` stops the run and returns whatever has finished. Emails that stream in
+ * are reported through `onPartialResult` before their chunk is validated, and are kept if
+ * the stream breaks off. The user's rules decide which emails reach the provider and
+ * adjust the results afterwards.
+ */
+export const organizeEmails = async (
+    provider: EmailOrganizerProvider,
+    emailContent: string,
+    importedEmails: ParsedEmail[] = [],
+    { signal, onProgress, rules = [], onPartialResult }: OrganizeOptions = {},
+): Promise<OrganizeResult> => {
+    let tasks: (() => Promise<ChunkResult>)[];
+    let groups: OrganizedEmailGroup[] = [];
+    let hiddenByRules = 0;
+
+    // What each running chunk has streamed in so far, shown alongside the finished chunks.
+    const partialGroups: OrganizedEmailGroup[][] = [];
+    const reportPartialResult = () => onPartialResult?.(applyRulesToGroups(rules, mergeGroups(groups, partialGroups.flat())).groups);
+    const showPartialGroups = (index: number) => (partial: OrganizedEmailGroup[]) => {
+        partialGroups[index] = partial;
+        reportPartialResult();
+    };
+    try {
+        // Headers are read locally so sender, subject and date are exact; the model only writes summaries.
+        const { emails: pastedEmails, unparsed } = parsePastedText(emailContent);
+        const parsedEmails = [...pastedEmails, ...importedEmails];
+        const { toSummarize, summarizeLocally, hidden } = applyRulesBeforeOrganizing(rules, parsedEmails);
+        hiddenByRules = hidden;
+        const kept = [...toSummarize, ...summarizeLocally];
+        const threadIds = assignThreadIds(kept);
+        const threadIdOf = new Map(kept.map((email, index) => [email, threadIds[index]]));
+        // Assigned once, so an email keeps its ID from its first partial result to the end.
+        const emailIdOf = new Map(kept.map((email) => [email, crypto.randomUUID()]));
+        groups = groupBySender(
+            summarizeLocally,
+            summarizeLocally.map(analyzeEmail),
+            summarizeLocally.map((email) => threadIdOf.get(email) || ''),
+            summarizeLocally.map((email) => emailIdOf.get(email) || ''),
+        );
+        const parsedChunks = chunkItems(toSummarize, emailPromptSize, MAX_CHUNK_CHARS, MAX_CHUNK_EMAILS);
+        // Pasted text without headers goes to the model as is, alongside the emails that have them.
+        const textChunks = chunkText(unparsed, MAX_CHUNK_CHARS);
+        tasks = [
+            ...parsedChunks.map((chunk, index) => () => organizeParsedChunk(provider, chunk, threadIdOf, emailIdOf, showPartialGroups(index), signal)),
+            ...textChunks.map((chunk, index) => () => organizeTextChunk(provider, chunk, showPartialGroups(parsedChunks.length + index), signal)),
+        ];
+        // Surface configuration problems once, up front, rather than once per chunk.
+        provider.checkConfiguration();
+    } catch (error) {
+        console.error("Error preparing emails:", error);
+        throw toServiceError(error);
+    }
+
+    const issues: ValidationIssue[] = [];
+    const failures: unknown[] = [];
+    let completedChunks = 0;
+    let keptPartialEmails = 0;
+    onProgress?.({ completedChunks, totalChunks: tasks.length });
+    reportPartialResult();
+
+    await runWithConcurrency(tasks, CHUNK_CONCURRENCY, (result, index) => {
+        completedChunks++;
+        const partial = partialGroups[index] || [];
+        partialGroups[index] = [];
+        const prefix = tasks.length > 1 ? `chunk ${index + 1}: ` : '';
+        if (result.status === 'fulfilled') {
+            groups = mergeGroups(groups, result.value.groups);
+            issues.push(...result.value.issues.map((issue) => ({ ...issue, path: prefix + issue.path })));
+        } else {
+            // Whatever streamed in before the response broke off (or was cancelled) stays in the results.
+            const kept = partial.reduce((total, group) => total + group.emails.length, 0);
+            groups = mergeGroups(groups, partial);
+            keptPartialEmails += kept;
+            if (!signal?.aborted) {
+                console.error(`Error calling ${provider.label}:`, result.reason);
+                failures.push(result.reason);
+                if (kept > 0) {
+                    issues.push({ path: `${prefix}response`, message: `broke off after ${kept} email${kept > 1 ? 's' : ''}, which ${kept > 1 ? 'are' : 'is'} kept` });
+                }
+            }
+        }
+        reportPartialResult();
+        onProgress?.({ completedChunks, totalChunks: tasks.length });
+    }, signal);
+
+    const cancelled = !!signal?.aborted;
+    if (!cancelled && tasks.length > 0 && failures.length === tasks.length && keptPartialEmails === 0) {
+        throw toServiceError(failures[0]);
+    }
+
+    // Text without headers is threaded by subject alone.
+    const ruled = applyRulesToGroups(rules, fillThreadIds(groups));
+    groups = ruled.groups;
+    hiddenByRules += ruled.hidden;
+    let threadSummaries: ThreadSummaries = {};
+    if (!cancelled) {
+        const threadResult = await summarizeThreads(provider, groups, signal);
+        threadSummaries = threadResult.threadSummaries;
+        issues.push(...threadResult.issues);
+    }
+    return { groups, threadSummaries, failedChunks: failures.length, totalChunks: tasks.length, cancelled: !!signal?.aborted, issues, hiddenByRules };
+};
@@ -0,0 +1,72 @@
+import type { PartialOutputHandler } from '../types';
+
+/**
+ * Parses the items of the first JSON list in `text` that are already complete, ignoring the
+ * one still being written. Works on output that is cut off anywhere, including inside a
+ * string, and on lists wrapped in an object such as {"items": [...]}.
+ */
+export const readCompleteItems = (text: string): unknown[] => {
+    const start = text.indexOf('[');
+    if (start === -1) {
+        return [];
+    }
+    const items: unknown[] = [];
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let itemStart = start + 1;
+
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (escaped) {
+                escaped = false;
+            } else if (char === '\\') {
+                escaped = true;
+            } else if (char === '"') {
+                inString = false;
+            }
+            continue;
+        }
+        if (char === '"') {
+            inString = true;
+        } else if (char === '[' || char === '{') {
+            depth++;
+        } else if (char === ']' || char === '}') {
+            depth--;
+        }
+        // A comma or the closing bracket at the list's own depth ends an item.
+        if ((char === ',' && depth === 1) || depth === 0) {
+            const itemText = text.slice(itemStart, i).trim();
+            if (itemText) {
+                try {
+                    items.push(JSON.parse(itemText));
+                } catch {
+                    // Not valid JSON even though it is complete; validation reports what's missing later.
+                }
+            }
+            itemStart = i + 1;
+            if (depth === 0) {
+                break;
+            }
+        }
+    }
+    return items;
+};
+
+/**
+ * Wraps a partial output handler for text that streams in piece by piece: feed it each
+ * piece, and it calls `onItems` with all complete items whenever another one completes.
+ */
+export const watchStreamedItems = (onItems: PartialOutputHandler): ((piece: string) => void) => {
+    let text = '';
+    let reported = 0;
+    return (piece) => {
+        text += piece;
+        const items = readCompleteItems(text);
+        if (items.length > reported) {
+            reported = items.length;
+            onItems(items);
+        }
+    };
+};
@@ -0,0 +1,236 @@
+import type { Email, ParsedEmail, RiskAssessment, RiskLevel } from '../types';
+
+export const RISK_LABELS: Record<RiskLevel, string> = {
+    low: 'No warning signs',
+    medium: 'Suspicious',
+    high: 'Likely phishing',
+};
+
+export const NO_RISK: RiskAssessment = { level: 'low', score: 0, reasons: [] };
+
+// Scores from which an email counts as suspicious or as likely phishing.
+const MEDIUM_RISK = 30;
+const HIGH_RISK = 60;
+
+interface Signal {
+    weight: number;
+    reason: string;
+}
+
+// Often impersonated senders and the domains they really send from. Names that are also
+// common first names (e.g. Chase) are left out, since they would flag ordinary mail.
+const BRANDS: { name: string; domains: string[] }[] = [
+    { name: 'PayPal', domains: ['paypal.com'] },
+    { name: 'Apple', domains: ['apple.com', 'icloud.com'] },
+    { name: 'Microsoft', domains: ['microsoft.com', 'outlook.com', 'office.com', 'live.com'] },
+    { name: 'Amazon', domains: ['amazon.com', 'amazon.de', 'amazon.co.uk'] },
+    { name: 'Google', domains: ['google.com', 'gmail.com'] },
+    { name: 'Netflix', domains: ['netflix.com'] },
+    { name: 'Facebook', domains: ['facebook.com', 'facebookmail.com'] },
+    { name: 'Instagram', domains: ['instagram.com'] },
+    { name: 'LinkedIn', domains: ['linkedin.com'] },
+    { name: 'DocuSign', domains: ['docusign.com', 'docusign.net'] },
+    { name: 'Dropbox', domains: ['dropbox.com'] },
+    { name: 'DHL', domains: ['dhl.com', 'dhl.de'] },
+    { name: 'FedEx', domains: ['fedex.com'] },
+    { name: 'UPS', domains: ['ups.com'] },
+    { name: 'Wells Fargo', domains: ['wellsfargo.com'] },
+    { name: 'Bank of America', domains: ['bankofamerica.com'] },
+    { name: 'Coinbase', domains: ['coinbase.com'] },
+    { name: 'GitHub', domains: ['github.com'] },
+];
+
+const belongsTo = (domain: string, official: string): boolean => domain === official || domain.endsWith(`.${official}`);
+
+// The part of a host name that was registered, e.g. "example.co.uk" for "mail.example.co.uk".
+const registrableDomain = (host: string): string => {
+    const labels = host.toLowerCase().replace(/\.$/, '').split('.');
+    const secondLevel = labels[labels.length - 2] || '';
+    const take = labels.length > 2 && (secondLevel.length <= 2 || ['com', 'net', 'org', 'gov', 'edu'].includes(secondLevel)) ? 3 : 2;
+    return labels.slice(-take).join('.');
+};
+
+const hostOf = (url: string): string => {
+    try {
+        return new URL(url).hostname.toLowerCase();
+    } catch {
+        return '';
+    }
+};
+
+// Characters swapped in to imitate others, e.g. "paypa1.com" or "rnicrosoft.com".
+const deconfuse = (domain: string): string =>
+    domain.replace(/rn/g, 'm').replace(/vv/g, 'w').replace(/0/g, 'o').replace(/1/g, 'l').replace(/3/g, 'e').replace(/5/g, 's');
+
+const editDistance = (a: string, b: string): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+/**
+ * The official domain a host imitates, if it looks like one without being it: the same
+ * after undoing character swaps, one typo away, or the brand's name with words added
+ * ("paypal-security.com"). Short domains are only compared exactly, since one letter
+ * separates many unrelated ones (ups.com and ubs.com).
+ */
+const imitatedDomain = (host: string): string | null => {
+    const domain = registrableDomain(host);
+    for (const brand of BRANDS) {
+        if (brand.domains.some(official => belongsTo(host, official))) {
+            return null;
+        }
+    }
+    for (const official of BRANDS.flatMap(brand => brand.domains)) {
+        const officialName = official.split('.')[0];
+        const name = deconfuse(domain.split('.')[0]);
+        if (deconfuse(domain) === official
+            || (official.length >= 8 && editDistance(domain, official) === 1)
+            || (officialName.length >= 5 && name !== officialName && name.split('-').includes(officialName))) {
+            return official;
+        }
+    }
+    return null;
+};
+
+const checkSender = (email: Pick<ParsedEmail, 'senderName' | 'senderEmail' | 'headers'>): Signal[] => {
+    const signals: Signal[] = [];
+    const address = email.senderEmail.toLowerCase();
+    const domain = address.split('@')[1] || '';
+    const shownAddress = email.senderName.match(/[^\s<>"'()]+@[^\s<>"'()]+\.[a-z]{2,}/i)?.[0].toLowerCase();
+    if (shownAddress && shownAddress !== address) {
+        signals.push({ weight: 40, reason: `The sender's name shows the address ${shownAddress}, but the email came from ${address}.` });
+    } else if (domain) {
+        const brand = BRANDS.find(candidate => new RegExp(`\\b${candidate.name}\\b`, 'i').test(email.senderName));
+        if (brand && !brand.domains.some(official => belongsTo(domain, official))) {
+            signals.push({ weight: 30, reason: `The sender's name mentions ${brand.name}, but ${domain} is not one of ${brand.name}'s domains.` });
+        }
+    }
+    if (domain.split('.').some(label => label.startsWith('xn--'))) {
+        signals.push({ weight: 25, reason: `The sender's domain ${domain} uses international characters, which can imitate other domains.` });
+    }
+    const imitated = domain && imitatedDomain(domain);
+    if (imitated) {
+        signals.push({ weight: 35, reason: `The sender's domain ${domain} looks like ${imitated} but is a different domain.` });
+    }
+    const replyTo = (email.headers['reply-to'] || '').match(/[^\s<>"'(),;]+@([^\s<>"'(),;]+)/)?.[1].toLowerCase();
+    if (replyTo && domain && registrableDomain(replyTo) !== registrableDomain(domain)) {
+        signals.push({ weight: 15, reason: `Replies would go to ${replyTo}, not to the sender's domain ${domain}.` });
+    }
+    return signals;
+};
+
+// The receiving server's verdicts on the sender, e.g. "spf=pass ... dkim=fail ... dmarc=fail".
+const readAuthenticationResults = (headers: Record<string, string>): Partial<Record<'spf' | 'dkim' | 'dmarc', string>> => {
+    const header = headers['authentication-results'] || '';
+    const results: Partial<Record<'spf' | 'dkim' | 'dmarc', string>> = {};
+    for (const [, method, result] of header.matchAll(/\b(spf|dkim|dmarc)=([a-z]+)/gi)) {
+        const key = method.toLowerCase() as 'spf' | 'dkim' | 'dmarc';
+        results[key] = results[key] || result.toLowerCase();
+    }
+    return results;
+};
+
+const checkAuthentication = (results: Partial<Record<'spf' | 'dkim' | 'dmarc', string>>): Signal[] => {
+    const signals: Signal[] = [];
+    if (results.dmarc === 'fail') {
+        signals.push({ weight: 40, reason: "The sender's domain failed its DMARC check, so the email may not really be from it." });
+    }
+    if (results.spf === 'fail' || results.spf === 'softfail') {
+        signals.push({ weight: results.spf === 'fail' ? 20 : 10, reason: `The sending server is not authorized by the sender's domain (SPF ${results.spf}).` });
+    }
+    if (results.dkim === 'fail') {
+        signals.push({ weight: 20, reason: 'The email\'s signature does not match its content or sender (DKIM fail).' });
+    }
+    return signals;
+};
+
+// A link written as its text followed by its target, as the parser renders HTML links: "paypal.com <https://...>".
+const SHOWN_LINK = /(?:https?:\/\/)?((?:[a-z0-9-]+\.)+[a-z]{2,})(?:\/[^\s<>]*)?\s*<(https?:\/\/[^>\s]+)>/gi;
+const IP_LINK = /https?:\/\/\d{1,3}(?:\.\d{1,3}){3}(?![\d.])/i;
+const LINK = /https?:\/\/[^\s<>"')\]]+/gi;
+
+const checkLinks = (body: string): Signal[] => {
+    const signals: Signal[] = [];
+    const mismatched = [...body.matchAll(SHOWN_LINK)]
+        .map(([, shown, href]) => ({ shown: shown.toLowerCase(), target: hostOf(href) }))
+        .filter(({ shown, target }) => target && registrableDomain(shown) !== registrableDomain(target));
+    if (mismatched.length > 0) {
+        const { shown, target } = mismatched[0];
+        const more = mismatched.length > 1 ? ` (and ${mismatched.length - 1} more link${mismatched.length > 2 ? 's' : ''})` : '';
+        signals.push({ weight: 35, reason: `A link shows ${shown} but leads to ${target}${more}.` });
+    }
+    if (IP_LINK.test(body)) {
+        signals.push({ weight: 20, reason: 'A link leads to a bare IP address instead of a domain.' });
+    }
+    const imitated = (body.match(LINK) || []).map(hostOf).find(host => host && imitatedDomain(host));
+    if (imitated) {
+        signals.push({ weight: 30, reason: `A link leads to ${imitated}, which looks like ${imitatedDomain(imitated)} but is a different domain.` });
+    }
+    return signals;
+};
+
+const CREDENTIAL_REQUEST = /\b(verify|confirm|update|validate|re-?activate|unlock)\b[^.!?\n]{0,40}\b(account|password|identity|log-?in|credentials|billing|payment (details|information|method)|card details)\b/i;
+const PAYMENT_REQUEST = /\b(wire transfer|bank transfer|gift ?cards?|bitcoin|btc|crypto(currency)?|western union|new bank (details|account)|change(d)? (of |to )?(our |my )?(bank|account) details|outstanding (invoice|payment|balance)|payment (is )?(overdue|failed|declined))\b/i;
+const URGENCY = /\b(urgent(ly)?|immediately|right away|asap|within (24|48) hours|today only|final (notice|warning)|act now|(account|access) (will be |has been |is )?(suspended|locked|disabled|closed|terminated)|unusual (sign-?in|log-?in|activity))\b/i;
+
+// Wording counts for less when the receiving server verified the sender.
+const checkWording = (text: string, verified: boolean): Signal[] => {
+    const scale = verified ? 0.5 : 1;
+    const signals: Signal[] = [];
+    if (CREDENTIAL_REQUEST.test(text)) {
+        signals.push({ weight: 25 * scale, reason: 'It asks to verify or update account, login or payment details.' });
+    }
+    if (PAYMENT_REQUEST.test(text)) {
+        signals.push({ weight: 20 * scale, reason: 'It asks for a payment by transfer, gift cards or cryptocurrency, or mentions changed bank details.' });
+    }
+    if (URGENCY.test(text)) {
+        signals.push({ weight: 10 * scale, reason: 'It pressures the reader to act urgently.' });
+    }
+    return signals;
+};
+
+/**
+ * Scores how likely an email is to be phishing or a scam from local signals: the sender's
+ * name and address, lookalike domains, the SPF, DKIM and DMARC results the receiving
+ * server recorded, links whose text and target differ, and pressure to pay or log in.
+ * The model's opinion is one more signal. Missing headers (e.g. in pasted text) count
+ * as neither good nor bad.
+ */
+export const assessRisk = (
+    email: Pick<ParsedEmail, 'senderName' | 'senderEmail' | 'subject' | 'body' | 'headers'>,
+    suspicionReason: string,
+): RiskAssessment => {
+    const authentication = readAuthenticationResults(email.headers);
+    const verified = authentication.dmarc === 'pass' || (authentication.spf === 'pass' && authentication.dkim === 'pass');
+    const signals = [
+        ...checkSender(email),
+        ...checkAuthentication(authentication),
+        ...checkLinks(email.body),
+        ...checkWording(`${email.subject}\n${email.body}`, verified),
+    ];
+    if (suspicionReason) {
+        signals.push({ weight: 30, reason: `The AI model flagged it: ${suspicionReason}` });
+    }
+    const score = Math.min(100, Math.round(signals.reduce((total, signal) => total + signal.weight, 0)));
+    return {
+        level: score >= HIGH_RISK ? 'high' : score >= MEDIUM_RISK ? 'medium' : 'low',
+        score,
+        reasons: [...signals].sort((a, b) => b.weight - a.weight).map(signal => signal.reason),
+    };
+};
+
+export const isSuspicious = (email: Pick<Email, 'risk'>): boolean => email.risk.level !== 'low';
+
+// For assessments read back from exports, which may have been edited.
+export const isRiskAssessment = (value: unknown): value is RiskAssessment => {
+    const risk = value as RiskAssessment | null;
+    return !!risk && typeof risk === 'object' && Object.keys(RISK_LABELS).includes(risk.level)
+        && typeof risk.score === 'number' && Array.isArray(risk.reasons) && risk.reasons.every(reason => typeof reason === 'string');
+};
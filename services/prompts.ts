@@ -0,0 +1,195 @@
+import type { EmailThread, EmailWithSender, ModelTask, ParsedEmail, ReplyRequest, ReplyTone, ValidationIssue } from '../types';
+import { EMAIL_CATEGORIES, MAIL_KINDS, MAX_PRIORITY, MIN_PRIORITY } from './categories';
+import { languageName } from './language';
+
+// Bodies are truncated before being sent so a single long message can't dominate the prompt.
+export const MAX_BODY_CHARS = 4000;
+
+const SCHEMA_INSTRUCTION = "Provide the output in the structured JSON format defined by the provided schema.";
+
+const TRIAGE_INSTRUCTION = `Also assign each email a category (one of: ${EMAIL_CATEGORIES.join(', ')}), a priority from ${MIN_PRIORITY} (can be ignored) to ${MAX_PRIORITY} (urgent), a short reason for that priority, and a kind: 'human' if a person wrote it to the recipient, 'transactional' for one-off automated messages such as receipts, alerts and password resets, or 'bulk' for newsletters, marketing and other mass mailings. Finally give a suspicionReason: one sentence on why the email looks like phishing, a scam or impersonation, or an empty string if it doesn't.`;
+
+const ACTION_ITEM_INSTRUCTION = "List every action item in each email: what needs to be done, who owns it (a name, 'me' for the recipient, or an empty string if unclear), and its due date in ISO 8601 format (resolving relative dates like 'next Friday' against the email's date), or an empty string if there is none. Use an empty list when there are no action items.";
+
+// Summaries are written in the chosen language, with one in the email's own language kept for the "Show original" toggle.
+const summaryLanguageInstruction = (language: string): string => {
+    const name = languageName(language || 'en');
+    return `Write every summary, priority reason and action item in ${name}, whatever language the email is in. Give each email's language as an ISO 639-1 code (e.g. 'de'). If the email isn't in ${name}, also give an originalSummary: the same summary written in the email's own language; otherwise leave originalSummary empty.`;
+};
+
+export const emailPromptSize = (email: ParsedEmail): number => email.subject.length + Math.min(email.body.length, MAX_BODY_CHARS);
+
+// Names and local summaries only; attachment contents are never sent.
+const describeAttachments = (email: ParsedEmail): string =>
+    email.attachments.length === 0
+        ? ''
+        : `Attachments: ${email.attachments.map((attachment) => attachment.summary ? `${attachment.fileName} (${attachment.summary})` : attachment.fileName).join('; ')}\n`;
+
+export const buildSummaryPrompt = (emails: ParsedEmail[], language: string, formatInstruction = SCHEMA_INSTRUCTION): string => {
+    const numberedEmails = emails
+        .map((email, index) => `[${index}] Subject: ${email.subject}\nDate: ${email.date || 'unknown'}\n${describeAttachments(email)}${email.body.slice(0, MAX_BODY_CHARS)}`)
+        .join('\n\n');
+
+    return `
+        You are an expert email organization assistant.
+        The following emails are numbered in square brackets.
+        Write a concise, one-paragraph summary of the body of each email.
+        ${TRIAGE_INSTRUCTION}
+        ${ACTION_ITEM_INSTRUCTION}
+        ${summaryLanguageInstruction(language)}
+        Return one entry per email with its number.
+        ${formatInstruction}
+        If an email has no body, summarize it from its subject.
+
+        Emails:
+        ---
+        ${numberedEmails}
+        ---
+    `;
+};
+
+export const threadPromptSize = (thread: EmailThread): number =>
+    thread.emails.reduce((total, email) => total + email.subject.length + email.summary.length, 0);
+
+// Threads are summarized from their emails' summaries rather than the full bodies, which keeps the prompt small.
+export const buildThreadSummaryPrompt = (threads: EmailThread[], language: string, formatInstruction = SCHEMA_INSTRUCTION): string => {
+    const numberedThreads = threads
+        .map((thread, index) => {
+            const messages = thread.emails
+                .map((email) => `- ${email.date || 'unknown date'}, ${email.senderName || email.senderEmail || 'unknown sender'}: ${email.subject}\n  ${email.summary}`)
+                .join('\n');
+            return `[${index}] Conversation: ${thread.subject}\n${messages}`;
+        })
+        .join('\n\n');
+
+    return `
+        You are an expert email organization assistant.
+        The following email conversations are numbered in square brackets. Each lists its messages oldest first, with a summary of each message.
+        Write a concise, one-paragraph summary of each conversation as a whole: what it is about, how it developed, and where it stands now (including any open questions or decisions).
+        Write the summaries in ${languageName(language || 'en')}.
+        Return one entry per conversation with its number.
+        ${formatInstruction}
+
+        Conversations:
+        ---
+        ${numberedThreads}
+        ---
+    `;
+};
+
+const TONE_INSTRUCTIONS: Record<ReplyTone, string> = {
+    friendly: 'Write in a warm, friendly and personal tone.',
+    formal: 'Write in a polite, formal business tone.',
+    brief: 'Keep it as short as possible: two or three sentences, no small talk.',
+};
+
+// Replies are drafted from the summaries, since the original bodies aren't kept after organizing.
+export const buildReplyPrompt = (request: ReplyRequest, formatInstruction = SCHEMA_INSTRUCTION): string => {
+    const emails = request.emails
+        .map((email) => `- ${email.date || 'unknown date'}: ${email.subject}\n  ${email.summary}`)
+        .join('\n');
+    const replyTo = request.emails.length > 1
+        ? 'Write one reply that answers all of the following emails from the same sender together.'
+        : 'Write a reply to the following email.';
+    // Replies go back to the sender, so they're written in the sender's language rather than the summary language.
+    const senderLanguage = request.emails.find((email) => email.language)?.language;
+
+    return `
+        You are an expert email writing assistant, writing on behalf of the recipient.
+        ${replyTo}
+        ${request.instruction ? `The reply should: ${request.instruction}` : 'Respond appropriately to what the sender wrote or asked.'}
+        ${TONE_INSTRUCTIONS[request.tone]}
+        ${senderLanguage ? `Write the reply in ${languageName(senderLanguage)}, the language the sender wrote in.` : 'Write the reply in the language the sender wrote in.'}
+        Address the sender as ${request.recipientName || 'appropriate'}. Only state facts given below or in the instruction, and don't invent commitments, dates or figures.
+        Sign off without a name, so the user can add their own.
+        Return the subject line (usually "Re: " followed by the original subject) and the plain-text body.
+        ${formatInstruction}
+
+        Emails from ${request.recipientName || 'the sender'}:
+        ---
+        ${emails}
+        ---
+    `;
+};
+
+// The digest is written from summaries and action items, like thread summaries, to fit a whole run in one prompt.
+export const buildDigestPrompt = (emails: EmailWithSender[], language: string, formatInstruction = SCHEMA_INSTRUCTION): string => {
+    const numberedEmails = emails
+        .map((email, index) => {
+            const actionItems = email.actionItems
+                .map((item) => `\n  To do: ${item.description}${item.owner ? ` (owner: ${item.owner})` : ''}${item.dueDate ? ` (due ${item.dueDate})` : ''}`)
+                .join('');
+            return `[${index}] ${email.date || 'unknown date'}, ${email.senderName || email.senderEmail || 'unknown sender'}: ${email.subject}\n  ${email.summary}${actionItems}`;
+        })
+        .join('\n');
+
+    return `
+        You are an expert executive assistant.
+        The following emails are numbered in square brackets, oldest first, each with a summary and its action items.
+        Write a briefing for the recipient that covers all of them together:
+        - an overview of two or three sentences with what matters most,
+        - the key conversations and topics,
+        - decisions that were made,
+        - open questions that still need an answer,
+        - deadlines, each with its due date in ISO 8601 format.
+        Each point is one or two sentences and lists the numbers of the emails it is based on. Only use information from these emails.
+        Leave a list empty when there is nothing for it, and don't repeat a point in several lists.
+        Write the briefing in ${languageName(language || 'en')}.
+        ${formatInstruction}
+
+        Emails:
+        ---
+        ${numberedEmails}
+        ---
+    `;
+};
+
+// Used when the input has no recognizable headers: the model extracts everything itself.
+export const buildExtractionPrompt = (emailContent: string, language: string, formatInstruction = SCHEMA_INSTRUCTION): string => `
+        You are an expert email organization assistant.
+        Analyze the following block of text which contains one or more emails.
+        Extract the sender's name, sender's email address, subject, date, and a concise summary of the email body for each email.
+        ${TRIAGE_INSTRUCTION}
+        ${ACTION_ITEM_INSTRUCTION}
+        ${summaryLanguageInstruction(language)}
+        The date for each email must be in the ISO 8601 format (e.g., '2024-07-30T10:00:00Z').
+        Group the results by the sender's email address.
+        ${formatInstruction}
+        If you cannot find a piece of information, represent it as an empty string.
+
+        Email Content:
+        ---
+        ${emailContent}
+        ---
+    `;
+
+export const buildRepairPrompt = (
+    task: ModelTask,
+    output: unknown,
+    issues: ValidationIssue[],
+    formatInstruction = SCHEMA_INSTRUCTION,
+): string => {
+    const problems = issues.map((issue) => `- ${issue.path}: ${issue.message}`).join('\n');
+    const expected = task === 'summaries'
+        ? "a list with one { index, summary, category, priority, priorityReason, actionItems, kind, suspicionReason, language, originalSummary } entry per email, where index is the email's number"
+        : task === 'threads'
+        ? "a list with one { index, summary } entry per conversation, where index is the conversation's number"
+        : "a list of sender groups, each with senderName, senderEmail and a list of emails with subject, date (ISO 8601), summary, category, priority, priorityReason, actionItems, kind, suspicionReason, language and originalSummary";
+
+    return `
+        You are an expert email organization assistant.
+        Your previous response did not match the required format, which is ${expected}.
+        Valid categories are: ${EMAIL_CATEGORIES.join(', ')}. Valid kinds are: ${MAIL_KINDS.join(', ')}. Priorities are whole numbers from ${MIN_PRIORITY} to ${MAX_PRIORITY}.
+        Each action item has a description, an owner and a dueDate (ISO 8601 or an empty string).
+        These problems were found:
+        ${problems}
+
+        Correct the response so that it fixes every problem above without changing any content that was already valid.
+        ${formatInstruction}
+
+        Previous response:
+        ---
+        ${JSON.stringify(output)}
+        ---
+    `;
+};
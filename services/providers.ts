@@ -0,0 +1,37 @@
+import type { EmailOrganizerProvider, ProviderId, ProviderSettings } from '../types';
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from './geminiService';
+import { createOpenAiCompatibleProvider, DEFAULT_OPENAI_COMPATIBLE_BASE_URL } from './openAiCompatibleService';
+import { createOfflineProvider } from './offlineService';
+import { defaultSummaryLanguage } from './language';
+
+export interface ProviderOption {
+    id: ProviderId;
+    label: string;
+    defaultModel: string;
+}
+
+export const PROVIDER_OPTIONS: ProviderOption[] = [
+    { id: 'gemini', label: 'Google Gemini', defaultModel: DEFAULT_GEMINI_MODEL },
+    { id: 'openai-compatible', label: 'OpenAI-compatible server (llama.cpp, Ollama)', defaultModel: 'llama3.1' },
+    { id: 'offline', label: 'Offline (rule-based, no network)', defaultModel: '' },
+];
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+    provider: 'gemini',
+    model: DEFAULT_GEMINI_MODEL,
+    baseUrl: DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+    apiKey: '',
+    summaryLanguage: defaultSummaryLanguage(),
+};
+
+export const createProvider = (settings: ProviderSettings): EmailOrganizerProvider => {
+    switch (settings.provider) {
+        case 'openai-compatible':
+            return createOpenAiCompatibleProvider(settings);
+        case 'offline':
+            return createOfflineProvider();
+        case 'gemini':
+        default:
+            return createGeminiProvider(settings.model || DEFAULT_GEMINI_MODEL, settings.summaryLanguage);
+    }
+};
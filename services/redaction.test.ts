@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { createRedactor } from './redaction';
+
+const redactor = () => createRedactor({ enabled: true, kinds: ['email'], customTerms: [] });
+
+describe('createRedactor', () => {
+    it('redacts every text field of nested objects and lists, except the ones left alone', () => {
+        const { redact } = redactor();
+        const redacted = redact({ id: 'bob@example.com', body: 'Write to bob@example.com', items: [{ note: 'cc bob@example.com' }], count: 2, missing: null });
+        expect(redacted).toEqual({ id: 'bob@example.com', body: 'Write to [EMAIL_1]', items: [{ note: 'cc [EMAIL_1]' }], count: 2, missing: null });
+    });
+
+    it('puts the originals back anywhere in the output', () => {
+        const { redact, restore } = redactor();
+        redact('Write to bob@example.com');
+        expect(restore({ id: '[EMAIL_1]', summaries: ['Reply to [EMAIL_1]'] })).toEqual({ id: 'bob@example.com', summaries: ['Reply to bob@example.com'] });
+    });
+});
+
+describe('signature detection', () => {
+    const redactSignatures = (text: string) => createRedactor({ enabled: true, kinds: ['signature'], customTerms: [] }).redact(text);
+
+    it('redacts the block after a sign-off at the end of a message', () => {
+        expect(redactSignatures('See you then.\n\nBest regards,\nAlice Smith\nHead of Sales\n+1 555 0100 200\n')).toBe('See you then.\n\nBest regards,\n[SIGNATURE_1]\n');
+    });
+
+    it('keeps body text that follows a sign-off in the middle of a message', () => {
+        const text = 'Thanks,\nthe invoice arrived and is paid.\nThe next one is due in August.\n\nBest,\nAlice';
+        expect(redactSignatures(text)).toBe('Thanks,\nthe invoice arrived and is paid.\nThe next one is due in August.\n\nBest,\n[SIGNATURE_1]');
+    });
+});
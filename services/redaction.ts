@@ -0,0 +1,290 @@
+import type { EmailOrganizerProvider, PartialOutputHandler, RedactionEntry, RedactionKind, RedactionSettings } from '../types';
+
+// The detectors the user can switch on and off; custom terms are redacted whenever there are any.
+export const REDACTION_KINDS: { kind: RedactionKind; label: string }[] = [
+    { kind: 'secret', label: 'Passwords, API keys and tokens' },
+    { kind: 'card', label: 'Payment card numbers' },
+    { kind: 'account', label: 'Bank account numbers and IBANs' },
+    { kind: 'ssn', label: 'US Social Security numbers' },
+    { kind: 'email', label: 'Email addresses' },
+    { kind: 'phone', label: 'Phone numbers' },
+    { kind: 'address', label: 'Street addresses' },
+    { kind: 'signature', label: 'Signature blocks' },
+];
+
+export const REDACTION_KIND_LABELS: Record<RedactionKind, string> = {
+    ...Object.fromEntries(REDACTION_KINDS.map(({ kind, label }) => [kind, label])) as Record<RedactionKind, string>,
+    custom: 'Your own terms',
+};
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+    enabled: true,
+    kinds: REDACTION_KINDS.map(({ kind }) => kind),
+    customTerms: [],
+};
+
+const PLACEHOLDER_TAGS: Record<RedactionKind, string> = {
+    custom: 'TERM',
+    signature: 'SIGNATURE',
+    secret: 'SECRET',
+    card: 'CARD',
+    account: 'ACCOUNT',
+    ssn: 'SSN',
+    email: 'EMAIL',
+    phone: 'PHONE',
+    address: 'ADDRESS',
+};
+
+const PLACEHOLDER = /\[[A-Z]+_\d+\]/g;
+const ONLY_PLACEHOLDER = /^\[[A-Z]+_\d+\]$/;
+
+interface Detector {
+    kind: RedactionKind;
+    patterns: RegExp[]; // Global; each match is checked with `isValid`
+    isValid?: (match: string) => boolean;
+    // Different spellings of one value (e.g. with and without spaces) share a placeholder.
+    normalize?: (match: string) => string;
+}
+
+const digitsOf = (text: string): string => text.replace(/\D/g, '');
+
+const passesLuhn = (digits: string): boolean => {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+};
+
+// ISO 13616: the country code and check digits moved to the end, read as a number, leave 1 modulo 97.
+const isValidIban = (text: string): boolean => {
+    const iban = text.replace(/\s/g, '').toUpperCase();
+    if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) {
+        return false;
+    }
+    let remainder = 0;
+    for (const char of iban.slice(4) + iban.slice(0, 4)) {
+        const value = parseInt(char, 36);
+        remainder = (remainder * (value > 9 ? 100 : 10) + value) % 97;
+    }
+    return remainder === 1;
+};
+
+// Phone-like digit runs that are really dates, times or amounts.
+const NOT_A_PHONE_NUMBER = [/^\d{1,4}[-./]\d{1,2}[-./]\d{1,4}$/, /^\d{1,3}(?:[.,]\d{3})+$/];
+
+const isPhoneNumber = (match: string): boolean => {
+    const digits = digitsOf(match).length;
+    return digits <= 15 && (digits >= 8 || (match.startsWith('+') && digits >= 7)) && !NOT_A_PHONE_NUMBER.some(pattern => pattern.test(match));
+};
+
+const STREET_SUFFIXES = 'Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Parkway|Pkwy|Circle|Cir|Highway|Hwy|Square|Sq';
+
+// In order: later detectors only see what the earlier ones left, so a phone number inside a
+// signature block is part of the signature and a card number is never taken for a phone number.
+const DETECTORS: Detector[] = [
+    {
+        kind: 'signature',
+        patterns: [
+            // The "-- " delimiter and the lines after it, up to the next blank line.
+            /^-- ?\r?\n[^\r\n]*\S[^\r\n]*(?:\r?\n[^\r\n]*\S[^\r\n]*){0,9}/gm,
+            // Up to six lines after a sign-off such as "Best regards," (the sign-off itself is kept),
+            // only at the end of the text so a "Thanks," in the middle of a message leaves the rest alone.
+            /(?<=^(?:(?:best|kind|warm|many) )?(?:regards|wishes|cheers|thanks|thank you|sincerely|best)[,.!]?[ \t]*\r?\n)[^\r\n]*\S[^\r\n]*(?:\r?\n[^\r\n]*\S[^\r\n]*){0,5}(?![\s\S]*\S)/gim,
+        ],
+    },
+    {
+        kind: 'secret',
+        patterns: [
+            /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+            /\beyJ[\w-]{10,}\.eyJ[\w-]{10,}\.[\w-]{10,}/g, // JSON Web Tokens
+            /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g, // AWS access keys
+            /\bAIza[\w-]{35}(?![\w-])/g, // Google API keys
+            /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g, // GitHub tokens
+            /\bxox[abposr]-[A-Za-z0-9-]{10,}/g, // Slack tokens
+            /\b(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{16,}\b/g, // Stripe keys
+            /\bsk-[A-Za-z0-9_-]{20,}/g, // OpenAI-style keys
+            // The value after "password:", "api_key=" and the like.
+            /(?<=\b(?:password|passwort|passcode|pwd|pin|api[ _-]?key|secret|token|access[ _-]?key)[ \t]*[:=][ \t]*)[^\s"'<>]{4,}/gi,
+        ],
+    },
+    {
+        kind: 'card',
+        patterns: [/\b\d(?:[ -]?\d){12,18}\b/g],
+        isValid: match => {
+            const digits = digitsOf(match);
+            return digits.length >= 13 && digits.length <= 19 && !/^(\d)\1+$/.test(digits) && passesLuhn(digits);
+        },
+        normalize: digitsOf,
+    },
+    {
+        kind: 'account',
+        patterns: [/\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g],
+        isValid: isValidIban,
+        normalize: match => match.replace(/\s/g, ''),
+    },
+    {
+        kind: 'account',
+        // Numbers labelled as account numbers; there is no checksum to go by.
+        patterns: [/(?<=\b(?:account|acct|a\/c)(?: ?(?:no\.?|number|#))?[ \t]*:?[ \t]*)\d[\d -]{4,}\d\b/gi],
+        normalize: digitsOf,
+    },
+    {
+        kind: 'ssn',
+        patterns: [/\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g],
+        normalize: digitsOf,
+    },
+    {
+        kind: 'email',
+        patterns: [/\b[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}\b/gi],
+        normalize: match => match.toLowerCase(),
+    },
+    {
+        kind: 'phone',
+        patterns: [/(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]\d{2,5}){1,4}(?!\w)/g],
+        isValid: isPhoneNumber,
+        normalize: digitsOf,
+    },
+    {
+        kind: 'address',
+        patterns: [
+            // "221 Baker Street", "1600 Pennsylvania Ave NW, Suite 4"
+            new RegExp(`\\b\\d{1,5} (?:[A-Z][a-z]+\\.? ){1,3}(?:${STREET_SUFFIXES})\\b\\.?(?: [NS]?[EW]?\\b)?(?:,? (?:Apt|Apartment|Suite|Ste|Unit|#) ?[\\w-]+)?`, 'g'),
+            // "Hauptstraße 12a", "Kirchweg 3"
+            /(?<!\p{L})\p{Lu}[\p{L}-]*(?:straße|strasse|str\.|weg|gasse|platz|allee|ring|damm) ?\d{1,4} ?[a-z]?(?!\p{L})/gu,
+        ],
+    },
+];
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const customTermDetector = (terms: string[]): Detector | null => {
+    const words = [...new Set(terms.map(term => term.trim()).filter(Boolean))].sort((a, b) => b.length - a.length);
+    if (words.length === 0) {
+        return null;
+    }
+    return {
+        kind: 'custom',
+        patterns: [new RegExp(`(?<![\\p{L}\\p{N}])(?:${words.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'giu')],
+        normalize: match => match.toLowerCase(),
+    };
+};
+
+// Ids, dates and headers are never sent as free text, and dates would be taken for phone numbers.
+// Attachment contents are never sent at all.
+const UNREDACTED_FIELDS = new Set(['id', 'messageId', 'threadId', 'remoteId', 'date', 'dueDate', 'headers', 'unsubscribeLinks', 'hash', 'content']);
+
+export interface Redactor {
+    // Replaces what the detectors find in a string, or in every text field of an object or list.
+    redact: <T>(value: T) => T;
+    // Puts the originals back in place of known placeholders, anywhere in a model's output.
+    restore: <T>(value: T) => T;
+    entries: () => RedactionEntry[];
+}
+
+/**
+ * Creates the redaction pass for one run. Each distinct value gets one placeholder, such as
+ * "[EMAIL_1]", for as long as the redactor lives, so the model can still tell that two emails
+ * mention the same person or account. Custom terms are matched before the detectors.
+ */
+export const createRedactor = (settings: RedactionSettings): Redactor => {
+    const custom = customTermDetector(settings.customTerms);
+    const detectors = [...(custom ? [custom] : []), ...DETECTORS.filter(detector => settings.kinds.includes(detector.kind))];
+    const byValue = new Map<string, RedactionEntry>();
+    const byPlaceholder = new Map<string, RedactionEntry>();
+    const numbers = new Map<RedactionKind, number>();
+
+    const placeholderFor = (detector: Detector, original: string): string => {
+        const key = `${detector.kind}:${detector.normalize ? detector.normalize(original) : original}`;
+        let entry = byValue.get(key);
+        if (!entry) {
+            const number = (numbers.get(detector.kind) || 0) + 1;
+            numbers.set(detector.kind, number);
+            entry = { placeholder: `[${PLACEHOLDER_TAGS[detector.kind]}_${number}]`, kind: detector.kind, original, count: 0 };
+            byValue.set(key, entry);
+            byPlaceholder.set(entry.placeholder, entry);
+        }
+        entry.count++;
+        return entry.placeholder;
+    };
+
+    const redactText = (text: string): string =>
+        detectors.reduce((current, detector) => detector.patterns.reduce(
+            (result, pattern) => result.replace(pattern, match =>
+                ONLY_PLACEHOLDER.test(match) || (detector.isValid && !detector.isValid(match)) ? match : placeholderFor(detector, match)),
+            current,
+        ), text);
+
+    // Originals can hold placeholders themselves, e.g. a signature with a custom term in it.
+    const restoreText = (text: string): string => text.replace(PLACEHOLDER, placeholder => {
+        const entry = byPlaceholder.get(placeholder);
+        return entry ? restoreText(entry.original) : placeholder;
+    });
+
+    // Applies `transform` to every string in `value`, except in the fields that are left alone.
+    const mapStrings = (value: unknown, transform: (text: string) => string, skipFields: boolean): unknown => {
+        if (typeof value === 'string') {
+            return transform(value);
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => mapStrings(item, transform, skipFields));
+        }
+        if (value !== null && typeof value === 'object') {
+            return Object.fromEntries(Object.entries(value).map(([key, field]) => [
+                key,
+                skipFields && UNREDACTED_FIELDS.has(key) ? field : mapStrings(field, transform, skipFields),
+            ]));
+        }
+        return value;
+    };
+
+    return {
+        redact: <T>(value: T) => mapStrings(value, redactText, true) as T,
+        restore: <T>(value: T) => mapStrings(value, restoreText, false) as T,
+        entries: () => [...byValue.values()].map(entry => ({ ...entry, original: restoreText(entry.original) })),
+    };
+};
+
+/**
+ * Wraps a provider so everything it sends is redacted first and everything it returns,
+ * including streamed items, has the originals back. `onRedacted` receives the redactor's
+ * entries after each request, for the audit panel.
+ */
+export const withRedaction = (
+    provider: EmailOrganizerProvider,
+    redactor: Redactor,
+    onRedacted?: (entries: RedactionEntry[]) => void,
+): EmailOrganizerProvider => {
+    const redact = <T>(value: T): T => {
+        const redacted = redactor.redact(value);
+        onRedacted?.(redactor.entries());
+        return redacted;
+    };
+    const restoreItems = (onPartialOutput?: PartialOutputHandler): PartialOutputHandler | undefined =>
+        onPartialOutput && (items => onPartialOutput(redactor.restore(items)));
+
+    return {
+        label: provider.label,
+        checkConfiguration: () => provider.checkConfiguration(),
+        summarizeEmails: async (emails, signal, onPartialOutput) =>
+            redactor.restore(await provider.summarizeEmails(redact(emails), signal, restoreItems(onPartialOutput))),
+        extractEmails: async (emailContent, signal, onPartialOutput) =>
+            redactor.restore(await provider.extractEmails(redact(emailContent), signal, restoreItems(onPartialOutput))),
+        summarizeThreads: async (threads, signal) => redactor.restore(await provider.summarizeThreads(redact(threads), signal)),
+        draftReply: async (request, signal) => redactor.restore(await provider.draftReply(redact(request), signal)),
+        writeDigest: async (emails, signal) => redactor.restore(await provider.writeDigest(redact(emails), signal)),
+        repairOutput: async (task, output, issues, signal) =>
+            redactor.restore(await provider.repairOutput(task, redact(output), redact(issues), signal)),
+    };
+};
+
+// Shows the start and end of a value, e.g. "jane…com", so the audit panel isn't a list of secrets.
+export const maskValue = (value: string): string => {
+    const text = value.replace(/\s+/g, ' ').trim();
+    return text.length <= 6 ? '•'.repeat(text.length) : `${text.slice(0, 2)}${'•'.repeat(Math.min(text.length - 4, 8))}${text.slice(-2)}`;
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import type { EmailOrganizerProvider, ParsedEmail } from '../types';
+import { withSender } from './emailGrouping';
+import { organizeEmails } from './organizer';
+import { replyTargetForEmail } from './replyDrafts';
+
+const parsedEmail = (subject: string): ParsedEmail => ({
+    messageId: '',
+    senderName: 'Alice',
+    senderEmail: 'alice@example.com',
+    subject,
+    date: '2024-07-29T10:00:00.000Z',
+    body: 'Hello.',
+    headers: {},
+    remoteId: '',
+    attachments: [],
+});
+
+const provider: EmailOrganizerProvider = {
+    label: 'Test',
+    checkConfiguration: () => {},
+    summarizeEmails: async (emails) => emails.map((_, index) => ({ index, summary: 'A summary', category: 'other', priority: 3, priorityReason: '', actionItems: [] })),
+    extractEmails: async () => [],
+    summarizeThreads: async () => [],
+    draftReply: async () => ({}),
+    writeDigest: async () => ({}),
+    repairOutput: async (_task, output) => output,
+};
+
+const draftKeys = async (): Promise<string[]> => {
+    const { groups } = await organizeEmails(provider, '', [parsedEmail('Report'), parsedEmail('Lunch')]);
+    return groups.flatMap(withSender).map((email) => replyTargetForEmail(email).key);
+};
+
+describe('replyTargetForEmail', () => {
+    it('finds the same draft when the emails are organized again', async () => {
+        const first = await draftKeys();
+        expect(new Set(first).size).toBe(2);
+        expect(await draftKeys()).toEqual(first);
+    });
+});
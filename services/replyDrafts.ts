@@ -0,0 +1,101 @@
+import type { EmailOrganizerProvider, EmailWithSender, ReplyDraft, ReplyRequest, ReplyTarget, ReplyTone } from '../types';
+import { validateReplyDraft } from './validation';
+import { threadSubject } from './threading';
+import { compareDates } from './emailGrouping';
+
+export const REPLY_TONES: { tone: ReplyTone; label: string }[] = [
+    { tone: 'friendly', label: 'Friendly' },
+    { tone: 'formal', label: 'Formal' },
+    { tone: 'brief', label: 'Brief' },
+];
+
+// A draft for one email is kept with that email; a reply to a whole sender group with the sender.
+// Email IDs change with every run, so an email is known by its sender, subject and date instead.
+export const replyTargetForEmail = (email: EmailWithSender): ReplyTarget => ({
+    key: `email:${[email.senderEmail, email.subject, email.date].join('\u0000')}`,
+    recipientName: email.senderName,
+    recipientEmail: email.senderEmail,
+    emails: [email],
+});
+
+export const replyTargetForSender = (emails: EmailWithSender[]): ReplyTarget => ({
+    key: `sender:${emails[0]?.senderEmail || ''}`,
+    recipientName: emails[0]?.senderName || '',
+    recipientEmail: emails[0]?.senderEmail || '',
+    emails,
+});
+
+// "Re: " and the subject of the most recent email replied to.
+export const replySubject = (emails: EmailWithSender[]): string => {
+    const latest = [...emails].sort((a, b) => compareDates(a.date, b.date, 'newest'))[0];
+    return latest?.subject ? `Re: ${threadSubject(latest.subject)}` : 'Re:';
+};
+
+/**
+ * Asks the provider for a reply to the target's emails, written from their summaries.
+ * Configuration errors keep their message; anything else becomes a generic one.
+ */
+export const requestReplyDraft = async (
+    provider: EmailOrganizerProvider,
+    target: ReplyTarget,
+    instruction: string,
+    tone: ReplyTone,
+    signal?: AbortSignal,
+): Promise<{ subject: string; body: string }> => {
+    const request: ReplyRequest = { recipientName: target.recipientName, emails: target.emails, instruction: instruction.trim(), tone };
+    let output: unknown;
+    try {
+        provider.checkConfiguration();
+        output = await provider.draftReply(request, signal);
+    } catch (error) {
+        if (error instanceof Error && (error.message.startsWith("AI Service Error:") || signal?.aborted)) {
+            throw error;
+        }
+        console.error("Error drafting reply:", error);
+        throw new Error("Failed to draft a reply. Please try again.");
+    }
+    const { value, issues } = validateReplyDraft(output);
+    if (!value) {
+        console.error("Unusable reply draft:", issues);
+        throw new Error("The AI returned an empty or malformed draft. Please try again.");
+    }
+    return { subject: value.subject || replySubject(target.emails), body: value.body };
+};
+
+// RFC 2047 encoding for header values that aren't plain ASCII.
+const encodeHeader = (value: string): string => {
+    if (/^[\x20-\x7e]*$/.test(value)) {
+        return value;
+    }
+    const bytes = new TextEncoder().encode(value);
+    return `=?UTF-8?B?${btoa(String.fromCharCode(...bytes))}?=`;
+};
+
+const formatAddress = (name: string, address: string): string => {
+    if (!name) {
+        return address;
+    }
+    const displayName = /^[\x20-\x7e]*$/.test(name) ? `"${name.replace(/["\\]/g, '\\$&')}"` : encodeHeader(name);
+    return `${displayName} <${address}>`;
+};
+
+/**
+ * Writes a draft as an unsent .eml message that mail clients open ready to edit and send.
+ */
+export const draftToEml = (draft: ReplyDraft, fromAddress: string): string => {
+    const headers = [
+        `From: ${fromAddress}`,
+        `To: ${formatAddress(draft.recipientName, draft.recipientEmail)}`,
+        `Subject: ${encodeHeader(draft.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=UTF-8',
+        'Content-Transfer-Encoding: 8bit',
+        // Outlook and Apple Mail open messages with this header as drafts.
+        'X-Unsent: 1',
+    ];
+    return `${headers.join('\r\n')}\r\n\r\n${draft.body.replace(/\r?\n/g, '\r\n')}\r\n`;
+};
+
+export const emlFileName = (draft: ReplyDraft): string =>
+    `${draft.subject.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'reply'}.eml`;
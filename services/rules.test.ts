@@ -0,0 +1,212 @@
+import { describe, expect, it } from 'vitest';
+import type { Email, OrganizedEmailGroup, ParsedEmail, Rule, RuleAction, RuleCondition } from '../types';
+import { applyRulesBeforeOrganizing, applyRulesToGroups, exportRules, matchesRule, parseRulesFile } from './rules';
+import { NO_RISK } from './phishing';
+
+const rule = (conditions: RuleCondition[], actions: RuleAction[] = [{ type: 'tag', tag: 'matched' }], name = ''): Rule => ({
+    id: crypto.randomUUID(),
+    name,
+    enabled: true,
+    conditions,
+    actions,
+});
+
+const target = (senderEmail: string, subject = 'Hello', date = '2024-07-15T12:00:00') => ({ senderEmail, subject, date });
+
+const parsedEmail = (senderEmail: string, subject = 'Hello'): ParsedEmail => ({
+    messageId: '',
+    senderName: '',
+    senderEmail,
+    subject,
+    date: '2024-07-15T12:00:00',
+    body: '',
+    headers: {},
+    remoteId: '',
+    attachments: [],
+});
+
+const email = (subject: string): Email => ({
+    id: subject,
+    subject,
+    date: '2024-07-15T12:00:00',
+    summary: '',
+    category: 'other',
+    priority: 3,
+    priorityReason: '',
+    actionItems: [],
+    threadId: '',
+    remoteId: '',
+    tags: [],
+    kind: 'human',
+    unsubscribeLinks: [],
+    risk: NO_RISK,
+    attachments: [],
+    language: '',
+    originalSummary: '',
+});
+
+const group = (senderEmail: string, ...subjects: string[]): OrganizedEmailGroup => ({
+    senderName: senderEmail.split('@')[0],
+    senderEmail,
+    emails: subjects.map(email),
+    mergedByRule: false,
+});
+
+describe('matchesRule', () => {
+    it('matches a sender address exactly or by wildcard, ignoring case', () => {
+        expect(matchesRule(rule([{ type: 'sender', pattern: 'Alice@Example.com' }]), target('alice@example.com'))).toBe(true);
+        expect(matchesRule(rule([{ type: 'sender', pattern: 'alice@example.com' }]), target('malice@example.com'))).toBe(false);
+        expect(matchesRule(rule([{ type: 'sender', pattern: '*@github.com' }]), target('noreply@GitHub.com'))).toBe(true);
+        expect(matchesRule(rule([{ type: 'sender', pattern: '*@github.com' }]), target('noreply@github.com.evil.io'))).toBe(false);
+    });
+
+    it('treats regex characters in a sender pattern literally', () => {
+        expect(matchesRule(rule([{ type: 'sender', pattern: 'a.b@example.com' }]), target('axb@example.com'))).toBe(false);
+    });
+
+    it('matches a domain and its subdomains', () => {
+        const byDomain = rule([{ type: 'domain', domain: '@Example.com' }]);
+        expect(matchesRule(byDomain, target('a@example.com'))).toBe(true);
+        expect(matchesRule(byDomain, target('a@mail.example.com'))).toBe(true);
+        expect(matchesRule(byDomain, target('a@notexample.com'))).toBe(false);
+    });
+
+    it('matches the subject by regex, ignoring case', () => {
+        expect(matchesRule(rule([{ type: 'subject', regex: '^invoice #\\d+' }]), target('a@b.c', 'INVOICE #42 for July'))).toBe(true);
+        expect(matchesRule(rule([{ type: 'subject', regex: '^invoice' }]), target('a@b.c', 'Your invoice'))).toBe(false);
+    });
+
+    it('never matches an invalid regex instead of throwing', () => {
+        expect(matchesRule(rule([{ type: 'subject', regex: '(' }]), target('a@b.c', '('))).toBe(false);
+    });
+
+    it('matches dates within an inclusive range, open at either end', () => {
+        const july = rule([{ type: 'date', from: '2024-07-01', to: '2024-07-15' }]);
+        expect(matchesRule(july, target('a@b.c', 'x', '2024-07-15T23:00:00'))).toBe(true);
+        expect(matchesRule(july, target('a@b.c', 'x', '2024-07-16T01:00:00'))).toBe(false);
+        expect(matchesRule(rule([{ type: 'date', from: '2024-07-10', to: '' }]), target('a@b.c', 'x', '2025-01-01T12:00:00'))).toBe(true);
+        expect(matchesRule(july, target('a@b.c', 'x', ''))).toBe(false);
+    });
+
+    it('requires every condition to match', () => {
+        const both = rule([{ type: 'domain', domain: 'example.com' }, { type: 'subject', regex: 'report' }]);
+        expect(matchesRule(both, target('a@example.com', 'Weekly report'))).toBe(true);
+        expect(matchesRule(both, target('a@example.com', 'Lunch'))).toBe(false);
+    });
+
+    it('matches nothing when disabled, without conditions or with empty values', () => {
+        expect(matchesRule({ ...rule([{ type: 'domain', domain: 'example.com' }]), enabled: false }, target('a@example.com'))).toBe(false);
+        expect(matchesRule(rule([]), target('a@example.com'))).toBe(false);
+        expect(matchesRule(rule([{ type: 'sender', pattern: ' ' }]), target('a@example.com'))).toBe(false);
+        expect(matchesRule(rule([{ type: 'subject', regex: '' }]), target('a@example.com'))).toBe(false);
+    });
+});
+
+describe('applyRulesBeforeOrganizing', () => {
+    it('drops hidden emails and sets aside those whose summary is skipped', () => {
+        const rules = [
+            rule([{ type: 'domain', domain: 'spam.com' }], [{ type: 'hide' }]),
+            rule([{ type: 'domain', domain: 'news.com' }], [{ type: 'skipSummary' }]),
+        ];
+        const result = applyRulesBeforeOrganizing(rules, [parsedEmail('a@spam.com'), parsedEmail('b@news.com'), parsedEmail('c@work.com')]);
+        expect(result.hidden).toBe(1);
+        expect(result.summarizeLocally.map((item) => item.senderEmail)).toEqual(['b@news.com']);
+        expect(result.toSummarize.map((item) => item.senderEmail)).toEqual(['c@work.com']);
+    });
+
+    it('lets hiding win over skipping the summary', () => {
+        const rules = [rule([{ type: 'domain', domain: 'news.com' }], [{ type: 'skipSummary' }, { type: 'hide' }])];
+        expect(applyRulesBeforeOrganizing(rules, [parsedEmail('b@news.com')])).toEqual({ toSummarize: [], summarizeLocally: [], hidden: 1 });
+    });
+});
+
+describe('applyRulesToGroups', () => {
+    it('returns the groups unchanged without enabled rules', () => {
+        const groups = [group('a@example.com', 'One')];
+        expect(applyRulesToGroups([{ ...rule([{ type: 'domain', domain: 'example.com' }]), enabled: false }], groups)).toEqual({ groups, hidden: 0 });
+    });
+
+    it('tags emails once, however many rules add the tag', () => {
+        const rules = [
+            rule([{ type: 'domain', domain: 'example.com' }], [{ type: 'tag', tag: 'work' }]),
+            rule([{ type: 'subject', regex: 'report' }], [{ type: 'tag', tag: ' work ' }, { type: 'tag', tag: 'reports' }]),
+        ];
+        const { groups } = applyRulesToGroups(rules, [group('a@example.com', 'Weekly report', 'Lunch')]);
+        expect(groups[0].emails.map((item) => item.tags)).toEqual([['work', 'reports'], ['work']]);
+    });
+
+    it('sets the category and priority, with later rules winning', () => {
+        const rules = [
+            rule([{ type: 'domain', domain: 'example.com' }], [{ type: 'setPriority', priority: 5 }, { type: 'setCategory', category: 'invoice' }], 'Urgent'),
+            rule([{ type: 'subject', regex: 'newsletter' }], [{ type: 'setPriority', priority: 1 }], 'Quiet'),
+        ];
+        const { groups } = applyRulesToGroups(rules, [group('a@example.com', 'Invoice', 'Newsletter')]);
+        expect(groups[0].emails[0]).toMatchObject({ category: 'invoice', priority: 5, priorityReason: 'Set by the rule "Urgent"' });
+        expect(groups[0].emails[1]).toMatchObject({ category: 'invoice', priority: 1, priorityReason: 'Set by the rule "Quiet"' });
+    });
+
+    it('hides matching emails and drops groups left empty', () => {
+        const rules = [rule([{ type: 'subject', regex: 'promo' }], [{ type: 'hide' }])];
+        const result = applyRulesToGroups(rules, [group('a@example.com', 'Promo'), group('b@example.com', 'Promo', 'Hi')]);
+        expect(result.hidden).toBe(2);
+        expect(result.groups.map((item) => [item.senderEmail, item.emails.map((mail) => mail.subject)])).toEqual([['b@example.com', ['Hi']]]);
+    });
+
+    it('merges emails from several senders into one named group', () => {
+        const rules = [rule([{ type: 'subject', regex: 'invoice' }], [{ type: 'mergeInto', groupName: 'Billing' }])];
+        const result = applyRulesToGroups(rules, [group('a@shop.com', 'Invoice 1', 'Hello'), group('b@utility.com', 'Invoice 2')]);
+        expect(result.groups.map((item) => [item.senderName, item.emails.map((mail) => mail.subject)])).toEqual([
+            ['a', ['Hello']],
+            ['Billing', ['Invoice 1', 'Invoice 2']],
+        ]);
+    });
+
+    it('uses the last matching merge when several rules merge the same email', () => {
+        const rules = [
+            rule([{ type: 'domain', domain: 'shop.com' }], [{ type: 'mergeInto', groupName: 'Shopping' }]),
+            rule([{ type: 'subject', regex: 'invoice' }], [{ type: 'mergeInto', groupName: 'Billing' }]),
+        ];
+        const result = applyRulesToGroups(rules, [group('a@shop.com', 'Invoice 1', 'Sale')]);
+        expect(result.groups.map((item) => [item.senderName, item.emails.map((mail) => mail.subject)])).toEqual([
+            ['Billing', ['Invoice 1']],
+            ['Shopping', ['Sale']],
+        ]);
+    });
+});
+
+describe('parseRulesFile', () => {
+    const valid = [rule([{ type: 'domain', domain: 'example.com' }], [{ type: 'tag', tag: 'work' }], 'Work')];
+
+    it('reads exported rules back', () => {
+        expect(parseRulesFile(exportRules(valid))).toEqual(valid);
+    });
+
+    it('rejects text that is not JSON', () => {
+        expect(() => parseRulesFile('{ rules: ')).toThrow("This file isn't valid JSON.");
+    });
+
+    it('rejects JSON that is not a rules file', () => {
+        expect(() => parseRulesFile('[]')).toThrow("doesn't contain Mail Organizer rules");
+        expect(() => parseRulesFile('null')).toThrow("doesn't contain Mail Organizer rules");
+    });
+
+    it('rejects files from a newer version', () => {
+        expect(() => parseRulesFile(JSON.stringify({ format: 'mail-organizer-rules', version: 2, rules: [] }))).toThrow('newer version');
+    });
+
+    it('names the first malformed field', () => {
+        const file = (rules: unknown) => JSON.stringify({ format: 'mail-organizer-rules', version: 1, rules });
+        expect(() => parseRulesFile(file({}))).toThrow('rules must be a list');
+        expect(() => parseRulesFile(file([{ conditions: [], actions: {} }]))).toThrow('rules[0] must have lists of conditions and actions');
+        expect(() => parseRulesFile(file([{ conditions: [{ type: 'body' }], actions: [] }]))).toThrow('rules[0].conditions[0].type must be one of');
+        expect(() => parseRulesFile(file([{ conditions: [{ type: 'date', from: '15/07/2024' }], actions: [] }]))).toThrow('rules[0].conditions[0].from must be a date');
+        expect(() => parseRulesFile(file([{ conditions: [], actions: [{ type: 'setPriority', priority: 9 }] }]))).toThrow('rules[0].actions[0].priority must be a whole number');
+        expect(() => parseRulesFile(file([{ conditions: [], actions: [{ type: 'setCategory', category: 'junk' }] }]))).toThrow('rules[0].actions[0].category must be one of');
+    });
+
+    it('fills in a missing id, name and enabled flag', () => {
+        const [read] = parseRulesFile(JSON.stringify({ format: 'mail-organizer-rules', version: 1, rules: [{ conditions: [], actions: [] }] }));
+        expect(read.id).not.toBe('');
+        expect(read).toMatchObject({ name: '', enabled: true });
+    });
+});
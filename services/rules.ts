@@ -0,0 +1,385 @@
+import type { Email, OrganizedEmailGroup, ParsedEmail, Rule, RuleAction, RuleCondition } from '../types';
+import { localDay, senderDomain } from './search';
+import { CATEGORY_LABELS, EMAIL_CATEGORIES, isEmailCategory, MAX_PRIORITY, MIN_PRIORITY, PRIORITY_LABELS } from './categories';
+
+const RULES_FORMAT_ID = 'mail-organizer-rules';
+const RULES_VERSION = 1;
+
+export const CONDITION_TYPES: { type: RuleCondition['type']; label: string }[] = [
+    { type: 'sender', label: 'Sender address matches' },
+    { type: 'domain', label: 'Sender domain is' },
+    { type: 'subject', label: 'Subject matches regex' },
+    { type: 'date', label: 'Date is between' },
+];
+
+export const ACTION_TYPES: { type: RuleAction['type']; label: string }[] = [
+    { type: 'tag', label: 'Add tag' },
+    { type: 'setCategory', label: 'Set category' },
+    { type: 'setPriority', label: 'Set priority' },
+    { type: 'hide', label: 'Hide' },
+    { type: 'mergeInto', label: 'Merge into group' },
+    { type: 'skipSummary', label: 'Skip AI summary' },
+];
+
+// What rules can look at. Known before organizing (from the headers) and after (from the results).
+interface RuleTarget {
+    senderEmail: string;
+    subject: string;
+    date: string;
+}
+
+export const emptyCondition = (type: RuleCondition['type']): RuleCondition => {
+    switch (type) {
+        case 'sender':
+            return { type, pattern: '' };
+        case 'domain':
+            return { type, domain: '' };
+        case 'subject':
+            return { type, regex: '' };
+        case 'date':
+            return { type, from: '', to: '' };
+    }
+};
+
+export const emptyAction = (type: RuleAction['type']): RuleAction => {
+    switch (type) {
+        case 'tag':
+            return { type, tag: '' };
+        case 'setCategory':
+            return { type, category: 'other' };
+        case 'setPriority':
+            return { type, priority: MAX_PRIORITY };
+        case 'mergeInto':
+            return { type, groupName: '' };
+        case 'hide':
+        case 'skipSummary':
+            return { type };
+    }
+};
+
+export const createRule = (): Rule => ({
+    id: crypto.randomUUID(),
+    name: '',
+    enabled: true,
+    conditions: [emptyCondition('domain')],
+    actions: [emptyAction('tag')],
+});
+
+// What "Hide all from this sender" in the Subscriptions tab saves.
+export const createHideSenderRule = (senderEmail: string): Rule => ({
+    id: crypto.randomUUID(),
+    name: `Hide ${senderEmail}`,
+    enabled: true,
+    conditions: [{ type: 'sender', pattern: senderEmail }],
+    actions: [{ type: 'hide' }],
+});
+
+const escapeRegExp = (text: string): string => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+// "*@github.com" matches any address at github.com; without a * the whole address must match.
+const matchesPattern = (pattern: string, senderEmail: string): boolean =>
+    new RegExp(`^${pattern.trim().split('*').map(escapeRegExp).join('.*')}$`, 'i').test(senderEmail);
+
+const matchesCondition = (condition: RuleCondition, target: RuleTarget): boolean => {
+    switch (condition.type) {
+        case 'sender':
+            return !!condition.pattern.trim() && matchesPattern(condition.pattern, target.senderEmail);
+        case 'domain': {
+            const wanted = condition.domain.trim().toLowerCase().replace(/^@/, '');
+            const domain = senderDomain(target.senderEmail);
+            return !!wanted && (domain === wanted || domain.endsWith(`.${wanted}`));
+        }
+        case 'subject':
+            try {
+                return !!condition.regex && new RegExp(condition.regex, 'i').test(target.subject);
+            } catch {
+                return false;
+            }
+        case 'date': {
+            if (!target.date || (!condition.from && !condition.to)) {
+                return false;
+            }
+            const day = localDay(target.date);
+            return (!condition.from || day >= condition.from) && (!condition.to || day <= condition.to);
+        }
+    }
+};
+
+// A rule without conditions would match every email, so it matches none instead.
+export const matchesRule = (rule: Rule, target: RuleTarget): boolean =>
+    rule.enabled && rule.conditions.length > 0 && rule.conditions.every((condition) => matchesCondition(condition, target));
+
+const matchingRules = (rules: Rule[], target: RuleTarget): Rule[] => rules.filter((rule) => matchesRule(rule, target));
+
+const hasAction = (rules: Rule[], type: RuleAction['type']): boolean =>
+    rules.some((rule) => rule.actions.some((action) => action.type === type));
+
+/**
+ * The pass before organizing. Hidden emails are dropped and emails whose summary is
+ * skipped are set aside to be summarized locally; only the rest go to the AI provider.
+ */
+export const applyRulesBeforeOrganizing = (
+    rules: Rule[],
+    emails: ParsedEmail[],
+): { toSummarize: ParsedEmail[]; summarizeLocally: ParsedEmail[]; hidden: number } => {
+    const toSummarize: ParsedEmail[] = [];
+    const summarizeLocally: ParsedEmail[] = [];
+    let hidden = 0;
+    for (const email of emails) {
+        const matched = matchingRules(rules, email);
+        if (hasAction(matched, 'hide')) {
+            hidden++;
+        } else if (hasAction(matched, 'skipSummary')) {
+            summarizeLocally.push(email);
+        } else {
+            toSummarize.push(email);
+        }
+    }
+    return { toSummarize, summarizeLocally, hidden };
+};
+
+const applyActions = (email: Email, rules: Rule[]): Email => {
+    let updated = email;
+    for (const rule of rules) {
+        for (const action of rule.actions) {
+            switch (action.type) {
+                case 'tag': {
+                    const tag = action.tag.trim();
+                    if (tag && !updated.tags.includes(tag)) {
+                        updated = { ...updated, tags: [...updated.tags, tag] };
+                    }
+                    break;
+                }
+                case 'setCategory':
+                    updated = { ...updated, category: action.category };
+                    break;
+                case 'setPriority':
+                    updated = { ...updated, priority: action.priority, priorityReason: `Set by the rule "${rule.name || 'Untitled rule'}"` };
+                    break;
+            }
+        }
+    }
+    return updated;
+};
+
+/**
+ * The pass after organizing, over every email including ones extracted from plain text:
+ * tags, recategorizes, reprioritizes, hides and regroups emails. Rules apply in order, so
+ * a later rule's category or priority wins, and the last matching merge decides the group.
+ * A merged group keeps the address of the first sender merged into it and is flagged as
+ * mergedByRule, so it isn't taken for that sender's own group later on.
+ */
+export const applyRulesToGroups = (rules: Rule[], groups: OrganizedEmailGroup[]): { groups: OrganizedEmailGroup[]; hidden: number } => {
+    if (!rules.some((rule) => rule.enabled)) {
+        return { groups, hidden: 0 };
+    }
+
+    let hidden = 0;
+    const kept: OrganizedEmailGroup[] = [];
+    const merged = new Map<string, OrganizedEmailGroup>();
+    for (const group of groups) {
+        const emails: Email[] = [];
+        for (const email of group.emails) {
+            const matched = matchingRules(rules, { senderEmail: group.senderEmail, subject: email.subject, date: email.date });
+            if (hasAction(matched, 'hide')) {
+                hidden++;
+                continue;
+            }
+            const updated = applyActions(email, matched);
+            const groupName = matched
+                .flatMap((rule) => rule.actions)
+                .reduce((name, action) => (action.type === 'mergeInto' && action.groupName.trim() ? action.groupName.trim() : name), '');
+            if (!groupName) {
+                emails.push(updated);
+                continue;
+            }
+            const key = groupName.toLowerCase();
+            if (!merged.has(key)) {
+                merged.set(key, { senderName: groupName, senderEmail: group.senderEmail, emails: [], mergedByRule: true });
+            }
+            merged.get(key)!.emails.push(updated);
+        }
+        if (emails.length > 0) {
+            kept.push({ ...group, emails });
+        }
+    }
+    return { groups: [...kept, ...merged.values()], hidden };
+};
+
+export const describeCondition = (condition: RuleCondition): string => {
+    switch (condition.type) {
+        case 'sender':
+            return `sender is ${condition.pattern || '…'}`;
+        case 'domain':
+            return `domain is ${condition.domain || '…'}`;
+        case 'subject':
+            return `subject matches /${condition.regex || '…'}/`;
+        case 'date':
+            return `date ${condition.from ? `from ${condition.from} ` : ''}${condition.to ? `to ${condition.to}` : ''}`.trim();
+    }
+};
+
+export const describeAction = (action: RuleAction): string => {
+    switch (action.type) {
+        case 'tag':
+            return `tag "${action.tag}"`;
+        case 'setCategory':
+            return `category ${CATEGORY_LABELS[action.category]}`;
+        case 'setPriority':
+            return `priority ${PRIORITY_LABELS[action.priority]}`;
+        case 'hide':
+            return 'hide';
+        case 'mergeInto':
+            return `merge into "${action.groupName}"`;
+        case 'skipSummary':
+            return 'skip AI summary';
+    }
+};
+
+/**
+ * Describes what keeps a rule from working, such as an empty value or an invalid regular
+ * expression, or returns null if it is complete.
+ */
+export const findRuleProblem = (rule: Rule): string | null => {
+    if (rule.conditions.length === 0) {
+        return "Add at least one condition.";
+    }
+    if (rule.actions.length === 0) {
+        return "Add at least one action.";
+    }
+    for (const condition of rule.conditions) {
+        if (condition.type === 'sender' && !condition.pattern.trim()) return "Enter a sender address or pattern.";
+        if (condition.type === 'domain' && !condition.domain.trim()) return "Enter a domain.";
+        if (condition.type === 'date' && !condition.from && !condition.to) return "Enter a start or end date.";
+        if (condition.type === 'date' && condition.from && condition.to && condition.from > condition.to) return "The start date is after the end date.";
+        if (condition.type === 'subject') {
+            if (!condition.regex) return "Enter a subject pattern.";
+            try {
+                new RegExp(condition.regex, 'i');
+            } catch {
+                return `"${condition.regex}" is not a valid regular expression.`;
+            }
+        }
+    }
+    for (const action of rule.actions) {
+        if (action.type === 'tag' && !action.tag.trim()) return "Enter a tag.";
+        if (action.type === 'mergeInto' && !action.groupName.trim()) return "Enter a group name.";
+    }
+    return null;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const readString = (record: Record<string, unknown>, field: string, path: string): string => {
+    if (typeof record[field] !== 'string') {
+        throw new Error(`${path}.${field} must be a string`);
+    }
+    return record[field] as string;
+};
+
+const readDate = (record: Record<string, unknown>, field: string, path: string): string => {
+    const value = record[field] === undefined ? '' : readString(record, field, path);
+    if (value && !DATE.test(value)) {
+        throw new Error(`${path}.${field} must be a date like 2024-01-31`);
+    }
+    return value;
+};
+
+const readCondition = (data: unknown, path: string): RuleCondition => {
+    if (!isObject(data)) {
+        throw new Error(`${path} must be an object`);
+    }
+    switch (data.type) {
+        case 'sender':
+            return { type: 'sender', pattern: readString(data, 'pattern', path) };
+        case 'domain':
+            return { type: 'domain', domain: readString(data, 'domain', path) };
+        case 'subject':
+            return { type: 'subject', regex: readString(data, 'regex', path) };
+        case 'date':
+            return { type: 'date', from: readDate(data, 'from', path), to: readDate(data, 'to', path) };
+        default:
+            throw new Error(`${path}.type must be one of ${CONDITION_TYPES.map((option) => option.type).join(', ')}`);
+    }
+};
+
+const readAction = (data: unknown, path: string): RuleAction => {
+    if (!isObject(data)) {
+        throw new Error(`${path} must be an object`);
+    }
+    switch (data.type) {
+        case 'tag':
+            return { type: 'tag', tag: readString(data, 'tag', path) };
+        case 'setCategory':
+            if (!isEmailCategory(data.category)) {
+                throw new Error(`${path}.category must be one of ${EMAIL_CATEGORIES.join(', ')}`);
+            }
+            return { type: 'setCategory', category: data.category };
+        case 'setPriority': {
+            const { priority } = data;
+            if (typeof priority !== 'number' || !Number.isInteger(priority) || priority < MIN_PRIORITY || priority > MAX_PRIORITY) {
+                throw new Error(`${path}.priority must be a whole number from ${MIN_PRIORITY} to ${MAX_PRIORITY}`);
+            }
+            return { type: 'setPriority', priority };
+        }
+        case 'mergeInto':
+            return { type: 'mergeInto', groupName: readString(data, 'groupName', path) };
+        case 'hide':
+        case 'skipSummary':
+            return { type: data.type };
+        default:
+            throw new Error(`${path}.type must be one of ${ACTION_TYPES.map((option) => option.type).join(', ')}`);
+    }
+};
+
+/**
+ * Reads a list of rules from stored or imported JSON, throwing an Error that names the
+ * first malformed field. Rules without an ID get a new one.
+ */
+export const readRules = (data: unknown): Rule[] => {
+    if (!Array.isArray(data)) {
+        throw new Error("rules must be a list");
+    }
+    return data.map((item, index): Rule => {
+        const path = `rules[${index}]`;
+        if (!isObject(item)) {
+            throw new Error(`${path} must be an object`);
+        }
+        if (!Array.isArray(item.conditions) || !Array.isArray(item.actions)) {
+            throw new Error(`${path} must have lists of conditions and actions`);
+        }
+        return {
+            id: typeof item.id === 'string' && item.id ? item.id : crypto.randomUUID(),
+            name: typeof item.name === 'string' ? item.name : '',
+            enabled: item.enabled !== false,
+            conditions: item.conditions.map((condition, conditionIndex) => readCondition(condition, `${path}.conditions[${conditionIndex}]`)),
+            actions: item.actions.map((action, actionIndex) => readAction(action, `${path}.actions[${actionIndex}]`)),
+        };
+    });
+};
+
+export const exportRules = (rules: Rule[]): string =>
+    JSON.stringify({ format: RULES_FORMAT_ID, version: RULES_VERSION, rules }, null, 2);
+
+export const parseRulesFile = (text: string): Rule[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error("This file isn't valid JSON.");
+    }
+    if (!isObject(data) || data.format !== RULES_FORMAT_ID) {
+        throw new Error("This JSON file doesn't contain Mail Organizer rules.");
+    }
+    if (typeof data.version !== 'number' || data.version > RULES_VERSION) {
+        throw new Error("These rules were exported by a newer version of the app and can't be read.");
+    }
+    try {
+        return readRules(data.rules);
+    } catch (error) {
+        throw new Error(`This rules file is damaged: ${error instanceof Error ? error.message : String(error)}.`);
+    }
+};
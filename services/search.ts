@@ -0,0 +1,188 @@
+import type { Email, OrganizedEmailGroup, ResultsFilter } from '../types';
+import { isSuspicious } from './phishing';
+
+export const EMPTY_FILTER: ResultsFilter = { query: '', dateFrom: '', dateTo: '', domain: '', minGroupSize: 0, suspiciousOnly: false };
+
+// A [start, end) range of characters that matched the search.
+export type MatchRange = [number, number];
+
+const WORD = /[\p{L}\p{N}][\p{L}\p{N}'.-]*/gu;
+
+export const searchTerms = (query: string): string[] =>
+    query.toLowerCase().split(/\s+/).filter(term => term.length > 0);
+
+// More typos are tolerated in longer terms; short ones must match exactly.
+const allowedTypos = (term: string): number => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+/**
+ * Levenshtein distance between two strings, giving up (returning max + 1) once it's
+ * clear the distance exceeds `max`.
+ */
+const editDistance = (a: string, b: string, max: number): number => {
+    if (Math.abs(a.length - b.length) > max) {
+        return max + 1;
+    }
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+            rowMin = Math.min(rowMin, current[j]);
+        }
+        if (rowMin > max) {
+            return max + 1;
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+const termMatchesWord = (term: string, word: string): boolean => {
+    const typos = allowedTypos(term);
+    // Also compare against the word's prefix, so "meet" finds "meeting" and "meting" does too.
+    return typos > 0 && (editDistance(term, word, typos) <= typos || editDistance(term, word.slice(0, term.length), typos) <= typos);
+};
+
+/**
+ * Finds where the search terms occur in a text: exact substrings first, otherwise whole
+ * words within a few typos of a term. Returns sorted, non-overlapping ranges.
+ */
+export const findMatches = (text: string, terms: string[]): MatchRange[] => {
+    const lower = text.toLowerCase();
+    const ranges: MatchRange[] = [];
+    for (const term of terms) {
+        let index = lower.indexOf(term);
+        if (index !== -1) {
+            while (index !== -1) {
+                ranges.push([index, index + term.length]);
+                index = lower.indexOf(term, index + term.length);
+            }
+            continue;
+        }
+        for (const match of lower.matchAll(WORD)) {
+            if (termMatchesWord(term, match[0])) {
+                ranges.push([match.index!, match.index! + match[0].length]);
+            }
+        }
+    }
+
+    ranges.sort((a, b) => a[0] - b[0]);
+    const merged: MatchRange[] = [];
+    for (const range of ranges) {
+        const last = merged[merged.length - 1];
+        if (last && range[0] <= last[1]) {
+            last[1] = Math.max(last[1], range[1]);
+        } else {
+            merged.push([...range]);
+        }
+    }
+    return merged;
+};
+
+// Every term has to match somewhere in the email, its sender or its attachments' names.
+const matchesQuery = (email: Email, group: OrganizedEmailGroup, terms: string[]): boolean => {
+    const fields = [group.senderName, group.senderEmail, email.subject, email.summary, ...email.attachments.map(attachment => attachment.fileName)];
+    return terms.every(term => fields.some(field => findMatches(field, [term]).length > 0));
+};
+
+// Dates compare by the user's local calendar day, like the date inputs they come from.
+export const localDay = (date: string): string => {
+    const day = new Date(date);
+    return `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, '0')}-${String(day.getDate()).padStart(2, '0')}`;
+};
+
+const matchesDateRange = (email: Email, { dateFrom, dateTo }: ResultsFilter): boolean => {
+    if (!dateFrom && !dateTo) {
+        return true;
+    }
+    if (!email.date) {
+        return false;
+    }
+    const day = localDay(email.date);
+    return (!dateFrom || day >= dateFrom) && (!dateTo || day <= dateTo);
+};
+
+export const senderDomain = (senderEmail: string): string => senderEmail.split('@')[1]?.toLowerCase() || '';
+
+/**
+ * Sender domains in the results with their email counts, most emails first, for the domain filter.
+ */
+export const listDomains = (groups: OrganizedEmailGroup[]): { domain: string; count: number }[] => {
+    const counts = new Map<string, number>();
+    for (const group of groups) {
+        const domain = senderDomain(group.senderEmail);
+        if (domain) {
+            counts.set(domain, (counts.get(domain) || 0) + group.emails.length);
+        }
+    }
+    return [...counts].map(([domain, count]) => ({ domain, count })).sort((a, b) => b.count - a.count || a.domain.localeCompare(b.domain));
+};
+
+export const isFilterActive = (filter: ResultsFilter): boolean =>
+    !!(filter.query.trim() || filter.dateFrom || filter.dateTo || filter.domain || filter.minGroupSize > 1 || filter.suspiciousOnly);
+
+/**
+ * Applies a filter to sender groups. The minimum group size counts each sender's emails
+ * before the other filters, so it narrows the results to frequent senders.
+ */
+export const filterGroups = (groups: OrganizedEmailGroup[], filter: ResultsFilter): OrganizedEmailGroup[] => {
+    if (!isFilterActive(filter)) {
+        return groups;
+    }
+    const terms = searchTerms(filter.query);
+    return groups
+        .filter(group => group.emails.length >= filter.minGroupSize)
+        .filter(group => !filter.domain || senderDomain(group.senderEmail) === filter.domain)
+        .map(group => ({
+            ...group,
+            emails: group.emails.filter(email =>
+                (!filter.suspiciousOnly || isSuspicious(email)) && matchesDateRange(email, filter) && matchesQuery(email, group, terms)),
+        }))
+        .filter(group => group.emails.length > 0);
+};
+
+const DATE_PARAM = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Reads a filter from the page's query string (see filterToSearchParams).
+ */
+export const filterFromSearchParams = (search: string): ResultsFilter => {
+    const params = new URLSearchParams(search);
+    const dateFrom = params.get('from') || '';
+    const dateTo = params.get('to') || '';
+    const minGroupSize = parseInt(params.get('min') || '', 10);
+    return {
+        query: params.get('q') || '',
+        dateFrom: DATE_PARAM.test(dateFrom) ? dateFrom : '',
+        dateTo: DATE_PARAM.test(dateTo) ? dateTo : '',
+        domain: (params.get('domain') || '').toLowerCase(),
+        minGroupSize: minGroupSize > 0 ? minGroupSize : 0,
+        suspiciousOnly: params.get('suspicious') === '1',
+    };
+};
+
+/**
+ * Writes a filter into query string parameters, so a filtered view can be bookmarked.
+ * Other parameters on the page are kept.
+ */
+export const filterToSearchParams = (filter: ResultsFilter, search: string): string => {
+    const params = new URLSearchParams(search);
+    const values: [string, string][] = [
+        ['q', filter.query.trim()],
+        ['from', filter.dateFrom],
+        ['to', filter.dateTo],
+        ['domain', filter.domain],
+        ['min', filter.minGroupSize > 1 ? String(filter.minGroupSize) : ''],
+        ['suspicious', filter.suspiciousOnly ? '1' : ''],
+    ];
+    for (const [name, value] of values) {
+        if (value) {
+            params.set(name, value);
+        } else {
+            params.delete(name);
+        }
+    }
+    const query = params.toString();
+    return query ? `?${query}` : '';
+};
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ReplyDraft } from '../types';
+import { loadIdentitySettings, loadReplyDrafts } from './settingsStore';
+
+// A localStorage holding one stored value.
+const storing = (key: string, value: unknown) => {
+    vi.stubGlobal('localStorage', { getItem: (name: string) => (name === key ? JSON.stringify(value) : null) });
+};
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('loadIdentitySettings', () => {
+    it('keeps only well-formed contact merges', () => {
+        const merge = { id: 'm1', addresses: ['a@example.com', 'a@work.com'] };
+        storing('mail-organizer:identity:user', { merges: [merge, null, 'junk', { id: 2, addresses: [] }, { id: 'm2', addresses: ['a', 3] }], splits: [], dismissedAliases: [] });
+        expect(loadIdentitySettings('user').merges).toEqual([merge]);
+    });
+});
+
+describe('loadReplyDrafts', () => {
+    const draft = (key: string): ReplyDraft => ({
+        key,
+        recipientName: 'Alice',
+        recipientEmail: 'alice@example.com',
+        subject: 'Re: Report',
+        body: 'Thanks, will do.',
+        tone: 'friendly',
+        instruction: '',
+        updatedAt: '2024-07-29T10:00:00.000Z',
+    });
+
+    it('keeps only well-formed drafts stored under their own key', () => {
+        const kept = draft('sender:alice@example.com');
+        storing('mail-organizer:reply-drafts:user', {
+            [kept.key]: kept,
+            'sender:bob@example.com': draft('sender:someone-else@example.com'),
+            'sender:carol@example.com': { ...draft('sender:carol@example.com'), tone: 'rude' },
+            'sender:dave@example.com': { ...draft('sender:dave@example.com'), body: 42 },
+            'sender:erin@example.com': null,
+        });
+        expect(loadReplyDrafts('user')).toEqual({ [kept.key]: kept });
+    });
+
+    it('ignores stored drafts that are not an object', () => {
+        storing('mail-organizer:reply-drafts:user', ['junk']);
+        expect(loadReplyDrafts('user')).toEqual({});
+    });
+});
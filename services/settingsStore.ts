@@ -0,0 +1,180 @@
+import type { ContactMerge, IdentitySettings, ProviderSettings, RedactionSettings, ReplyDraft, Rule } from '../types';
+import { DEFAULT_PROVIDER_SETTINGS, PROVIDER_OPTIONS } from './providers';
+import { readRules } from './rules';
+import { EMPTY_IDENTITY_SETTINGS } from './identity';
+import { DEFAULT_REDACTION_SETTINGS, REDACTION_KINDS } from './redaction';
+import { REPLY_TONES } from './replyDrafts';
+
+const PROVIDER_SETTINGS_KEY = 'mail-organizer:provider-settings';
+const REDACTION_SETTINGS_KEY = 'mail-organizer:redaction-settings';
+const ARCHIVE_ENABLED_KEY_PREFIX = 'mail-organizer:archive-enabled:';
+const COMPLETED_TASKS_KEY_PREFIX = 'mail-organizer:completed-tasks:';
+const RULES_KEY_PREFIX = 'mail-organizer:rules:';
+const IDENTITY_KEY_PREFIX = 'mail-organizer:identity:';
+const REPLY_DRAFTS_KEY_PREFIX = 'mail-organizer:reply-drafts:';
+
+export const loadProviderSettings = (): ProviderSettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(PROVIDER_SETTINGS_KEY) || 'null');
+        if (stored && PROVIDER_OPTIONS.some(option => option.id === stored.provider)) {
+            return { ...DEFAULT_PROVIDER_SETTINGS, ...stored };
+        }
+    } catch (e) {
+        console.error("Error reading saved provider settings", e);
+    }
+    return DEFAULT_PROVIDER_SETTINGS;
+};
+
+export const saveProviderSettings = (settings: ProviderSettings): void => {
+    try {
+        localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.error("Error saving provider settings", e);
+    }
+};
+
+// Like the provider settings, redaction applies to everyone using this browser.
+export const loadRedactionSettings = (): RedactionSettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(REDACTION_SETTINGS_KEY) || 'null');
+        if (stored) {
+            return {
+                enabled: stored.enabled !== false,
+                kinds: Array.isArray(stored.kinds) ? REDACTION_KINDS.map(({ kind }) => kind).filter(kind => stored.kinds.includes(kind)) : DEFAULT_REDACTION_SETTINGS.kinds,
+                customTerms: isStringList(stored.customTerms) ? stored.customTerms : [],
+            };
+        }
+    } catch (e) {
+        console.error("Error reading saved redaction settings", e);
+    }
+    return DEFAULT_REDACTION_SETTINGS;
+};
+
+export const saveRedactionSettings = (settings: RedactionSettings): void => {
+    try {
+        localStorage.setItem(REDACTION_SETTINGS_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.error("Error saving redaction settings", e);
+    }
+};
+
+// Saving runs to the local archive is opt-in, per signed-in user.
+export const loadArchiveEnabled = (userSub: string): boolean => {
+    try {
+        return localStorage.getItem(ARCHIVE_ENABLED_KEY_PREFIX + userSub) === 'true';
+    } catch {
+        return false;
+    }
+};
+
+export const saveArchiveEnabled = (userSub: string, enabled: boolean): void => {
+    try {
+        localStorage.setItem(ARCHIVE_ENABLED_KEY_PREFIX + userSub, String(enabled));
+    } catch (e) {
+        console.error("Error saving history preference", e);
+    }
+};
+
+// Keys (see TaskEntry.key) of the tasks a user has checked off.
+export const loadCompletedTasks = (userSub: string): Set<string> => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(COMPLETED_TASKS_KEY_PREFIX + userSub) || '[]');
+        return new Set(Array.isArray(stored) ? stored.filter((key): key is string => typeof key === 'string') : []);
+    } catch (e) {
+        console.error("Error reading completed tasks", e);
+        return new Set();
+    }
+};
+
+export const saveCompletedTasks = (userSub: string, keys: Set<string>): void => {
+    try {
+        localStorage.setItem(COMPLETED_TASKS_KEY_PREFIX + userSub, JSON.stringify([...keys]));
+    } catch (e) {
+        console.error("Error saving completed tasks", e);
+    }
+};
+
+export const loadRules = (userSub: string): Rule[] => {
+    try {
+        return readRules(JSON.parse(localStorage.getItem(RULES_KEY_PREFIX + userSub) || '[]'));
+    } catch (e) {
+        console.error("Error reading saved rules", e);
+        return [];
+    }
+};
+
+export const saveRules = (userSub: string, rules: Rule[]): void => {
+    try {
+        localStorage.setItem(RULES_KEY_PREFIX + userSub, JSON.stringify(rules));
+    } catch (e) {
+        console.error("Error saving rules", e);
+    }
+};
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isContactMerge = (value: unknown): value is ContactMerge =>
+    isObject(value) && typeof value.id === 'string' && isStringList(value.addresses);
+
+// The user's contact merges and splits, see services/identity.ts.
+export const loadIdentitySettings = (userSub: string): IdentitySettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(IDENTITY_KEY_PREFIX + userSub) || 'null');
+        if (!stored) {
+            return EMPTY_IDENTITY_SETTINGS;
+        }
+        return {
+            merges: Array.isArray(stored.merges)
+                ? stored.merges.filter(isContactMerge)
+                : [],
+            splits: isStringList(stored.splits) ? stored.splits : [],
+            dismissedAliases: isStringList(stored.dismissedAliases) ? stored.dismissedAliases : [],
+        };
+    } catch (e) {
+        console.error("Error reading contact merges", e);
+        return EMPTY_IDENTITY_SETTINGS;
+    }
+};
+
+export const saveIdentitySettings = (userSub: string, settings: IdentitySettings): void => {
+    try {
+        localStorage.setItem(IDENTITY_KEY_PREFIX + userSub, JSON.stringify(settings));
+    } catch (e) {
+        console.error("Error saving contact merges", e);
+    }
+};
+
+// Drafts for single emails used to be keyed by the email's ID, which no later run can match.
+const isOrphanedDraftKey = (key: string): boolean => key.startsWith('email:') && !key.includes('\u0000');
+
+const isReplyDraft = (value: unknown): value is ReplyDraft =>
+    isObject(value)
+    && ['key', 'recipientName', 'recipientEmail', 'subject', 'body', 'instruction', 'updatedAt'].every(field => typeof value[field] === 'string')
+    && REPLY_TONES.some(({ tone }) => tone === value.tone);
+
+// Reply drafts keyed by what they answer, see services/replyDrafts.ts.
+export const loadReplyDrafts = (userSub: string): Record<string, ReplyDraft> => {
+    try {
+        const stored: unknown = JSON.parse(localStorage.getItem(REPLY_DRAFTS_KEY_PREFIX + userSub) || '{}');
+        if (!isObject(stored)) {
+            return {};
+        }
+        return Object.fromEntries(
+            Object.entries(stored).filter((entry): entry is [string, ReplyDraft] => isReplyDraft(entry[1]) && entry[1].key === entry[0] && !isOrphanedDraftKey(entry[0])),
+        );
+    } catch (e) {
+        console.error("Error reading reply drafts", e);
+        return {};
+    }
+};
+
+export const saveReplyDrafts = (userSub: string, drafts: Record<string, ReplyDraft>): void => {
+    try {
+        localStorage.setItem(REPLY_DRAFTS_KEY_PREFIX + userSub, JSON.stringify(drafts));
+    } catch (e) {
+        console.error("Error saving reply drafts", e);
+    }
+};
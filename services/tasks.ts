@@ -0,0 +1,24 @@
+import type { OrganizedEmailGroup, TaskEntry } from '../types';
+
+/**
+ * Collects the action items of every email into one list, soonest deadline first.
+ * Items without a due date go last, newest email first.
+ */
+export const collectTasks = (groups: OrganizedEmailGroup[]): TaskEntry[] => {
+    const tasks = groups.flatMap(group =>
+        group.emails.flatMap(email =>
+            email.actionItems.map((item, itemIndex) => ({
+                key: [group.senderEmail, email.subject, email.date, itemIndex, item.description].join('\u0000'),
+                item,
+                email: { ...email, senderName: group.senderName, senderEmail: group.senderEmail },
+            }))
+        )
+    );
+
+    return tasks.sort((a, b) => {
+        if (a.item.dueDate && b.item.dueDate) return a.item.dueDate.localeCompare(b.item.dueDate);
+        if (a.item.dueDate) return -1;
+        if (b.item.dueDate) return 1;
+        return b.email.date.localeCompare(a.email.date);
+    });
+};
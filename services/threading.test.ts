@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import type { ParsedEmail } from '../types';
+import { assignThreadIds } from './threading';
+
+const parsedEmail = (subject: string, messageId = '', headers: Record<string, string> = {}): ParsedEmail => ({
+    messageId,
+    senderName: '',
+    senderEmail: 'a@example.com',
+    subject,
+    date: '2024-07-29T10:00:00.000Z',
+    body: '',
+    headers,
+    remoteId: '',
+    attachments: [],
+});
+
+describe('assignThreadIds', () => {
+    it('threads replies by their reply headers', () => {
+        const [report, reply, other] = assignThreadIds([
+            parsedEmail('Report', 'report@x'),
+            parsedEmail('Quick question', 'reply@x', { 'in-reply-to': '<report@x>' }),
+            parsedEmail('Report', 'other@x'),
+        ]);
+        expect(reply).toBe(report);
+        expect(other).not.toBe(report);
+    });
+
+    it('falls back to the subject for emails without reply headers', () => {
+        const [report, reply] = assignThreadIds([parsedEmail('Report'), parsedEmail('Re: Report')]);
+        expect(reply).toBe(report);
+    });
+
+    it('falls back to the subject when the replied-to message is not in the input', () => {
+        const [report, reply] = assignThreadIds([
+            parsedEmail('Report', 'report@x'),
+            parsedEmail('Re: Report', 'reply@x', { 'in-reply-to': '<missing@x>', references: '<older@x> <missing@x>' }),
+        ]);
+        expect(reply).toBe(report);
+    });
+
+    it('does not join identical subjects that are not replies', () => {
+        const [first, second] = assignThreadIds([parsedEmail('Your receipt'), parsedEmail('Your receipt')]);
+        expect(second).not.toBe(first);
+    });
+});
@@ -0,0 +1,182 @@
+import type { EmailThread, EmailWithSender, OrganizedEmailGroup, ParsedEmail, Participant, SortOrder, ThreadSummaries } from '../types';
+
+// Reply and forward prefixes in English and the common localized ones (German, Dutch,
+// Scandinavian, French, Italian), plus mailing-list tags like "[team]".
+const SUBJECT_PREFIX = /^\s*(?:(?:re|fw|fwd|aw|wg|sv|vs|antw|doorst|tr|rif|r)(?:\[\d+\]|\(\d+\))?\s*:|\[[^\]]*\])\s*/i;
+const REPLY_OR_FORWARD = /^\s*(?:\[[^\]]*\]\s*)*(?:re|fw|fwd|aw|wg|sv|vs|antw|doorst|tr|rif|r)(?:\[\d+\]|\(\d+\))?\s*:/i;
+
+/**
+ * Strips reply/forward prefixes and list tags so "Re: AW: [team] Budget" and "budget"
+ * compare equal.
+ */
+export const normalizeSubject = (subject: string): string => {
+    let normalized = subject;
+    while (SUBJECT_PREFIX.test(normalized)) {
+        normalized = normalized.replace(SUBJECT_PREFIX, '');
+    }
+    return normalized.replace(/\s+/g, ' ').trim().toLowerCase();
+};
+
+export const isReplyOrForward = (subject: string): boolean => REPLY_OR_FORWARD.test(subject);
+
+// Strips "Re:"-style prefixes from a subject for display, keeping its case.
+export const threadSubject = (subject: string): string => {
+    let stripped = subject;
+    while (SUBJECT_PREFIX.test(stripped)) {
+        stripped = stripped.replace(SUBJECT_PREFIX, '');
+    }
+    return stripped.trim() || subject.trim();
+};
+
+// A minimal union-find over string keys.
+const createDisjointSet = () => {
+    const parents = new Map<string, string>();
+    const find = (key: string): string => {
+        let root = key;
+        while (parents.has(root) && parents.get(root) !== root) {
+            root = parents.get(root)!;
+        }
+        parents.set(key, root);
+        return root;
+    };
+    const union = (a: string, b: string) => {
+        const rootA = find(a);
+        const rootB = find(b);
+        if (rootA !== rootB) {
+            parents.set(rootB, rootA);
+        }
+    };
+    return { find, union };
+};
+
+const readMessageIds = (header: string | undefined): string[] =>
+    (header?.match(/<[^<>\s]+>/g) || []).map(id => id.slice(1, -1));
+
+/**
+ * Links emails whose subjects normalize to the same text, as long as at least one of them
+ * is marked as a reply or forward. Identical subjects alone ("Your receipt") aren't a conversation.
+ */
+const linkBySubject = (subjects: string[], candidates: number[], union: (a: string, b: string) => void) => {
+    const buckets = new Map<string, number[]>();
+    for (const index of candidates) {
+        const normalized = normalizeSubject(subjects[index]);
+        if (normalized) {
+            buckets.set(normalized, [...(buckets.get(normalized) || []), index]);
+        }
+    }
+    for (const bucket of buckets.values()) {
+        if (bucket.length > 1 && bucket.some(index => isReplyOrForward(subjects[index]))) {
+            bucket.slice(1).forEach(index => union(`email:${bucket[0]}`, `email:${index}`));
+        }
+    }
+};
+
+/**
+ * Reconstructs conversations from Message-ID, In-Reply-To and References headers.
+ * Emails whose reply headers point at none of the input messages, or that have none,
+ * fall back to their normalized subject. Returns a thread ID for each email, in input order.
+ */
+export const assignThreadIds = (emails: ParsedEmail[]): string[] => {
+    const { find, union } = createDisjointSet();
+    const inputMessageIds = new Set(emails.map(email => email.messageId).filter(Boolean));
+    const withoutKnownReferences: number[] = [];
+
+    emails.forEach((email, index) => {
+        const node = `email:${index}`;
+        find(node);
+        if (email.messageId) {
+            union(`message:${email.messageId}`, node);
+        }
+        const references = [...readMessageIds(email.headers['references']), ...readMessageIds(email.headers['in-reply-to'])];
+        // Referenced messages that aren't in the input still connect the replies to them.
+        references.forEach(reference => union(`message:${reference}`, node));
+        if (!references.some(reference => inputMessageIds.has(reference))) {
+            withoutKnownReferences.push(index);
+        }
+    });
+    linkBySubject(emails.map(email => email.subject), withoutKnownReferences, union);
+
+    const threadIds = new Map<string, string>();
+    return emails.map((_, index) => {
+        const root = find(`email:${index}`);
+        if (!threadIds.has(root)) {
+            threadIds.set(root, crypto.randomUUID());
+        }
+        return threadIds.get(root)!;
+    });
+};
+
+/**
+ * Gives every email without a thread ID one, using the subject fallback. For results that
+ * had no headers to thread by, such as pasted text or runs saved before threading existed.
+ */
+export const fillThreadIds = (groups: OrganizedEmailGroup[]): OrganizedEmailGroup[] => {
+    const missing = groups.flatMap(group => group.emails).filter(email => !email.threadId);
+    if (missing.length === 0) {
+        return groups;
+    }
+    const { find, union } = createDisjointSet();
+    linkBySubject(missing.map(email => email.subject), missing.map((_, index) => index), union);
+
+    const threadIds = new Map<string, string>();
+    const assigned = new Map(missing.map((email, index) => {
+        const root = find(`email:${index}`);
+        if (!threadIds.has(root)) {
+            threadIds.set(root, crypto.randomUUID());
+        }
+        return [email, threadIds.get(root)!];
+    }));
+    return groups.map(group => ({
+        ...group,
+        emails: group.emails.map(email => (assigned.has(email) ? { ...email, threadId: assigned.get(email)! } : email)),
+    }));
+};
+
+// Undated emails go to the end of a thread's timeline.
+const timeOf = (email: EmailWithSender): number => {
+    const time = new Date(email.date).getTime();
+    return isNaN(time) ? Infinity : time;
+};
+
+/**
+ * Collects the emails of each conversation across sender groups. Messages run oldest
+ * first; the threads themselves are ordered by their latest message for `sortOrder`.
+ */
+export const buildThreads = (groups: OrganizedEmailGroup[], summaries: ThreadSummaries, sortOrder: SortOrder): EmailThread[] => {
+    const byThread = new Map<string, EmailWithSender[]>();
+    for (const group of groups) {
+        for (const email of group.emails) {
+            const key = email.threadId || email.id;
+            byThread.set(key, [...(byThread.get(key) || []), { ...email, senderName: group.senderName, senderEmail: group.senderEmail }]);
+        }
+    }
+
+    const threads = [...byThread].map(([id, emails]): EmailThread => {
+        emails.sort((a, b) => timeOf(a) - timeOf(b));
+        const participants = new Map<string, Participant>();
+        for (const email of emails) {
+            const key = email.senderEmail || email.senderName;
+            if (!participants.has(key)) {
+                participants.set(key, { name: email.senderName, email: email.senderEmail });
+            }
+        }
+        return {
+            id,
+            subject: threadSubject(emails[0].subject),
+            participants: [...participants.values()],
+            emails,
+            summary: summaries[id] || '',
+        };
+    });
+
+    // Threads without any dated message go last either way.
+    const latest = (thread: EmailThread) => Math.max(...thread.emails.map(email => (isFinite(timeOf(email)) ? timeOf(email) : -Infinity)));
+    return threads.sort((a, b) => {
+        const timeA = latest(a);
+        const timeB = latest(b);
+        if (timeA === timeB) return 0;
+        if (timeA === -Infinity) return 1;
+        if (timeB === -Infinity) return -1;
+        return sortOrder === 'newest' ? timeB - timeA : timeA - timeB;
+    });
+};
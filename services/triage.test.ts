@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import type { EmailGroupView, EmailWithSender } from '../types';
+import { buildTriageItems, cursorAfterRemoving, moveCursor, triageCommandForKey, type TriageKeyEvent } from './triage';
+
+// Enough of an element for the checks triageCommandForKey makes, without a DOM.
+const element = (tagName: string, { type = '', isContentEditable = false, inDialog = false } = {}) => ({
+    tagName,
+    type,
+    isContentEditable,
+    closest: (selector: string) => (inDialog && selector === '[aria-modal="true"]' ? {} : null),
+}) as unknown as EventTarget;
+
+const press = (key: string, changes: Partial<TriageKeyEvent> = {}): TriageKeyEvent => ({
+    key,
+    ctrlKey: false,
+    metaKey: false,
+    altKey: false,
+    target: element('LI'),
+    ...changes,
+});
+
+const view = (key: string, ...emailIds: string[]): EmailGroupView => ({
+    key,
+    title: key,
+    subtitle: '',
+    showSender: false,
+    mergedByRule: false,
+    emails: emailIds.map((id) => ({ id }) as EmailWithSender),
+});
+
+describe('triageCommandForKey', () => {
+    it('maps each shortcut to its command', () => {
+        expect(['j', 'ArrowDown', 'k', 'ArrowUp', 'o', 'x', '#', 'c', '/', '?', 'Escape'].map((key) => triageCommandForKey(press(key)))).toEqual(
+            ['next', 'next', 'previous', 'previous', 'toggle-group', 'select', 'delete', 'copy', 'search', 'help', 'exit'],
+        );
+    });
+
+    it('ignores other keys', () => {
+        expect(triageCommandForKey(press('J'))).toBeNull();
+        expect(triageCommandForKey(press('Enter'))).toBeNull();
+    });
+
+    it('leaves combinations with Ctrl, Cmd or Alt to the browser', () => {
+        expect(triageCommandForKey(press('c', { ctrlKey: true }))).toBeNull();
+        expect(triageCommandForKey(press('c', { metaKey: true }))).toBeNull();
+        expect(triageCommandForKey(press('j', { altKey: true }))).toBeNull();
+    });
+
+    it('allows Shift, which "#" and "?" need', () => {
+        expect(triageCommandForKey({ ...press('#'), shiftKey: true } as TriageKeyEvent)).toBe('delete');
+        expect(triageCommandForKey({ ...press('?'), shiftKey: true } as TriageKeyEvent)).toBe('help');
+    });
+
+    it('ignores keys typed into text fields', () => {
+        expect(triageCommandForKey(press('j', { target: element('INPUT', { type: 'search' }) }))).toBeNull();
+        expect(triageCommandForKey(press('j', { target: element('input', { type: 'text' }) }))).toBeNull();
+        expect(triageCommandForKey(press('j', { target: element('INPUT') }))).toBeNull();
+        expect(triageCommandForKey(press('j', { target: element('TEXTAREA') }))).toBeNull();
+        expect(triageCommandForKey(press('j', { target: element('SELECT') }))).toBeNull();
+        expect(triageCommandForKey(press('j', { target: element('DIV', { isContentEditable: true }) }))).toBeNull();
+    });
+
+    it('ignores keys in a modal dialog', () => {
+        expect(triageCommandForKey(press('#', { target: element('BUTTON', { inDialog: true }) }))).toBeNull();
+    });
+
+    it('still works on checkboxes and buttons', () => {
+        expect(triageCommandForKey(press('x', { target: element('INPUT', { type: 'checkbox' }) }))).toBe('select');
+        expect(triageCommandForKey(press('j', { target: element('BUTTON') }))).toBe('next');
+        expect(triageCommandForKey(press('j', { target: null }))).toBe('next');
+    });
+});
+
+describe('buildTriageItems', () => {
+    it('lists the emails of open groups and one stop per collapsed group, in order', () => {
+        const items = buildTriageItems([view('a', '1', '2'), view('b', '3', '4'), view('c', '5')], new Set(['b']));
+        expect(items).toEqual([
+            { key: '1', viewKey: 'a', emailId: '1' },
+            { key: '2', viewKey: 'a', emailId: '2' },
+            { key: 'group:b', viewKey: 'b', emailId: null },
+            { key: '5', viewKey: 'c', emailId: '5' },
+        ]);
+    });
+
+    it('is empty without groups', () => {
+        expect(buildTriageItems([], new Set())).toEqual([]);
+    });
+});
+
+describe('moveCursor', () => {
+    const items = buildTriageItems([view('a', '1', '2'), view('b', '3')], new Set(['b']));
+
+    it('moves one stop forward or back', () => {
+        expect(moveCursor(items, '1', 1)).toBe('2');
+        expect(moveCursor(items, '2', 1)).toBe('group:b');
+        expect(moveCursor(items, 'group:b', -1)).toBe('2');
+    });
+
+    it('stays put at either end', () => {
+        expect(moveCursor(items, 'group:b', 1)).toBe('group:b');
+        expect(moveCursor(items, '1', -1)).toBe('1');
+    });
+
+    it('starts at the first or last stop when the cursor is not in the list', () => {
+        expect(moveCursor(items, null, 1)).toBe('1');
+        expect(moveCursor(items, null, -1)).toBe('group:b');
+        expect(moveCursor(items, 'deleted', 1)).toBe('1');
+    });
+
+    it('has nowhere to go in an empty list', () => {
+        expect(moveCursor([], '1', 1)).toBeNull();
+    });
+});
+
+describe('cursorAfterRemoving', () => {
+    const items = buildTriageItems([view('a', '1', '2', '3')], new Set());
+
+    it('moves to the next stop', () => {
+        expect(cursorAfterRemoving(items, '2')).toBe('3');
+    });
+
+    it('moves back at the end of the list', () => {
+        expect(cursorAfterRemoving(items, '3')).toBe('2');
+    });
+
+    it('has nowhere to go when the last stop is removed or the cursor is unknown', () => {
+        expect(cursorAfterRemoving(items.slice(0, 1), '1')).toBeNull();
+        expect(cursorAfterRemoving(items, 'deleted')).toBeNull();
+    });
+});
@@ -0,0 +1,96 @@
+import type { EmailGroupView, TriageCommand, TriageItem } from '../types';
+
+export interface TriageShortcut {
+    keys: string[]; // KeyboardEvent.key values
+    command: TriageCommand;
+    description: string;
+}
+
+// In the order the cheat sheet lists them.
+export const TRIAGE_SHORTCUTS: TriageShortcut[] = [
+    { keys: ['j', 'ArrowDown'], command: 'next', description: 'Next email' },
+    { keys: ['k', 'ArrowUp'], command: 'previous', description: 'Previous email' },
+    { keys: ['o'], command: 'toggle-group', description: 'Expand or collapse the group' },
+    { keys: ['x'], command: 'select', description: 'Select or deselect (emails from Gmail)' },
+    { keys: ['#'], command: 'delete', description: 'Delete from the results' },
+    { keys: ['c'], command: 'copy', description: 'Copy the summary' },
+    { keys: ['/'], command: 'search', description: 'Search' },
+    { keys: ['?'], command: 'help', description: 'Show these shortcuts' },
+    { keys: ['Escape'], command: 'exit', description: 'Leave triage mode' },
+];
+
+const COMMANDS_BY_KEY = new Map(TRIAGE_SHORTCUTS.flatMap(({ keys, command }) => keys.map(key => [key, command] as const)));
+
+// Inputs that take typed text; checkboxes and buttons don't, so shortcuts keep working on them.
+const NON_TEXT_INPUT_TYPES = new Set(['checkbox', 'radio', 'button', 'submit', 'reset', 'file', 'color', 'range']);
+
+export interface TriageKeyEvent {
+    key: string;
+    ctrlKey: boolean;
+    metaKey: boolean;
+    altKey: boolean;
+    target: EventTarget | null;
+}
+
+// Typing in a field or working in a dialog takes precedence over the shortcuts.
+const isShortcutFreeTarget = (target: EventTarget | null): boolean => {
+    const element = target as HTMLElement | null;
+    if (!element || typeof element.tagName !== 'string') {
+        return false;
+    }
+    if (element.isContentEditable || element.closest?.('[aria-modal="true"]')) {
+        return true;
+    }
+    const tagName = element.tagName.toUpperCase();
+    if (tagName === 'INPUT') {
+        return !NON_TEXT_INPUT_TYPES.has(((element as HTMLInputElement).type || 'text').toLowerCase());
+    }
+    return tagName === 'TEXTAREA' || tagName === 'SELECT';
+};
+
+/**
+ * The triage command for a key press, or null if the key isn't a shortcut. Key combinations
+ * with Ctrl, Cmd or Alt are left to the browser; Shift is allowed, since "#" and "?" need it
+ * on most layouts.
+ */
+export const triageCommandForKey = (event: TriageKeyEvent): TriageCommand | null => {
+    if (event.ctrlKey || event.metaKey || event.altKey || isShortcutFreeTarget(event.target)) {
+        return null;
+    }
+    return COMMANDS_BY_KEY.get(event.key) ?? null;
+};
+
+export const groupItemKey = (viewKey: string): string => `group:${viewKey}`;
+
+/**
+ * The stops for the triage cursor in display order: every email of an open group, and a
+ * single stop for each collapsed group.
+ */
+export const buildTriageItems = (views: EmailGroupView[], collapsedKeys: Set<string>): TriageItem[] =>
+    views.flatMap(view => collapsedKeys.has(view.key)
+        ? [{ key: groupItemKey(view.key), viewKey: view.key, emailId: null }]
+        : view.emails.map(email => ({ key: email.id, viewKey: view.key, emailId: email.id })));
+
+/**
+ * Moves the cursor one stop forward or back, staying put at either end. A cursor that isn't
+ * in the list (none yet, or its email was filtered out) starts over at the first or last stop.
+ */
+export const moveCursor = (items: TriageItem[], cursor: string | null, step: 1 | -1): string | null => {
+    if (items.length === 0) {
+        return null;
+    }
+    const index = items.findIndex(item => item.key === cursor);
+    if (index === -1) {
+        return step === 1 ? items[0].key : items[items.length - 1].key;
+    }
+    return items[Math.min(Math.max(index + step, 0), items.length - 1)].key;
+};
+
+// Where the cursor goes when its stop is removed: the next stop, or the previous one at the end.
+export const cursorAfterRemoving = (items: TriageItem[], cursor: string): string | null => {
+    const index = items.findIndex(item => item.key === cursor);
+    if (index === -1) {
+        return null;
+    }
+    return (items[index + 1] ?? items[index - 1])?.key ?? null;
+};
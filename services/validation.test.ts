@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { validateGroups, validateSummaries } from './validation';
+
+const exportedEmail = (subject: string) => ({ subject, date: '2024-07-15T12:00:00Z', summary: `About ${subject}`, category: 'other', priority: 3, priorityReason: '', actionItems: [] });
+
+describe('validateGroups', () => {
+    it('combines groups that share a sender address', () => {
+        const { value } = validateGroups([
+            { senderName: 'A', senderEmail: 'a@shop.com', emails: [exportedEmail('One')] },
+            { senderName: '', senderEmail: 'A@shop.com', emails: [exportedEmail('Two')] },
+        ]);
+        expect(value.map((group) => [group.senderName, group.emails.map((email) => email.subject)])).toEqual([['A', ['One', 'Two']]]);
+    });
+
+    it("keeps a re-imported rule-merged group apart from its first sender's group", () => {
+        const { value } = validateGroups([
+            { senderName: 'A', senderEmail: 'a@shop.com', emails: [exportedEmail('Hello')], mergedByRule: false },
+            { senderName: 'Billing', senderEmail: 'a@shop.com', emails: [exportedEmail('Invoice')], mergedByRule: true },
+        ]);
+        expect(value.map((group) => [group.senderName, group.mergedByRule, group.emails.map((email) => email.subject)])).toEqual([
+            ['A', false, ['Hello']],
+            ['Billing', true, ['Invoice']],
+        ]);
+    });
+});
+
+describe('validateSummaries', () => {
+    const summary = (dueDate: string) => ({ index: 0, summary: 'About the report', actionItems: [{ description: 'Send the report', owner: 'me', dueDate }] });
+
+    it('keeps a date-only due date as a calendar date', () => {
+        const { value, issues } = validateSummaries([summary('2024-08-02')], ['Report']);
+        expect(issues.filter((issue) => issue.path.includes('dueDate'))).toEqual([]);
+        expect(value[0].actionItems[0].dueDate).toBe('2024-08-02');
+    });
+
+    it('reports a due date that is not a date', () => {
+        const { value, issues } = validateSummaries([summary('soon')], ['Report']);
+        expect(value[0].actionItems[0].dueDate).toBe('');
+        expect(issues.map((issue) => issue.message)).toContain('"soon" is not a valid date');
+    });
+});
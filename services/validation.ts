@@ -0,0 +1,391 @@
+import type { ActionItem, Attachment, Digest, DigestDeadline, DigestPoint, Email, EmailAnalysis, OrganizedEmailGroup, ParsedEmail, ValidationIssue } from '../types';
+import { parseDate } from './emailParser';
+import { parseDueDate } from './dueDates';
+import { DEFAULT_PRIORITY, EMAIL_CATEGORIES, isEmailCategory, isMailKind, kindForCategory, MAIL_KINDS, MAX_PRIORITY, MIN_PRIORITY } from './categories';
+import { assessRisk, isRiskAssessment } from './phishing';
+import { normalizeLanguage } from './language';
+import { groupKey } from './emailGrouping';
+
+export interface ValidationResult<T> {
+    value: T;
+    issues: ValidationIssue[];
+}
+
+const EMAIL_ADDRESS = /^[^\s@<>()",;:]+@[^\s@<>()",;:]+$/;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown): string =>
+    value === null ? 'null' : Array.isArray(value) ? 'a list' : typeof value;
+
+const checkString = (record: Record<string, unknown>, field: string, path: string, issues: ValidationIssue[]): string | null => {
+    const value = record[field];
+    if (typeof value !== 'string') {
+        issues.push({ path: `${path}.${field}`, message: value === undefined ? 'is missing' : `must be a string, got ${describe(value)}` });
+        return null;
+    }
+    return value.trim();
+};
+
+/**
+ * Reads the category, priority, priority reason, kind and suspicion reason of an email. Bad
+ * values are reported and replaced with defaults rather than dropping the email. A missing kind
+ * is taken from the category, since output from before kinds existed has none.
+ */
+const checkTriage = (record: Record<string, unknown>, path: string, issues: ValidationIssue[]): Pick<EmailAnalysis, 'category' | 'priority' | 'priorityReason' | 'kind' | 'suspicionReason'> => {
+    const rawCategory = typeof record.category === 'string' ? record.category.trim().toLowerCase() : record.category;
+    const category = isEmailCategory(rawCategory) ? rawCategory : 'other';
+    if (!isEmailCategory(rawCategory)) {
+        issues.push({
+            path: `${path}.category`,
+            message: rawCategory === undefined ? 'is missing' : `${JSON.stringify(rawCategory)} is not one of ${EMAIL_CATEGORIES.join(', ')}`,
+        });
+    }
+
+    const { priority } = record;
+    const validPriority = typeof priority === 'number' && Number.isInteger(priority) && priority >= MIN_PRIORITY && priority <= MAX_PRIORITY;
+    if (!validPriority) {
+        issues.push({
+            path: `${path}.priority`,
+            message: priority === undefined ? 'is missing' : `${JSON.stringify(priority)} is not a whole number from ${MIN_PRIORITY} to ${MAX_PRIORITY}`,
+        });
+    }
+
+    const rawKind = typeof record.kind === 'string' ? record.kind.trim().toLowerCase() : record.kind;
+    if (rawKind !== undefined && !isMailKind(rawKind)) {
+        issues.push({ path: `${path}.kind`, message: `${JSON.stringify(rawKind)} is not one of ${MAIL_KINDS.join(', ')}` });
+    }
+
+    return {
+        category,
+        priority: validPriority ? priority : DEFAULT_PRIORITY,
+        priorityReason: typeof record.priorityReason === 'string' ? record.priorityReason.trim() : '',
+        kind: isMailKind(rawKind) ? rawKind : kindForCategory(category),
+        suspicionReason: typeof record.suspicionReason === 'string' ? record.suspicionReason.trim() : '',
+    };
+};
+
+// The language of an email and its summary in that language, both optional.
+const checkLanguage = (record: Record<string, unknown>): Pick<EmailAnalysis, 'language' | 'originalSummary'> => ({
+    language: typeof record.language === 'string' ? normalizeLanguage(record.language) : '',
+    originalSummary: typeof record.originalSummary === 'string' ? record.originalSummary.trim() : '',
+});
+
+/**
+ * Reads the action items of an email, dropping (and reporting) items without a description.
+ * Unreadable due dates are reported and the item is kept without one.
+ */
+const checkActionItems = (record: Record<string, unknown>, path: string, issues: ValidationIssue[]): ActionItem[] => {
+    const { actionItems } = record;
+    if (!Array.isArray(actionItems)) {
+        issues.push({ path: `${path}.actionItems`, message: actionItems === undefined ? 'is missing' : `must be a list, got ${describe(actionItems)}` });
+        return [];
+    }
+
+    const items: ActionItem[] = [];
+    actionItems.forEach((item, itemIndex) => {
+        const itemPath = `${path}.actionItems[${itemIndex}]`;
+        if (!isObject(item)) {
+            issues.push({ path: itemPath, message: `must be an object, got ${describe(item)}` });
+            return;
+        }
+        const description = checkString(item, 'description', itemPath, issues);
+        if (!description) {
+            return;
+        }
+        const rawDueDate = typeof item.dueDate === 'string' ? item.dueDate.trim() : '';
+        const dueDate = parseDueDate(rawDueDate);
+        if (rawDueDate && !dueDate) {
+            issues.push({ path: `${itemPath}.dueDate`, message: `"${rawDueDate}" is not a valid date` });
+        }
+        items.push({ description, owner: typeof item.owner === 'string' ? item.owner.trim() : '', dueDate });
+    });
+    return items;
+};
+
+// Attachments are only present in re-imported exports, so malformed ones are dropped without a report.
+const isAttachment = (value: unknown): value is Attachment =>
+    isObject(value) && typeof value.fileName === 'string' && typeof value.mimeType === 'string'
+    && typeof value.size === 'number' && typeof value.hash === 'string' && typeof value.summary === 'string';
+
+/**
+ * Validates one email from model output. Returns null (with issues) if a required field is
+ * missing or has the wrong type. Unreadable dates are reported but the email is kept without one.
+ * Without the original message, the phishing risk is scored from the sender and the summary.
+ */
+const validateEmail = (
+    data: unknown,
+    sender: Pick<ParsedEmail, 'senderName' | 'senderEmail'>,
+    path: string,
+    issues: ValidationIssue[],
+): Email | null => {
+    if (!isObject(data)) {
+        issues.push({ path, message: `must be an object, got ${describe(data)}` });
+        return null;
+    }
+    const subject = checkString(data, 'subject', path, issues);
+    const rawDate = checkString(data, 'date', path, issues);
+    const summary = checkString(data, 'summary', path, issues);
+    if (subject === null || rawDate === null || summary === null) {
+        return null;
+    }
+
+    const date = parseDate(rawDate);
+    if (rawDate && !date) {
+        issues.push({ path: `${path}.date`, message: `"${rawDate}" is not a valid date` });
+    }
+    const { suspicionReason, ...triage } = checkTriage(data, path, issues);
+    return {
+        // Kept from re-imported exports, so calendar events and anything else keyed by ID still match.
+        id: typeof data.id === 'string' && data.id.trim() ? data.id : crypto.randomUUID(),
+        subject,
+        date,
+        summary,
+        ...triage,
+        ...checkLanguage(data),
+        actionItems: checkActionItems(data, path, issues),
+        // Only present in re-imported exports; the model never assigns threads, mailbox IDs, tags or unsubscribe links.
+        threadId: typeof data.threadId === 'string' ? data.threadId : '',
+        remoteId: typeof data.remoteId === 'string' ? data.remoteId : '',
+        tags: Array.isArray(data.tags) ? data.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+        unsubscribeLinks: Array.isArray(data.unsubscribeLinks) ? data.unsubscribeLinks.filter((link): link is string => typeof link === 'string') : [],
+        risk: isRiskAssessment(data.risk) ? data.risk : assessRisk({ ...sender, subject, body: summary, headers: {} }, suspicionReason),
+        attachments: Array.isArray(data.attachments) ? data.attachments.filter(isAttachment) : [],
+    };
+};
+
+/**
+ * Validates sender groups from model output: checks every field, normalizes dates to
+ * ISO 8601, lowercases sender addresses and merges groups that share an address.
+ * Invalid groups and emails are dropped and reported.
+ */
+export const validateGroups = (data: unknown): ValidationResult<OrganizedEmailGroup[]> => {
+    const issues: ValidationIssue[] = [];
+    if (!Array.isArray(data)) {
+        issues.push({ path: 'groups', message: `must be a list, got ${describe(data)}` });
+        return { value: [], issues };
+    }
+
+    const groups = new Map<string, OrganizedEmailGroup>();
+    const ids = new Set<string>();
+    data.forEach((item, groupIndex) => {
+        const path = `groups[${groupIndex}]`;
+        if (!isObject(item)) {
+            issues.push({ path, message: `must be an object, got ${describe(item)}` });
+            return;
+        }
+        const senderName = checkString(item, 'senderName', path, issues);
+        const rawSenderEmail = checkString(item, 'senderEmail', path, issues);
+        if (!Array.isArray(item.emails)) {
+            issues.push({ path: `${path}.emails`, message: item.emails === undefined ? 'is missing' : `must be a list, got ${describe(item.emails)}` });
+            return;
+        }
+        if (senderName === null || rawSenderEmail === null) {
+            return;
+        }
+        const senderEmail = rawSenderEmail.toLowerCase();
+        if (senderEmail && !EMAIL_ADDRESS.test(senderEmail)) {
+            issues.push({ path: `${path}.senderEmail`, message: `"${rawSenderEmail}" is not a valid email address` });
+            return;
+        }
+
+        const emails = item.emails
+            .map((email, emailIndex) => validateEmail(email, { senderName, senderEmail }, `${path}.emails[${emailIndex}]`, issues))
+            .filter((email): email is Email => email !== null)
+            .map((email) => {
+                // A hand-edited file may repeat an ID; only its first email keeps it.
+                const unique = ids.has(email.id) ? { ...email, id: crypto.randomUUID() } : email;
+                ids.add(unique.id);
+                return unique;
+            });
+
+        // Only present in re-imported exports; rule-merged groups stay apart from their first sender's group.
+        const group: OrganizedEmailGroup = { senderName, senderEmail, emails, mergedByRule: item.mergedByRule === true };
+        const existing = groups.get(groupKey(group));
+        if (existing) {
+            existing.emails.push(...emails);
+            existing.senderName = existing.senderName || senderName;
+        } else {
+            groups.set(groupKey(group), group);
+        }
+    });
+
+    return { value: [...groups.values()].filter((group) => group.emails.length > 0), issues };
+};
+
+const EMPTY_ANALYSIS: EmailAnalysis = { summary: '', category: 'other', priority: DEFAULT_PRIORITY, priorityReason: '', actionItems: [], kind: 'human', suspicionReason: '', language: '', originalSummary: '' };
+
+/**
+ * Validates `{ index, summary, category, priority, priorityReason }` entries from model
+ * output into one analysis per email. `labels` name each email (e.g. by subject) in the
+ * reported issues; any email left without a summary gets an empty analysis.
+ */
+export const validateSummaries = (data: unknown, labels: string[]): ValidationResult<EmailAnalysis[]> => {
+    const issues: ValidationIssue[] = [];
+    const summaries: (EmailAnalysis | null)[] = labels.map(() => null);
+    if (!Array.isArray(data)) {
+        issues.push({ path: 'summaries', message: `must be a list, got ${describe(data)}` });
+        return { value: labels.map(() => EMPTY_ANALYSIS), issues };
+    }
+
+    data.forEach((item, position) => {
+        const path = `summaries[${position}]`;
+        if (!isObject(item)) {
+            issues.push({ path, message: `must be an object, got ${describe(item)}` });
+            return;
+        }
+        const { index, summary } = item;
+        if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index >= labels.length) {
+            issues.push({ path: `${path}.index`, message: `${JSON.stringify(index)} does not refer to an email in the input` });
+            return;
+        }
+        if (typeof summary !== 'string' || !summary.trim()) {
+            issues.push({ path: `${path}.summary`, message: `must be a non-empty string for email ${index}` });
+            return;
+        }
+        if (summaries[index] !== null) {
+            issues.push({ path: `${path}.index`, message: `email ${index} was summarized more than once` });
+            return;
+        }
+        summaries[index] = {
+            summary: summary.trim(),
+            ...checkTriage(item, path, issues),
+            ...checkLanguage(item),
+            actionItems: checkActionItems(item, path, issues),
+        };
+    });
+
+    summaries.forEach((summary, index) => {
+        if (summary === null) {
+            issues.push({ path: `email ${index} ("${labels[index]}")`, message: 'has no summary' });
+        }
+    });
+    return { value: summaries.map((summary) => summary ?? EMPTY_ANALYSIS), issues };
+};
+
+/**
+ * Validates `{ index, summary }` entries for numbered conversations. Conversations left
+ * without a summary get an empty string.
+ */
+export const validateThreadSummaries = (data: unknown, labels: string[]): ValidationResult<string[]> => {
+    const issues: ValidationIssue[] = [];
+    const summaries: (string | null)[] = labels.map(() => null);
+    if (!Array.isArray(data)) {
+        issues.push({ path: 'threads', message: `must be a list, got ${describe(data)}` });
+        return { value: labels.map(() => ''), issues };
+    }
+
+    data.forEach((item, position) => {
+        const path = `threads[${position}]`;
+        if (!isObject(item)) {
+            issues.push({ path, message: `must be an object, got ${describe(item)}` });
+            return;
+        }
+        const { index, summary } = item;
+        if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index >= labels.length) {
+            issues.push({ path: `${path}.index`, message: `${JSON.stringify(index)} does not refer to a conversation in the input` });
+            return;
+        }
+        if (typeof summary !== 'string' || !summary.trim()) {
+            issues.push({ path: `${path}.summary`, message: `must be a non-empty string for conversation ${index}` });
+            return;
+        }
+        summaries[index] = summary.trim();
+    });
+
+    summaries.forEach((summary, index) => {
+        if (summary === null) {
+            issues.push({ path: `conversation ${index} ("${labels[index]}")`, message: 'has no summary' });
+        }
+    });
+    return { value: summaries.map((summary) => summary ?? ''), issues };
+};
+
+/**
+ * Validates a drafted reply. The body is required; a missing subject is reported and left
+ * empty for the caller to fill in.
+ */
+export const validateReplyDraft = (data: unknown): ValidationResult<{ subject: string; body: string } | null> => {
+    const issues: ValidationIssue[] = [];
+    if (!isObject(data)) {
+        issues.push({ path: 'reply', message: `must be an object, got ${describe(data)}` });
+        return { value: null, issues };
+    }
+    const subject = checkString(data, 'subject', 'reply', issues);
+    const body = checkString(data, 'body', 'reply', issues);
+    if (!body) {
+        if (body === '') {
+            issues.push({ path: 'reply.body', message: 'is empty' });
+        }
+        return { value: null, issues };
+    }
+    return { value: { subject: subject || '', body }, issues };
+};
+
+export type DigestContent = Pick<Digest, 'overview' | 'keyThreads' | 'decisions' | 'openQuestions' | 'deadlines'>;
+
+/**
+ * Reads one list of digest points, turning the cited email numbers into email IDs. Points
+ * without text are dropped; citations of emails that weren't in the input are dropped too.
+ */
+const checkDigestPoints = (record: Record<string, unknown>, field: string, emailIds: string[], issues: ValidationIssue[]): (DigestPoint & { rawDueDate: string })[] => {
+    const list = record[field];
+    if (!Array.isArray(list)) {
+        issues.push({ path: `digest.${field}`, message: list === undefined ? 'is missing' : `must be a list, got ${describe(list)}` });
+        return [];
+    }
+    const points: (DigestPoint & { rawDueDate: string })[] = [];
+    list.forEach((item, index) => {
+        const path = `digest.${field}[${index}]`;
+        if (!isObject(item)) {
+            issues.push({ path, message: `must be an object, got ${describe(item)}` });
+            return;
+        }
+        const text = checkString(item, 'text', path, issues);
+        if (!text) {
+            return;
+        }
+        const sources = Array.isArray(item.sources) ? item.sources : [];
+        const sourceIds = [...new Set(sources
+            .filter((source): source is number => typeof source === 'number' && Number.isInteger(source) && source >= 0 && source < emailIds.length)
+            .map((source) => emailIds[source]))];
+        if (sourceIds.length < sources.length) {
+            issues.push({ path: `${path}.sources`, message: 'cites emails that are not in the input' });
+        }
+        points.push({ text, sourceIds, rawDueDate: typeof item.dueDate === 'string' ? item.dueDate.trim() : '' });
+    });
+    return points;
+};
+
+/**
+ * Validates a digest written over numbered emails, whose IDs are given in the same order.
+ * Returns null (with issues) if the output isn't an object at all.
+ */
+export const validateDigest = (data: unknown, emailIds: string[]): ValidationResult<DigestContent | null> => {
+    const issues: ValidationIssue[] = [];
+    if (!isObject(data)) {
+        issues.push({ path: 'digest', message: `must be an object, got ${describe(data)}` });
+        return { value: null, issues };
+    }
+    const withoutDueDate = ({ rawDueDate: _rawDueDate, ...point }: DigestPoint & { rawDueDate: string }): DigestPoint => point;
+    const deadlines: DigestDeadline[] = [];
+    checkDigestPoints(data, 'deadlines', emailIds, issues).forEach((point, index) => {
+        const dueDate = parseDueDate(point.rawDueDate);
+        if (!dueDate) {
+            issues.push({ path: `digest.deadlines[${index}].dueDate`, message: point.rawDueDate ? `"${point.rawDueDate}" is not a valid date` : 'is missing' });
+            return;
+        }
+        deadlines.push({ ...withoutDueDate(point), dueDate });
+    });
+    return {
+        value: {
+            overview: checkString(data, 'overview', 'digest', issues) || '',
+            keyThreads: checkDigestPoints(data, 'keyThreads', emailIds, issues).map(withoutDueDate),
+            decisions: checkDigestPoints(data, 'decisions', emailIds, issues).map(withoutDueDate),
+            openQuestions: checkDigestPoints(data, 'openQuestions', emailIds, issues).map(withoutDueDate),
+            deadlines: deadlines.sort((a, b) => a.dueDate.localeCompare(b.dueDate)),
+        },
+        issues,
+    };
+};
@@ -1,20 +1,451 @@
+export type EmailCategory = 'action-required' | 'meeting' | 'invoice' | 'personal' | 'newsletter' | 'notification' | 'other';
+
+// Who sent an email: a person, a system sending one-off messages (receipts, alerts), or a mass mailing.
+export type MailKind = 'human' | 'transactional' | 'bulk';
+
+// How likely an email is to be phishing or a scam, see services/phishing.ts.
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface RiskAssessment {
+  level: RiskLevel;
+  score: number; // 0 to 100, the sum of the weights of the signals found
+  reasons: string[]; // One sentence per signal, strongest first
+}
+
+export interface Attachment {
+  fileName: string; // As sent, or e.g. "attachment-2.pdf" when the message doesn't name it
+  mimeType: string;
+  size: number; // Decoded size in bytes
+  hash: string; // SHA-256 of the content, identifying the same file sent more than once
+  summary: string; // A local one-line description of text, CSV and calendar files, otherwise empty
+}
+
+// An attachment as parsed from a message, with its decoded content.
+export interface ParsedAttachment extends Attachment {
+  content: Uint8Array;
+}
+
+// Attachment contents by hash. Only kept in memory, so runs from history have none.
+export type AttachmentContents = Record<string, Blob>;
+
+export interface ActionItem {
+  description: string;
+  owner: string; // Who is expected to do it, or an empty string if the email doesn't say
+  dueDate: string; // ISO 8601, or an empty string if there is no deadline
+}
+
 export interface Email {
+  id: string; // Generated locally; stable for the lifetime of a run
   subject: string;
   date: string;
   summary: string;
+  category: EmailCategory;
+  priority: number; // 1 (lowest) to 5 (most urgent)
+  priorityReason: string;
+  actionItems: ActionItem[];
+  threadId: string; // Shared by the emails of one conversation, see services/threading.ts
+  remoteId: string; // The message's ID in the mailbox it was fetched from, or an empty string for pasted and imported mail
+  tags: string[]; // Added by the user's rules, see services/rules.ts
+  kind: MailKind; // From the headers when they tell, otherwise from the model, see services/bulkMail.ts
+  unsubscribeLinks: string[]; // https: and mailto: targets from the List-Unsubscribe header or the body
+  risk: RiskAssessment; // From the headers, links and wording, with the model's opinion as one signal
+  attachments: Attachment[]; // Only known when the message was parsed from its source, not from pasted text
+  language: string; // ISO 639-1 code of the language the email is written in, or an empty string if unknown
+  originalSummary: string; // The summary in the email's own language when `summary` is a translation, otherwise empty
+}
+
+// What the model adds to a locally parsed email.
+export interface EmailAnalysis {
+  summary: string;
+  category: EmailCategory;
+  priority: number;
+  priorityReason: string;
+  actionItems: ActionItem[];
+  kind: MailKind;
+  suspicionReason: string; // Why the model thinks the email may be phishing or a scam, or an empty string
+  language: string;
+  originalSummary: string;
 }
 
 export interface OrganizedEmailGroup {
   senderName: string;
   senderEmail: string;
   emails: Email[];
+  mergedByRule: boolean; // Built by a "Merge into group" rule: named after the rule's group, with the address of the first sender merged in
+}
+
+// A message read locally from raw RFC 5322 / MIME text, before any AI processing.
+export interface ParsedEmail {
+  messageId: string;
+  senderName: string;
+  senderEmail: string;
+  subject: string;
+  date: string; // ISO 8601, or an empty string if the Date header is missing or unreadable
+  body: string; // Decoded plain-text body
+  headers: Record<string, string>; // Unfolded, decoded headers keyed by lowercase name
+  remoteId: string; // Set when the message was fetched from a remote mailbox, see MailboxClient
+  attachments: ParsedAttachment[];
+}
+
+// The outcome of importing one .eml, .mbox or Maildir file.
+export interface ImportedFile {
+  fileName: string;
+  emails: ParsedEmail[];
+  error: string | null;
+}
+
+export interface MailboxLabel {
+  id: string;
+  name: string;
+  system: boolean; // Built-in labels such as INBOX or SENT, as opposed to ones the user created
+}
+
+// Which messages to fetch from a remote mailbox. Empty values don't restrict the search.
+export interface MailboxQuery {
+  labelId: string;
+  search: string; // In the mailbox's own search syntax, e.g. Gmail's "from:alice has:attachment"
+  dateFrom: string; // YYYY-MM-DD, inclusive
+  dateTo: string; // YYYY-MM-DD, inclusive
+  maxMessages: number;
+}
+
+export interface MessagePage {
+  ids: string[];
+  nextPageToken: string | null;
+}
+
+// Label changes applied to a set of messages at once.
+export interface LabelChanges {
+  addLabelIds: string[];
+  removeLabelIds: string[];
+}
+
+// Access to a remote mailbox. The Gmail implementation takes its API base URL,
+// so it can also be pointed at a local mock server.
+export interface MailboxClient {
+  listLabels: (signal?: AbortSignal) => Promise<MailboxLabel[]>;
+  listMessages: (query: MailboxQuery, pageToken: string | null, signal?: AbortSignal) => Promise<MessagePage>;
+  getRawMessage: (id: string, signal?: AbortSignal) => Promise<string>; // The full RFC 5322 source
+  // The methods below change the mailbox and may ask the user for broader access first.
+  createLabel: (name: string, signal?: AbortSignal) => Promise<MailboxLabel>;
+  modifyMessages: (ids: string[], changes: LabelChanges, signal?: AbortSignal) => Promise<void>;
+  trashMessages: (ids: string[], signal?: AbortSignal) => Promise<void>;
+}
+
+// A change to apply to the selected emails' messages in the remote mailbox.
+export type MailboxAction =
+  | { type: 'label'; labelName: string } // Creates the label if it doesn't exist yet
+  | { type: 'archive' }
+  | { type: 'markRead' }
+  | { type: 'trash' };
+
+export interface OrganizeProgress {
+  completedChunks: number;
+  totalChunks: number;
+}
+
+// A problem found while validating model output, e.g. { path: 'groups[0].emails[1].date', message: 'is missing' }.
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// One AI summary per conversation, keyed by Email.threadId.
+export type ThreadSummaries = Record<string, string>;
+
+export interface OrganizeResult {
+  groups: OrganizedEmailGroup[];
+  threadSummaries: ThreadSummaries;
+  failedChunks: number;
+  totalChunks: number;
+  cancelled: boolean;
+  issues: ValidationIssue[]; // Output that was still invalid after a repair attempt
+  hiddenByRules: number;
+}
+
+// What a rule looks at. A rule matches an email when all of its conditions do.
+export type RuleCondition =
+  | { type: 'sender'; pattern: string } // The sender's address, with * as a wildcard, e.g. "*@github.com"
+  | { type: 'domain'; domain: string } // The sender's domain or any of its subdomains
+  | { type: 'subject'; regex: string } // Case-insensitive regular expression
+  | { type: 'date'; from: string; to: string }; // YYYY-MM-DD, inclusive; either may be empty
+
+// What a rule does to the emails it matches.
+export type RuleAction =
+  | { type: 'tag'; tag: string }
+  | { type: 'setCategory'; category: EmailCategory }
+  | { type: 'setPriority'; priority: number }
+  | { type: 'hide' } // Leaves the email out of the results entirely
+  | { type: 'mergeInto'; groupName: string } // Shows matching emails from any sender as one group
+  | { type: 'skipSummary' }; // Summarizes locally instead of sending the email to the AI provider
+
+export interface Rule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+}
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'offline';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string;
+  baseUrl: string; // Only used by the OpenAI-compatible provider
+  apiKey: string;  // Only used by the OpenAI-compatible provider; Gemini reads API_KEY from the environment
+  summaryLanguage: string; // ISO 639-1 code; the offline provider can't translate and keeps each email's language
+}
+
+// Personal data and secrets that can be replaced by placeholders before text is sent to a model.
+export type RedactionKind = 'custom' | 'signature' | 'secret' | 'card' | 'account' | 'ssn' | 'email' | 'phone' | 'address';
+
+export interface RedactionSettings {
+  enabled: boolean;
+  kinds: RedactionKind[]; // The detectors that run
+  customTerms: string[]; // Names, project codes and other words to redact as well, matched case-insensitively
+}
+
+// One distinct value that was redacted. The original is only kept in this browser.
+export interface RedactionEntry {
+  placeholder: string; // e.g. "[PHONE_2]", stable for the value throughout a run
+  kind: RedactionKind;
+  original: string;
+  count: number; // How often it was replaced in text sent to the model
+}
+
+// 'summaries' and 'threads' output is a list of { index, summary, ... }; 'groups' output is a list of OrganizedEmailGroup.
+export type ModelTask = 'summaries' | 'groups' | 'threads';
+
+// A backend that can summarize parsed emails, or extract and group emails from unstructured text.
+// Results are returned as parsed but unvalidated JSON; callers validate them.
+// Receives the list items of a model response that have streamed in so far, before validation.
+export type PartialOutputHandler = (items: unknown[]) => void;
+
+export interface EmailOrganizerProvider {
+  label: string;
+  // Throws an "AI Service Error:" if the provider can't run with its current configuration.
+  checkConfiguration: () => void;
+  // Providers that can stream report complete list items to `onPartialOutput` as they arrive;
+  // the returned promise still resolves to the whole output.
+  summarizeEmails: (emails: ParsedEmail[], signal?: AbortSignal, onPartialOutput?: PartialOutputHandler) => Promise<unknown>;
+  extractEmails: (emailContent: string, signal?: AbortSignal, onPartialOutput?: PartialOutputHandler) => Promise<unknown>;
+  summarizeThreads: (threads: EmailThread[], signal?: AbortSignal) => Promise<unknown>;
+  draftReply: (request: ReplyRequest, signal?: AbortSignal) => Promise<unknown>; // A { subject, body } object
+  // A briefing across the given emails, citing them by their position in the list.
+  writeDigest: (emails: EmailWithSender[], signal?: AbortSignal) => Promise<unknown>;
+  // Asks the model to correct its earlier output for `task`, given the validation problems found in it.
+  repairOutput: (task: ModelTask, output: unknown, issues: ValidationIssue[], signal?: AbortSignal) => Promise<unknown>;
+}
+
+// A saved organize run in the local (IndexedDB) archive.
+export interface ArchivedRun {
+  id: string;
+  userSub: string; // UserProfile.sub of the owner
+  name: string;
+  inputHash: string; // SHA-256 of the input and provider, used to reuse results for identical input
+  createdAt: string; // ISO 8601
+  groups: OrganizedEmailGroup[];
+  threadSummaries: ThreadSummaries;
 }
 
 export type SortOrder = 'newest' | 'oldest';
 
+export type GroupMode = 'sender' | 'category' | 'priority' | 'thread';
+
+// An email together with its sender, for views that mix senders (e.g. grouping by category).
+export interface EmailWithSender extends Email {
+  senderName: string;
+  senderEmail: string;
+}
+
+// An action item together with the email it came from, as listed in the Tasks view.
+export interface TaskEntry {
+  key: string; // Derived from the email and the item, so completion survives re-running the same input
+  item: ActionItem;
+  email: EmailWithSender;
+}
+
+// One person behind one or more sender addresses, as resolved by services/identity.ts.
+export interface Contact {
+  address: string; // The primary address, used as the contact's group senderEmail
+  name: string;
+  addresses: string[]; // Every sender address resolved to this contact, primary first
+  mergeId: string | null; // The user's merge that joined these addresses, if any
+}
+
+// Addresses the user merged into one contact by hand.
+export interface ContactMerge {
+  id: string;
+  addresses: string[];
+}
+
+// The user's corrections to automatic identity resolution, saved per user.
+export interface IdentitySettings {
+  merges: ContactMerge[];
+  splits: string[]; // Addresses kept apart from the contact their normalized form would join
+  dismissedAliases: string[]; // AliasSuggestion.key of suggestions the user rejected
+}
+
+// Two contacts that look like the same person but weren't merged automatically.
+export interface AliasSuggestion {
+  key: string; // Both primary addresses, sorted and joined with "|"
+  contacts: [Contact, Contact];
+  reason: string;
+}
+
+export interface Participant {
+  name: string;
+  email: string;
+}
+
+// A conversation reconstructed from the organized emails, possibly spanning several senders.
+export interface EmailThread {
+  id: string; // Email.threadId
+  subject: string; // Without "Re:"/"Fwd:" prefixes
+  participants: Participant[]; // Everyone who sent a message, in order of first appearance
+  emails: EmailWithSender[]; // Oldest first
+  summary: string; // The AI summary of the whole conversation, or an empty string if there is none
+}
+
+export type ResultsTab = 'emails' | 'tasks' | 'subscriptions' | 'attachments' | 'digest' | 'insights';
+
+// One distinct file in the Attachments tab, see services/attachments.ts.
+export interface AttachmentInventoryEntry {
+  attachment: Attachment; // The first copy found; copies differ at most in their names
+  fileNames: string[]; // Every name the file was sent under
+  emails: EmailWithSender[]; // Newest first
+}
+
+// A sender of bulk mail, as listed in the Subscriptions tab.
+export interface Subscription {
+  senderName: string;
+  senderEmail: string;
+  count: number; // Bulk emails from this sender
+  latestDate: string;
+  unsubscribeLinks: string[]; // From the most recent email that has any
+  mergedByRule: boolean; // From a rule-merged group, whose emails may come from several senders
+}
+
+export interface CountEntry {
+  label: string;
+  count: number;
+}
+
+// The aggregates shown in the Insights tab, see services/analytics.ts.
+export interface InboxAnalytics {
+  totalEmails: number;
+  undatedEmails: number; // Left out of the volume chart and the heatmap
+  topSenders: CountEntry[];
+  topDomains: CountEntry[];
+  volume: { bucket: 'day' | 'week' | 'month'; entries: CountEntry[] }; // Oldest first, including empty periods
+  heatmap: number[][]; // Email counts by weekday (0 = Monday) and hour of the day, in local time
+  bulkMail: { newsletters: number; notifications: number }; // Emails in those categories
+  threads: { count: number; averageLength: number; longest: number }; // Conversations of more than one email
+}
+
+// Search and filters over the organized results. Empty values don't filter.
+export interface ResultsFilter {
+  query: string; // Fuzzy-matched against sender, subject and summary
+  dateFrom: string; // YYYY-MM-DD, inclusive
+  dateTo: string; // YYYY-MM-DD, inclusive
+  domain: string; // Sender domain, e.g. "example.com"
+  minGroupSize: number; // Only senders with at least this many emails; 0 or 1 shows everyone
+  suspiciousOnly: boolean; // Only emails with a medium or high phishing risk
+}
+
+// One collapsible group as shown in the results, whichever GroupMode produced it.
+export interface EmailGroupView {
+  key: string;
+  title: string;
+  subtitle: string;
+  showSender: boolean; // Whether the emails' senders differ, so each card should name its sender
+  mergedByRule: boolean; // A rule-merged group in the sender view, which belongs to no contact
+  emails: EmailWithSender[];
+}
+
+// What a key does in keyboard triage mode, see services/triage.ts.
+export type TriageCommand = 'next' | 'previous' | 'toggle-group' | 'select' | 'delete' | 'copy' | 'search' | 'help' | 'exit';
+
+// A stop for the triage cursor: an email in an open group, or a collapsed group as a whole.
+export interface TriageItem {
+  key: string; // The email's id, or "group:" and the view key for a collapsed group
+  viewKey: string; // EmailGroupView.key of the group it is in
+  emailId: string | null; // null for a collapsed group
+}
+
+export type ExportFormat = 'csv' | 'json' | 'markdown' | 'ics';
+
+// The versioned JSON export. Re-importing it restores the results and the view they were exported from.
+export interface ResultsExport {
+  format: 'mail-organizer-results';
+  version: number;
+  exportedAt: string; // ISO 8601
+  view: {
+    groupMode: GroupMode;
+    sortOrder: SortOrder;
+  };
+  groups: OrganizedEmailGroup[];
+  threadSummaries: ThreadSummaries;
+}
+
 export interface UserProfile {
   name: string;
   email: string;
   picture: string;
   sub: string; // Google's unique user ID
 }
+
+export type ReplyTone = 'friendly' | 'formal' | 'brief';
+
+// What a reply is drafted from: one email, or every email from one sender.
+export interface ReplyRequest {
+  recipientName: string;
+  emails: EmailWithSender[];
+  instruction: string; // What the reply should say, e.g. "decline politely"; may be empty
+  tone: ReplyTone;
+}
+
+// Who and what a reply answers, as chosen in the results.
+export interface ReplyTarget {
+  key: string; // Identifies the saved draft, see services/replyDrafts.ts
+  recipientName: string;
+  recipientEmail: string;
+  emails: EmailWithSender[];
+}
+
+// A reply saved in this browser, keyed by what it answers (see services/replyDrafts.ts).
+export interface ReplyDraft {
+  key: string;
+  recipientName: string;
+  recipientEmail: string;
+  subject: string;
+  body: string;
+  tone: ReplyTone;
+  instruction: string;
+  updatedAt: string; // ISO 8601
+}
+
+// Which emails a digest covers, counted back from the most recent email of the run.
+export type DigestScope = 'day' | 'week' | 'all';
+
+export interface DigestPoint {
+  text: string;
+  sourceIds: string[]; // Email.id of the emails the point is based on
+}
+
+export interface DigestDeadline extends DigestPoint {
+  dueDate: string; // ISO 8601
+}
+
+// A briefing across a whole run, see services/digest.ts.
+export interface Digest {
+  scope: DigestScope;
+  generatedAt: string; // ISO 8601
+  emailCount: number; // Emails the digest was written from
+  overview: string;
+  keyThreads: DigestPoint[];
+  decisions: DigestPoint[];
+  openQuestions: DigestPoint[];
+  deadlines: DigestDeadline[]; // Soonest first
+}
@@ -6,7 +6,9 @@ export default defineConfig(({ mode }) => {
     return {
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Optional: point the Gmail client at a local mock server instead of Google's API.
+        'process.env.GMAIL_API_BASE_URL': JSON.stringify(env.GMAIL_API_BASE_URL || '')
       },
       resolve: {
         alias: {